@@ -1,25 +1,112 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import type { PDFDocument as PDFDocType, TextAnnotation, TextSettings } from '@/types/pdf';
+import type {
+  PDFDocument as PDFDocType,
+  PDFProtection,
+  AnnotationSummary,
+  CropBox,
+  DocumentMetadata,
+  DrawingShape,
+  DrawingTool,
+  FontOption,
+  FormField,
+  FormValues,
+  FormWidget,
+  HeaderFooterSettings,
+  ImageExportSettings,
+  ImageImportSettings,
+  MergeRule,
+  MarkupAnnotation,
+  MarkupType,
+  MergeSource,
+  OptimizePreset,
+  OutlineItem,
+  PageOperation,
+  PlacedSignature,
+  PreparedImage,
+  RedactionMark,
+  SavedSignature,
+  SearchHit,
+  SignatureStampOption,
+  TaskOptions,
+  TextAnnotation,
+  TextSettings,
+  Watermark,
+  Workspace,
+  WorkspaceSession,
+} from '@/types/pdf';
+import { parseMergeRules, initializePages, reportProgress } from '@/utils/pdfUtils';
+import { getCachedPDFDocument, getFormWidgets, getPageAnnotations, getPageCount, loadPDFDocument, releaseCachedPDFDocument, renderEditedPage, verifyPassword } from '@/utils/pdfRender';
 import {
-  generateThumbnails,
-  rotatePages,
-  splitPDF,
-  mergePDFs,
-  extractPages,
-  reorderPages,
-  cropPage,
-  parseMergeRules,
-  getPageCount,
-  initializePages,
-  addTextToPage,
-  loadPDFDocument,
-  renderPageToCanvas,
-} from '@/utils/pdfUtils';
+  chunkPages,
+  findBlankPages,
+  getBookmarkRules,
+  splitAtSeparators,
+  SEPARATOR_TOLERANCE_OPTIONS,
+  type SplitMode,
+} from '@/utils/splitPlanner';
+import {
+  applyOperationToDocument,
+  computeMoveOrder,
+  describeOperation,
+  replayOutline,
+} from '@/utils/editOperations';
+import { clearDocumentThumbnails } from '@/utils/thumbnailCache';
+import { runPDFTask, isAbortError } from '@/utils/pdfTaskRunner';
+import {
+  createHistory,
+  pushHistory,
+  undoHistory,
+  redoHistory,
+  jumpHistory,
+  type History,
+} from '@/utils/history';
+import { DEFAULT_FONT_FAMILY, getFontOptions, getFontOption } from '@/utils/fonts';
+import { loadBundledFontFace, registerFontFile } from '@/utils/fontLoader';
+import { PDFWorkerError } from '@/utils/pdfWorker';
+import { isImageFile, prepareImage } from '@/utils/imageImport';
+import { exportPagesAsImages, type ExportedImage } from '@/utils/imageExport';
+import { buildStampOperations } from '@/utils/pageStamps';
+import { EMPTY_METADATA, getDocumentMetadata, readDocumentMetadata } from '@/utils/metadata';
+import { isEncryptedPDF } from '@/utils/encryption';
+import { OPTIMIZE_PRESETS } from '@/utils/optimize';
+import { clearWorkspace, getStorageEstimate, loadWorkspace, markWorkspaceSaved, requestPersistentStorage, saveWorkspace } from '@/utils/workspaceStore';
+import { exportWorkspaceArchive, importWorkspaceArchive } from '@/utils/workspaceArchive';
+import { formatFileSize } from '@/utils/fileSize';
+import { formValuesToJSON, getFormFields, getFormState, parseFormValues } from '@/utils/formFields';
+import { getOriginalOutline } from '@/utils/outline';
+import { REDACTION_DPI_OPTIONS, findRedactionLeaks, rasterizeRedactedPage } from '@/utils/redaction';
+import { findTextMatches, getPageTextBoxes, snapToText, type TextBox } from '@/utils/textGeometry';
+import { searchDocuments } from '@/utils/textSearch';
+import { MARKUP_TOOLS, markupLine, markupQuad } from '@/utils/markup';
+import { paintShapes } from '@/utils/fabricShapes';
+import { deleteSignature, listSignatures, saveSignature } from '@/utils/signatureStore';
 import { cn } from '@/utils/cn';
-
-type EditorMode = 'view' | 'text' | 'crop';
+import { PageThumbnail } from '@/components/PageThumbnail';
+import { MergeDialog, type MergeEntry } from '@/components/MergeDialog';
+import { SplitPreview } from '@/components/SplitPreview';
+import { ImageImportDialog } from '@/components/ImageImportDialog';
+import { ImageExportDialog } from '@/components/ImageExportDialog';
+import { WatermarkDialog } from '@/components/WatermarkDialog';
+import { HeaderFooterDialog } from '@/components/HeaderFooterDialog';
+import { FormFieldOverlay } from '@/components/FormFieldOverlay';
+import { DocumentPropertiesDialog } from '@/components/DocumentPropertiesDialog';
+import { OutlinePanel } from '@/components/OutlinePanel';
+import { SearchPanel } from '@/components/SearchPanel';
+import { MarkupPanel } from '@/components/MarkupPanel';
+import { DrawingLayer } from '@/components/DrawingLayer';
+import { DrawingPanel } from '@/components/DrawingPanel';
+import { SignatureLayer } from '@/components/SignatureLayer';
+import { SignaturePanel } from '@/components/SignaturePanel';
+import { SignatureDialog } from '@/components/SignatureDialog';
+import { PasswordProtectionDialog } from '@/components/PasswordProtectionDialog';
+import { OptimizeDialog, type OptimizeResult } from '@/components/OptimizeDialog';
+
+// Edits are written to IndexedDB once they settle for this long
+const WORKSPACE_SAVE_DELAY = 1000;
+
+type EditorMode = 'view' | 'text' | 'crop' | 'redact' | 'form' | 'markup' | 'draw' | 'sign';
 
 export function App() {
   const [documents, setDocuments] = useState<PDFDocType[]>([]);
@@ -28,72 +115,290 @@ export function App() {
   const [mode, setMode] = useState<EditorMode>('view');
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
+  const [progress, setProgress] = useState<{ current: number; total: number } | null>(null);
   const [selectedPages, setSelectedPages] = useState<Set<string>>(new Set());
   const [mergeRule, setMergeRule] = useState('');
+  const [splitMode, setSplitMode] = useState<SplitMode>('ranges');
+  const [splitEvery, setSplitEvery] = useState(2);
+  const [splitSizeMB, setSplitSizeMB] = useState(10);
+  // Ink coverage in percent up to which a page counts as a separator
+  const [separatorTolerance, setSeparatorTolerance] = useState(1);
   const [textSettings, setTextSettings] = useState<TextSettings>({
     fontSize: 16,
-    fontFamily: 'Helvetica',
+    fontFamily: DEFAULT_FONT_FAMILY,
     color: '#000000',
   });
   const [currentAnnotations, setCurrentAnnotations] = useState<TextAnnotation[]>([]);
+  const [currentMarkups, setCurrentMarkups] = useState<MarkupAnnotation[]>([]);
+  const [markupTool, setMarkupTool] = useState<MarkupType>('highlight');
+  const [markupColor, setMarkupColor] = useState(MARKUP_TOOLS[0].color);
+  const [markupAuthor, setMarkupAuthor] = useState('');
+  const [pageTextBoxes, setPageTextBoxes] = useState<TextBox[]>([]);
+  const [existingAnnotations, setExistingAnnotations] = useState<AnnotationSummary[]>([]);
+  const [currentShapes, setCurrentShapes] = useState<DrawingShape[]>([]);
+  const [drawTool, setDrawTool] = useState<DrawingTool>('pen');
+  const [drawColor, setDrawColor] = useState('#dc2626');
+  const [drawWidth, setDrawWidth] = useState(2);
+  const [drawOpacity, setDrawOpacity] = useState(1);
+  const [currentSignatures, setCurrentSignatures] = useState<PlacedSignature[]>([]);
+  const [savedSignatures, setSavedSignatures] = useState<SavedSignature[]>([]);
+  const [signatureStamp, setSignatureStamp] = useState<SignatureStampOption>('none');
+  const [signerName, setSignerName] = useState('');
   const [cropBox, setCropBox] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
   const [isCropping, setIsCropping] = useState(false);
   const [cropStart, setCropStart] = useState<{ x: number; y: number } | null>(null);
   const [pagePreview, setPagePreview] = useState<string | null>(null);
-  const [pageSize, setPageSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
+  const [redactionMarks, setRedactionMarks] = useState<RedactionMark[]>([]);
+  const [redactionQuery, setRedactionQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchHighlights, setSearchHighlights] = useState<TextBox[]>([]);
+  const [redactionDpi, setRedactionDpi] = useState(200);
+  const [formFields, setFormFields] = useState<FormField[]>([]);
+  const [formWidgets, setFormWidgets] = useState<FormWidget[]>([]);
+  const [formValues, setFormValues] = useState<FormValues>({});
+  const [history, setHistory] = useState<History<PDFDocType[]>>(createHistory);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [pendingImages, setPendingImages] = useState<File[]>([]);
+  const [showImageExport, setShowImageExport] = useState(false);
+  const [showWatermarkDialog, setShowWatermarkDialog] = useState(false);
+  const [showHeaderFooterDialog, setShowHeaderFooterDialog] = useState(false);
+  const [showPropertiesDialog, setShowPropertiesDialog] = useState(false);
+  const [showSignatureDialog, setShowSignatureDialog] = useState(false);
+  const [stripMetadata, setStripMetadata] = useState(false);
+  const [exportProtection, setExportProtection] = useState<PDFProtection | null>(null);
+  const [showProtectionDialog, setShowProtectionDialog] = useState(false);
+  const [showOptimizeDialog, setShowOptimizeDialog] = useState(false);
+  const [optimizePreset, setOptimizePreset] = useState<OptimizePreset>('ebook');
+  const [optimizeResults, setOptimizeResults] = useState<OptimizeResult[]>([]);
+  // Autosave waits until the previous session was restored or declined
+  const [workspaceReady, setWorkspaceReady] = useState(false);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [workspaceSaveFailed, setWorkspaceSaveFailed] = useState(false);
+  // Bookmarks read from the original bytes of the active document
+  const [originalOutline, setOriginalOutline] = useState<{ buffer: ArrayBuffer; items: OutlineItem[] } | null>(null);
+  const [fontOptions, setFontOptions] = useState<FontOption[]>(getFontOptions);
+  const [fontsLoaded, setFontsLoaded] = useState(false);
+  const [dragState, setDragState] = useState<{ docId: string; indices: number[] } | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [dropTargetDocId, setDropTargetDocId] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const formJsonInputRef = useRef<HTMLInputElement>(null);
+  const workspaceInputRef = useRef<HTMLInputElement>(null);
+  // StrictMode runs mount effects twice; the restore prompt must only appear once
+  const restorePromptedRef = useRef(false);
+  const persistRequestedRef = useRef(false);
+  const documentsRef = useRef<PDFDocType[]>([]);
+  const taskControllerRef = useRef<AbortController | null>(null);
 
   const activeDoc = documents.find(d => d.id === activeDocId);
+  const activePageCount = activeDoc?.pageCount ?? 0;
+
+  const outline = useMemo(() => activeDoc && originalOutline?.buffer === activeDoc.arrayBuffer
+    ? replayOutline(originalOutline.items, activeDoc.operations)
+    : [], [activeDoc, originalOutline]);
+
+  // Without a rule every page becomes its own file
+  const splitPlan = useMemo(() => mergeRule.trim()
+    ? parseMergeRules(mergeRule, activePageCount)
+    : {
+      rules: Array.from({ length: activePageCount }, (_, i) => ({ pageIndices: [i], source: String(i + 1) })),
+      errors: [],
+    }, [mergeRule, activePageCount]);
+
+  // Show the loading overlay for a cancellable task and return its options
+  const beginTask = useCallback((message: string): TaskOptions => {
+    const controller = new AbortController();
+    taskControllerRef.current = controller;
+    setLoading(true);
+    setLoadingMessage(message);
+    setProgress(null);
+    return {
+      signal: controller.signal,
+      onProgress: (current, total) => setProgress({ current, total }),
+    };
+  }, []);
+
+  // Switch the overlay to the next step of a multi-step task
+  const updateTaskStep = useCallback((message: string) => {
+    setLoadingMessage(message);
+    setProgress(null);
+  }, []);
+
+  const endTask = useCallback(() => {
+    taskControllerRef.current = null;
+    setLoading(false);
+    setLoadingMessage('');
+    setProgress(null);
+  }, []);
+
+  // Encrypt a finished output file when export protection is set
+  const protectOutput = useCallback(async (bytes: Uint8Array, options: TaskOptions): Promise<Uint8Array> => {
+    if (!exportProtection) return bytes;
+    return await runPDFTask({ type: 'encrypt', arrayBuffer: bytes.buffer as ArrayBuffer, protection: exportProtection }, options);
+  }, [exportProtection]);
+
+  const cancelTask = useCallback(() => {
+    taskControllerRef.current?.abort();
+  }, []);
+
+  // Replace the document list as one undoable step
+  const commitDocuments = useCallback((label: string, update: (prev: PDFDocType[]) => PDFDocType[]) => {
+    const prev = documentsRef.current;
+    const next = update(prev);
+    documentsRef.current = next;
+    setDocuments(next);
+    setHistory(h => pushHistory(h, label, prev));
+  }, []);
+
+  // Page positions of the given document that are currently selected
+  const getSelectedIndices = useCallback((doc: PDFDocType) => {
+    const prefix = `${doc.id}-`;
+    return Array.from(selectedPages)
+      .filter(key => key.startsWith(prefix))
+      .map(key => parseInt(key.slice(prefix.length), 10))
+      .sort((a, b) => a - b);
+  }, [selectedPages]);
+
+  // Record an operation; thumbnails re-render only for pages whose appearance changed
+  const applyOperation = useCallback((doc: PDFDocType, operation: PageOperation) => {
+    const updated = applyOperationToDocument(doc, operation);
+    commitDocuments(`${doc.name}：${describeOperation(operation)}`, prev => prev.map(d => d.id === doc.id ? updated : d));
+    return updated.pages;
+  }, [commitDocuments]);
 
   // Handle file upload
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
-    setLoading(true);
-    setLoadingMessage('載入PDF中...');
+    const options = beginTask('載入PDF中...');
 
     try {
       const newDocs: PDFDocType[] = [];
 
-      for (const file of Array.from(files)) {
-        if (file.type !== 'application/pdf') continue;
-
-        const arrayBuffer = await file.arrayBuffer();
+      const pdfFiles = Array.from(files).filter(file => file.type === 'application/pdf');
+      // Images are converted after the user picks page settings
+      const imageFiles = Array.from(files).filter(isImageFile);
+
+      for (const [i, file] of pdfFiles.entries()) {
+        setLoadingMessage(`載入 ${file.name}...`);
+        let arrayBuffer = await file.arrayBuffer();
+        if (isEncryptedPDF(arrayBuffer)) {
+          // Files that only restrict permissions open with an empty password
+          let password = '';
+          let unlocked = await verifyPassword(arrayBuffer, password);
+          while (!unlocked) {
+            const entered = prompt(password
+              ? `密碼錯誤，請重新輸入「${file.name}」的密碼`
+              : `「${file.name}」已加密，請輸入密碼`);
+            // Cancelling skips this file
+            if (entered === null) break;
+            password = entered;
+            unlocked = await verifyPassword(arrayBuffer, password);
+          }
+          if (!unlocked) continue;
+
+          // pdf-lib cannot edit encrypted files, so keep a decrypted copy
+          setLoadingMessage(`解密 ${file.name}...`);
+          const decrypted = await runPDFTask({ type: 'decrypt', arrayBuffer, password }, options);
+          arrayBuffer = decrypted.buffer as ArrayBuffer;
+        }
         const pageCount = await getPageCount(arrayBuffer);
-        const thumbnails = await generateThumbnails(arrayBuffer, 0.3);
+        const metadata = await readDocumentMetadata(await getCachedPDFDocument(arrayBuffer));
         const pages = initializePages(pageCount);
-        
-        pages.forEach((page, i) => {
-          page.thumbnail = thumbnails[i];
-        });
+        await reportProgress(options, i + 1, pdfFiles.length);
 
         newDocs.push({
           id: crypto.randomUUID(),
           name: file.name.replace('.pdf', ''),
           arrayBuffer,
+          operations: [],
+          metadata,
           pageCount,
           pages,
         });
       }
 
-      setDocuments(prev => [...prev, ...newDocs]);
+      if (newDocs.length > 0) {
+        commitDocuments(`上傳 ${newDocs.map(d => d.name).join('、')}`, prev => [...prev, ...newDocs]);
+      }
       if (newDocs.length > 0 && !activeDocId) {
         setActiveDocId(newDocs[0].id);
       }
+      if (imageFiles.length > 0) {
+        setPendingImages(imageFiles);
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to load PDF:', error);
-      alert('載入PDF失敗，請確認文件格式正確');
+      alert(error instanceof PDFWorkerError
+        ? `無法啟動PDF處理元件，請重新整理頁面或改用其他瀏覽器\n${error.message}`
+        : '載入PDF失敗，請確認文件格式正確');
     } finally {
-      setLoading(false);
-      setLoadingMessage('');
+      endTask();
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
     }
-  }, [activeDocId]);
+  }, [activeDocId, commitDocuments, beginTask, endTask]);
+
+  // Convert the pending images into new documents or pages of the active one
+  const handleImageImport = useCallback(async (settings: ImageImportSettings) => {
+    const files = pendingImages;
+    setPendingImages([]);
+    const options = beginTask('處理圖片中...');
+
+    try {
+      const images: PreparedImage[] = [];
+      for (const [i, file] of files.entries()) {
+        updateTaskStep(`處理 ${file.name}...`);
+        images.push(await prepareImage(file, settings.quality));
+        await reportProgress(options, i + 1, files.length);
+      }
+
+      updateTaskStep('建立PDF中...');
+      const groups = settings.target === 'separate' ? images.map(image => [image]) : [images];
+      const buffers: Uint8Array[] = [];
+      for (const group of groups) {
+        buffers.push(await runPDFTask({ type: 'images', images: group, settings }, options));
+      }
+
+      if (settings.target === 'insert' && activeDoc) {
+        applyOperation(activeDoc, {
+          type: 'insert',
+          index: activeDoc.pageCount,
+          source: { id: crypto.randomUUID(), arrayBuffer: buffers[0].buffer as ArrayBuffer },
+          pageCount: images.length,
+        });
+        return;
+      }
+
+      const newDocs: PDFDocType[] = groups.map((group, i) => ({
+        id: crypto.randomUUID(),
+        name: group.length === 1 ? group[0].name : `${group[0].name} 等 ${group.length} 張圖片`,
+        arrayBuffer: buffers[i].buffer as ArrayBuffer,
+        operations: [],
+        metadata: EMPTY_METADATA,
+        pageCount: group.length,
+        pages: initializePages(group.length),
+      }));
+      commitDocuments(`匯入圖片 ${newDocs.map(d => d.name).join('、')}`, prev => [...prev, ...newDocs]);
+      setActiveDocId(newDocs[0].id);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to import images:', error);
+      alert('匯入圖片失敗，請確認圖片格式正確（支援 JPG、PNG 等）');
+    } finally {
+      endTask();
+    }
+  }, [pendingImages, activeDoc, applyOperation, commitDocuments, beginTask, updateTaskStep, endTask]);
 
   // Toggle page selection
   const togglePageSelection = useCallback((docId: string, pageIndex: number) => {
@@ -125,243 +430,567 @@ export function App() {
   }, []);
 
   // Rotate selected pages
-  const handleRotate = useCallback(async (degrees: number) => {
+  const handleRotate = useCallback((degrees: number) => {
     if (!activeDoc || selectedPages.size === 0) return;
-    
-    setLoading(true);
-    setLoadingMessage('旋轉頁面中...');
 
-    try {
-      const pageIndices = Array.from(selectedPages)
-        .filter(key => key.startsWith(activeDoc.id))
-        .map(key => parseInt(key.split('-')[1], 10));
-
-      const newBuffer = await rotatePages(activeDoc.arrayBuffer, pageIndices, degrees);
-      const thumbnails = await generateThumbnails(newBuffer.buffer as ArrayBuffer, 0.3);
-
-      setDocuments(prev => prev.map(doc => {
-        if (doc.id !== activeDoc.id) return doc;
-        return {
-          ...doc,
-          arrayBuffer: newBuffer.buffer as ArrayBuffer,
-          pages: doc.pages.map((page, i) => ({
-            ...page,
-            thumbnail: thumbnails[i],
-            rotation: pageIndices.includes(i) ? page.rotation + degrees : page.rotation,
-          })),
-        };
-      }));
-    } catch (error) {
-      console.error('Failed to rotate pages:', error);
-      alert('旋轉頁面失敗');
-    } finally {
-      setLoading(false);
-    }
-  }, [activeDoc, selectedPages]);
+    applyOperation(activeDoc, {
+      type: 'rotate',
+      pageIndices: getSelectedIndices(activeDoc),
+      degrees,
+    });
+  }, [activeDoc, selectedPages, applyOperation, getSelectedIndices]);
 
   // Split PDF
   const handleSplit = useCallback(async () => {
     if (!activeDoc) return;
 
-    setLoading(true);
-    setLoadingMessage('拆分PDF中...');
+    const options = beginTask('套用編輯中...');
 
     try {
-      const rules = mergeRule.trim() 
-        ? parseMergeRules(mergeRule, activeDoc.pageCount)
-        : activeDoc.pages.map((_, i) => ({ start: i, end: i }));
-
-      if (rules.length === 0) {
+      if (splitMode === 'ranges' && splitPlan.errors.length > 0) {
+        alert(`拆分規則有誤：${splitPlan.errors[0].message}`);
+        return;
+      }
+      if (splitMode === 'ranges' && splitPlan.rules.length === 0) {
         alert('請輸入有效的拆分規則，例如：1-2,3,4-9,10');
         return;
       }
 
-      const splitBuffers = await splitPDF(activeDoc.arrayBuffer, rules);
-      
+      const exported = await runPDFTask({
+        type: 'export',
+        arrayBuffer: activeDoc.arrayBuffer,
+        operations: activeDoc.operations,
+        stripMetadata,
+      }, options);
+      const arrayBuffer = exported.buffer as ArrayBuffer;
+
+      let splitBuffers: Uint8Array[];
+      let names: (string | undefined)[] = [];
+      if (splitMode === 'size') {
+        updateTaskStep('依檔案大小拆分中...');
+        splitBuffers = await runPDFTask({
+          type: 'splitBySize',
+          arrayBuffer,
+          maxBytes: splitSizeMB * 1024 * 1024,
+        }, options);
+      } else {
+        let rules: MergeRule[];
+        if (splitMode === 'every') {
+          rules = chunkPages(activeDoc.pageCount, splitEvery);
+        } else if (splitMode === 'ranges') {
+          rules = splitPlan.rules;
+        } else {
+          // Bookmarks and separators are read from the edited document
+          const pdfDoc = await loadPDFDocument(arrayBuffer);
+          try {
+            if (splitMode === 'bookmarks') {
+              rules = await getBookmarkRules(pdfDoc, activeDoc.name);
+              if (rules.length === 0) {
+                alert('此文件沒有可用的書籤');
+                return;
+              }
+            } else {
+              updateTaskStep('偵測空白分隔頁中...');
+              const separators = await findBlankPages(pdfDoc, separatorTolerance, options);
+              if (separators.length === 0) {
+                alert(`找不到墨跡覆蓋率在 ${separatorTolerance}% 以下的分隔頁，可提高容許值後再試`);
+                return;
+              }
+              rules = splitAtSeparators(activeDoc.pageCount, separators);
+            }
+          } finally {
+            await pdfDoc.destroy();
+          }
+        }
+
+        names = rules.map(rule => rule.name);
+        updateTaskStep('拆分PDF中...');
+        splitBuffers = await runPDFTask({
+          type: 'split',
+          arrayBuffer,
+          ranges: rules,
+        }, options);
+      }
+
       const zip = new JSZip();
-      splitBuffers.forEach((buffer, i) => {
+      if (exportProtection) updateTaskStep('加密PDF中...');
+      for (const [i, buffer] of splitBuffers.entries()) {
         const paddedNum = String(i + 1).padStart(3, '0');
-        zip.file(`${activeDoc.name}_${paddedNum}.pdf`, buffer);
-      });
+        zip.file(names[i] ? `${paddedNum}_${names[i]}.pdf` : `${activeDoc.name}_${paddedNum}.pdf`, await protectOutput(buffer, options));
+      }
 
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       saveAs(zipBlob, `${activeDoc.name}_split.zip`);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to split PDF:', error);
       alert('拆分PDF失敗');
     } finally {
-      setLoading(false);
+      endTask();
     }
-  }, [activeDoc, mergeRule]);
+  }, [activeDoc, splitMode, splitPlan, splitEvery, splitSizeMB, separatorTolerance, stripMetadata, exportProtection, protectOutput, beginTask, updateTaskStep, endTask]);
 
   // Merge all documents
-  const handleMergeAll = useCallback(async () => {
-    if (documents.length < 2) {
-      alert('請至少上傳兩個PDF文件進行合併');
-      return;
-    }
-
-    setLoading(true);
-    setLoadingMessage('合併PDF中...');
+  const handleMerge = useCallback(async (entries: MergeEntry[], metadataDocId: string | null, preset: OptimizePreset | null) => {
+    setShowMergeDialog(false);
+    const options = beginTask('合併PDF中...');
 
     try {
-      const buffers = documents.map(d => d.arrayBuffer);
-      const mergedBuffer = await mergePDFs(buffers);
-      
-      const blob = new Blob([new Uint8Array(mergedBuffer)], { type: 'application/pdf' });
+      const sources: MergeSource[] = [];
+      let metadataIndex: number | undefined;
+      for (const entry of entries) {
+        const doc = documents.find(d => d.id === entry.docId);
+        if (!doc) continue;
+
+        updateTaskStep(`套用編輯：${doc.name}`);
+        const buffer = await runPDFTask({
+          type: 'export',
+          arrayBuffer: doc.arrayBuffer,
+          operations: doc.operations,
+          stripMetadata,
+        }, options);
+        if (doc.id === metadataDocId) metadataIndex = sources.length;
+        sources.push({ buffer, ranges: entry.ranges, name: doc.name });
+      }
+      updateTaskStep('合併PDF中...');
+      let mergedBuffer = await runPDFTask({
+        type: 'merge',
+        sources,
+        // Stripped sources carry no metadata, so copying from any of them leaves the result bare
+        metadataSource: stripMetadata ? 0 : metadataIndex,
+      }, options);
+      if (preset) {
+        // Merged sources often repeat the same fonts and logos
+        updateTaskStep('壓縮最佳化中...');
+        const { dpi, quality } = OPTIMIZE_PRESETS[preset];
+        mergedBuffer = await runPDFTask({
+          type: 'optimize',
+          arrayBuffer: mergedBuffer.buffer as ArrayBuffer,
+          settings: { dpi, quality },
+        }, options);
+      }
+      if (exportProtection) updateTaskStep('加密PDF中...');
+      const protectedBuffer = await protectOutput(mergedBuffer, options);
+
+      const blob = new Blob([new Uint8Array(protectedBuffer)], { type: 'application/pdf' });
       saveAs(blob, 'merged_document.pdf');
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to merge PDFs:', error);
       alert('合併PDF失敗');
     } finally {
-      setLoading(false);
+      endTask();
+    }
+  }, [documents, stripMetadata, exportProtection, protectOutput, beginTask, updateTaskStep, endTask]);
+
+  // Optimize the chosen documents with their edits applied, then list the results for download
+  const handleOptimize = useCallback(async (docIds: string[]) => {
+    setShowOptimizeDialog(false);
+    const options = beginTask('壓縮最佳化中...');
+
+    try {
+      const { dpi, quality } = OPTIMIZE_PRESETS[optimizePreset];
+      const results: OptimizeResult[] = [];
+      for (const doc of documents.filter(d => docIds.includes(d.id))) {
+        updateTaskStep(`套用編輯：${doc.name}`);
+        const exported = await runPDFTask({
+          type: 'export',
+          arrayBuffer: doc.arrayBuffer,
+          operations: doc.operations,
+          stripMetadata,
+        }, options);
+        updateTaskStep(`壓縮最佳化：${doc.name}`);
+        const optimized = await runPDFTask({
+          type: 'optimize',
+          arrayBuffer: exported.buffer as ArrayBuffer,
+          settings: { dpi, quality },
+        }, options);
+        // Encrypted files cannot use object streams, so protection is applied before sizes are shown
+        const bytes = await protectOutput(optimized, options);
+        results.push({ docId: doc.id, name: doc.name, before: exported.length, after: bytes.length, bytes });
+      }
+      setOptimizeResults(results);
+      setShowOptimizeDialog(true);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to optimize PDFs:', error);
+      alert('壓縮最佳化失敗');
+    } finally {
+      endTask();
     }
-  }, [documents]);
+  }, [documents, optimizePreset, stripMetadata, protectOutput, beginTask, updateTaskStep, endTask]);
+
+  const downloadOptimized = useCallback((result: OptimizeResult) => {
+    const blob = new Blob([new Uint8Array(result.bytes)], { type: 'application/pdf' });
+    saveAs(blob, `${result.name}_optimized.pdf`);
+  }, []);
+
+  const downloadOptimizedZip = useCallback(async () => {
+    try {
+      const zip = new JSZip();
+      optimizeResults.forEach((result, i) => {
+        zip.file(`${result.name}_${String(i + 1).padStart(3, '0')}_optimized.pdf`, result.bytes);
+      });
+      saveAs(await zip.generateAsync({ type: 'blob' }), 'pdf_optimized.zip');
+    } catch (error) {
+      console.error('Failed to create ZIP:', error);
+      alert('打包下載失敗');
+    }
+  }, [optimizeResults]);
 
   // Extract selected pages
   const handleExtract = useCallback(async () => {
     if (!activeDoc || selectedPages.size === 0) return;
 
-    setLoading(true);
-    setLoadingMessage('提取頁面中...');
+    const options = beginTask('套用編輯中...');
 
     try {
-      const pageIndices = Array.from(selectedPages)
-        .filter(key => key.startsWith(activeDoc.id))
-        .map(key => parseInt(key.split('-')[1], 10))
-        .sort((a, b) => a - b);
-
-      const extracted = await extractPages(activeDoc.arrayBuffer, pageIndices);
-      
-      const blob = new Blob([new Uint8Array(extracted)], { type: 'application/pdf' });
+      const exported = await runPDFTask({
+        type: 'export',
+        arrayBuffer: activeDoc.arrayBuffer,
+        operations: activeDoc.operations,
+        stripMetadata,
+      }, options);
+      updateTaskStep('提取頁面中...');
+      const extracted = await runPDFTask({
+        type: 'extract',
+        arrayBuffer: exported.buffer as ArrayBuffer,
+        pageIndices: getSelectedIndices(activeDoc),
+      }, options);
+      if (exportProtection) updateTaskStep('加密PDF中...');
+      const protectedBuffer = await protectOutput(extracted, options);
+
+      const blob = new Blob([new Uint8Array(protectedBuffer)], { type: 'application/pdf' });
       saveAs(blob, `${activeDoc.name}_extracted.pdf`);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to extract pages:', error);
       alert('提取頁面失敗');
     } finally {
-      setLoading(false);
+      endTask();
     }
-  }, [activeDoc, selectedPages]);
+  }, [activeDoc, selectedPages, getSelectedIndices, stripMetadata, exportProtection, protectOutput, beginTask, updateTaskStep, endTask]);
 
   // Delete selected pages
-  const handleDeletePages = useCallback(async () => {
+  const handleDeletePages = useCallback(() => {
     if (!activeDoc || selectedPages.size === 0) return;
 
-    const pageIndicesToDelete = Array.from(selectedPages)
-      .filter(key => key.startsWith(activeDoc.id))
-      .map(key => parseInt(key.split('-')[1], 10));
+    const pageIndicesToDelete = getSelectedIndices(activeDoc);
 
     if (pageIndicesToDelete.length === activeDoc.pageCount) {
       alert('無法刪除所有頁面');
       return;
     }
 
-    setLoading(true);
-    setLoadingMessage('刪除頁面中...');
+    applyOperation(activeDoc, { type: 'delete', pageIndices: pageIndicesToDelete });
+    setSelectedPages(new Set());
+  }, [activeDoc, selectedPages, applyOperation, getSelectedIndices]);
 
-    try {
-      const remainingIndices = activeDoc.pages
-        .map((_, i) => i)
-        .filter(i => !pageIndicesToDelete.includes(i));
-
-      const newBuffer = await extractPages(activeDoc.arrayBuffer, remainingIndices);
-      const thumbnails = await generateThumbnails(newBuffer.buffer as ArrayBuffer, 0.3);
-      const newPages = initializePages(remainingIndices.length);
-      newPages.forEach((page, i) => {
-        page.thumbnail = thumbnails[i];
-      });
+  // Move page
+  const handleMovePage = useCallback((fromIndex: number, toIndex: number) => {
+    if (!activeDoc || fromIndex === toIndex) return;
 
-      setDocuments(prev => prev.map(doc => {
-        if (doc.id !== activeDoc.id) return doc;
-        return {
-          ...doc,
-          arrayBuffer: newBuffer.buffer as ArrayBuffer,
-          pageCount: remainingIndices.length,
-          pages: newPages,
-        };
-      }));
+    const newOrder = activeDoc.pages.map((_, i) => i);
+    const [removed] = newOrder.splice(fromIndex, 1);
+    newOrder.splice(toIndex, 0, removed);
 
-      setSelectedPages(new Set());
-    } catch (error) {
-      console.error('Failed to delete pages:', error);
-      alert('刪除頁面失敗');
-    } finally {
-      setLoading(false);
-    }
-  }, [activeDoc, selectedPages]);
+    applyOperation(activeDoc, { type: 'reorder', newOrder });
+  }, [activeDoc, applyOperation]);
 
-  // Move page
-  const handleMovePage = useCallback(async (fromIndex: number, toIndex: number) => {
-    if (!activeDoc || fromIndex === toIndex) return;
+  // Start dragging a page, or the whole selection if the page is part of it
+  const handlePageDragStart = useCallback((e: React.DragEvent, index: number) => {
+    if (!activeDoc) return;
 
-    setLoading(true);
-    setLoadingMessage('移動頁面中...');
+    const selected = getSelectedIndices(activeDoc);
+    const indices = selected.includes(index) ? selected : [index];
+    setDragState({ docId: activeDoc.id, indices });
+    e.dataTransfer.effectAllowed = 'copyMove';
+    e.dataTransfer.setData('text/plain', indices.map(i => i + 1).join(','));
+  }, [activeDoc, getSelectedIndices]);
+
+  // Track the insertion point: before or after the hovered page
+  const handlePageDragOver = useCallback((e: React.DragEvent, index: number) => {
+    if (!activeDoc || dragState?.docId !== activeDoc.id) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+  }, [activeDoc, dragState]);
+
+  const handlePageDragEnd = useCallback(() => {
+    setDragState(null);
+    setDropIndex(null);
+    setDropTargetDocId(null);
+  }, []);
 
-    try {
-      const newOrder = activeDoc.pages.map((_, i) => i);
-      const [removed] = newOrder.splice(fromIndex, 1);
-      newOrder.splice(toIndex, 0, removed);
-
-      const newBuffer = await reorderPages(activeDoc.arrayBuffer, newOrder);
-      const thumbnails = await generateThumbnails(newBuffer.buffer as ArrayBuffer, 0.3);
-      const newPages = initializePages(activeDoc.pageCount);
-      newPages.forEach((page, i) => {
-        page.thumbnail = thumbnails[i];
-      });
+  // Drop the dragged pages at the indicated position
+  const handlePageDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    if (!activeDoc || !dragState || dragState.docId !== activeDoc.id || dropIndex === null) return;
+
+    const newOrder = computeMoveOrder(activeDoc.pageCount, dragState.indices, dropIndex);
+    if (newOrder.some((pageIndex, i) => pageIndex !== i)) {
+      applyOperation(activeDoc, { type: 'reorder', newOrder });
+
+      // Keep the moved pages selected at their new positions
+      const start = newOrder.indexOf(dragState.indices[0]);
+      setSelectedPages(new Set(dragState.indices.map((_, i) => `${activeDoc.id}-${start + i}`)));
+    }
+    handlePageDragEnd();
+  }, [activeDoc, dragState, dropIndex, applyOperation, handlePageDragEnd]);
+
+  // Copy the dragged pages to the end of another document, removing them from the source when moving
+  const handleDocumentDrop = useCallback(async (e: React.DragEvent, targetDocId: string) => {
+    e.preventDefault();
+    const drag = dragState;
+    handlePageDragEnd();
+
+    const source = documents.find(d => d.id === drag?.docId);
+    const target = documents.find(d => d.id === targetDocId);
+    if (!drag || !source || !target || source.id === target.id) return;
+
+    const copy = e.ctrlKey || e.altKey || e.metaKey;
+    if (!copy && drag.indices.length === source.pageCount) {
+      alert('無法移動所有頁面，請按住 Ctrl 改為複製');
+      return;
+    }
+
+    const options = beginTask(copy ? '複製頁面中...' : '移動頁面中...');
 
-      setDocuments(prev => prev.map(doc => {
-        if (doc.id !== activeDoc.id) return doc;
-        return {
-          ...doc,
-          arrayBuffer: newBuffer.buffer as ArrayBuffer,
-          pages: newPages,
-        };
+    try {
+      const exported = await runPDFTask({
+        type: 'export',
+        arrayBuffer: source.arrayBuffer,
+        operations: source.operations,
+      }, options);
+      const extracted = await runPDFTask({
+        type: 'extract',
+        arrayBuffer: exported.buffer as ArrayBuffer,
+        pageIndices: drag.indices,
+      }, options);
+
+      const insert: PageOperation = {
+        type: 'insert',
+        index: target.pageCount,
+        source: { id: crypto.randomUUID(), arrayBuffer: extracted.buffer as ArrayBuffer },
+        pageCount: drag.indices.length,
+      };
+      const label = `${copy ? '複製' : '移動'} ${drag.indices.length} 頁：${source.name} → ${target.name}`;
+      commitDocuments(label, prev => prev.map(d => {
+        if (d.id === target.id) return applyOperationToDocument(d, insert);
+        if (d.id === source.id && !copy) return applyOperationToDocument(d, { type: 'delete', pageIndices: drag.indices });
+        return d;
       }));
+
+      if (!copy) {
+        setSelectedPages(new Set());
+      }
     } catch (error) {
-      console.error('Failed to move page:', error);
-      alert('移動頁面失敗');
+      if (isAbortError(error)) return;
+      console.error('Failed to transfer pages:', error);
+      alert(copy ? '複製頁面失敗' : '移動頁面失敗');
     } finally {
-      setLoading(false);
+      endTask();
     }
-  }, [activeDoc]);
+  }, [dragState, documents, handlePageDragEnd, beginTask, endTask, commitDocuments]);
+
+  // Load the document's form fields and the page's widgets for the overlay
+  const loadFormOverlay = useCallback(async (doc: PDFDocType, pageIndex: number) => {
+    const { values, flattened } = getFormState(doc.operations);
+    const fields = flattened ? [] : await getFormFields(doc.arrayBuffer);
+    const widgets = fields.length > 0 ? await getFormWidgets(doc.arrayBuffer, doc.pages[pageIndex]) : [];
+
+    setFormFields(fields);
+    setFormValues(Object.fromEntries(fields.map(field => [field.name, values[field.name] ?? field.value])));
+    // Pages inserted from other files may carry widgets of fields this document lacks
+    setFormWidgets(widgets.filter(widget => fields.some(field => field.name === widget.fieldName)));
+  }, []);
 
-  // Open page editor
-  const openPageEditor = useCallback(async (pageIndex: number) => {
-    if (!activeDoc) return;
+  // Open page editor; `doc` defaults to the active document
+  const openPageEditor = useCallback(async (pageIndex: number, doc: PDFDocType | undefined = activeDoc) => {
+    if (!doc) return;
 
     setActivePageIndex(pageIndex);
     setMode('view');
-    setCurrentAnnotations(activeDoc.pages[pageIndex].textAnnotations || []);
+    setCurrentAnnotations(doc.pages[pageIndex].textAnnotations || []);
+    setCurrentMarkups(doc.pages[pageIndex].markups ?? []);
+    setCurrentShapes(doc.pages[pageIndex].drawing?.shapes ?? []);
+    setCurrentSignatures(doc.pages[pageIndex].signatures ?? []);
+    setRedactionMarks([]);
 
     try {
-      const pdfDoc = await loadPDFDocument(activeDoc.arrayBuffer);
-      const preview = await renderPageToCanvas(pdfDoc, pageIndex + 1, 1.5);
+      // Text is drawn as an editable overlay, so the preview leaves it out
+      const preview = await renderEditedPage(doc.arrayBuffer, doc.pages[pageIndex], 1.5, false);
       setPagePreview(preview);
-
-      const page = await pdfDoc.getPage(pageIndex + 1);
-      const viewport = page.getViewport({ scale: 1.5 });
-      setPageSize({ width: viewport.width, height: viewport.height });
+      await loadFormOverlay(doc, pageIndex);
     } catch (error) {
       console.error('Failed to load page preview:', error);
     }
-  }, [activeDoc]);
+  }, [activeDoc, loadFormOverlay]);
+
+  // Open a search result, switching documents if needed
+  const openSearchHit = useCallback((hit: SearchHit) => {
+    const doc = documents.find(d => d.id === hit.docId);
+    if (!doc) return;
+    setActiveDocId(doc.id);
+    openPageEditor(hit.pageIndex, doc);
+  }, [documents, openPageEditor]);
+
+  // Select every page with a match, ready for extract or delete
+  const selectSearchHitPages = useCallback(() => {
+    setSelectedPages(new Set(searchHits.map(hit => `${hit.docId}-${hit.pageIndex}`)));
+  }, [searchHits]);
 
   // Close page editor
   const closePageEditor = useCallback(() => {
     setActivePageIndex(null);
     setMode('view');
     setCurrentAnnotations([]);
+    setCurrentMarkups([]);
+    setCurrentShapes([]);
+    setCurrentSignatures([]);
     setPagePreview(null);
+    setPreviewSize(null);
     setCropBox(null);
+    setRedactionMarks([]);
+    setFormFields([]);
+    setFormWidgets([]);
   }, []);
 
+  // Swap in a document list taken from the undo/redo history
+  const restoreDocuments = useCallback(async (next: PDFDocType[]) => {
+    documentsRef.current = next;
+    setDocuments(next);
+    setSelectedPages(new Set());
+
+    const doc = next.find(d => d.id === activeDocId);
+    if (!doc) {
+      setActiveDocId(next[0]?.id ?? null);
+      closePageEditor();
+      return;
+    }
+    if (activePageIndex === null) return;
+    if (activePageIndex >= doc.pageCount) {
+      closePageEditor();
+      return;
+    }
+
+    const page = doc.pages[activePageIndex];
+    setCurrentAnnotations(page.textAnnotations);
+    setCurrentMarkups(page.markups ?? []);
+    setCurrentShapes(page.drawing?.shapes ?? []);
+    setCurrentSignatures(page.signatures ?? []);
+    setCropBox(null);
+    setRedactionMarks([]);
+
+    try {
+      const preview = await renderEditedPage(doc.arrayBuffer, page, 1.5, false);
+      setPagePreview(preview);
+      await loadFormOverlay(doc, activePageIndex);
+    } catch (error) {
+      console.error('Failed to load page preview:', error);
+    }
+  }, [activeDocId, activePageIndex, closePageEditor, loadFormOverlay]);
+
+  // The editor state saved alongside the documents
+  const buildSession = useCallback((): WorkspaceSession => ({
+    documentIds: documents.map(doc => doc.id),
+    activeDocId,
+    activePageIndex,
+    selectedPages: Array.from(selectedPages),
+    pending: activePageIndex === null ? null : {
+      annotations: currentAnnotations,
+      markups: currentMarkups,
+      shapes: currentShapes,
+      signatures: currentSignatures,
+    },
+    savedAt: new Date().toISOString(),
+  }), [documents, activeDocId, activePageIndex, selectedPages, currentAnnotations, currentMarkups, currentShapes, currentSignatures]);
+
+  // Replace the workspace with a saved one; its undo history starts fresh
+  const restoreWorkspace = useCallback(async ({ documents: restored, session }: Workspace) => {
+    closePageEditor();
+    documentsRef.current = restored;
+    setDocuments(restored);
+    setHistory(createHistory());
+    setSelectedPages(new Set(session.selectedPages));
+
+    const doc = restored.find(d => d.id === session.activeDocId) ?? restored[0];
+    setActiveDocId(doc?.id ?? null);
+    if (!doc || session.activePageIndex === null || session.activePageIndex >= doc.pageCount) return;
+
+    await openPageEditor(session.activePageIndex, doc);
+    // Unsaved edits replace the ones the editor just read from the page
+    if (session.pending) {
+      setCurrentAnnotations(session.pending.annotations);
+      setCurrentMarkups(session.pending.markups);
+      setCurrentShapes(session.pending.shapes);
+      setCurrentSignatures(session.pending.signatures);
+    }
+  }, [closePageEditor, openPageEditor]);
+
+  const handleExportWorkspace = useCallback(async () => {
+    if (documents.length === 0) return;
+    beginTask('匯出工作區中...');
+
+    try {
+      const blob = await exportWorkspaceArchive({ documents, session: buildSession() });
+      saveAs(blob, 'pdf_workspace.zip');
+    } catch (error) {
+      console.error('Failed to export workspace:', error);
+      alert('匯出工作區失敗');
+    } finally {
+      endTask();
+    }
+  }, [documents, buildSession, beginTask, endTask]);
+
+  const handleImportWorkspace = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (documents.length > 0 && !confirm('匯入會取代目前的工作區，是否繼續？')) return;
+
+    beginTask('匯入工作區中...');
+    try {
+      await restoreWorkspace(await importWorkspaceArchive(file));
+    } catch (error) {
+      console.error('Failed to import workspace:', error);
+      alert('匯入工作區失敗，請確認檔案是由本工具匯出的工作區');
+    } finally {
+      endTask();
+    }
+  }, [documents, restoreWorkspace, beginTask, endTask]);
+
+  const handleUndo = useCallback(() => {
+    const result = undoHistory(history, documentsRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreDocuments(result.snapshot);
+  }, [history, restoreDocuments]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoHistory(history, documentsRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreDocuments(result.snapshot);
+  }, [history, restoreDocuments]);
+
+  // Jump to the state after the given number of history steps
+  const jumpToHistoryStep = useCallback((stepCount: number) => {
+    if (stepCount === history.past.length) return;
+    const result = jumpHistory(history, documentsRef.current, stepCount);
+    setHistory(result.history);
+    restoreDocuments(result.snapshot);
+  }, [history, restoreDocuments]);
+
   // Add text annotation
   const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     if (mode !== 'text' || !canvasRef.current) return;
 
     const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
 
     const newAnnotation: TextAnnotation = {
       id: crypto.randomUUID(),
@@ -379,9 +1008,37 @@ export function App() {
     setCurrentAnnotations(prev => [...prev, newAnnotation]);
   }, [mode, textSettings]);
 
-  // Crop handlers
+  // Create a markup from a drag (snapped to text) or, for notes, a click
+  const addMarkup = useCallback((area: CropBox) => {
+    let rects: CropBox[];
+    let text = '';
+    if (markupTool === 'note') {
+      rects = [{ x: area.x, y: area.y, width: 0, height: 0 }];
+    } else {
+      const snapped = snapToText(pageTextBoxes, area);
+      if (snapped.length === 0) {
+        alert('選取範圍內沒有文字');
+        return;
+      }
+      rects = snapped.map(({ x, y, width, height }) => ({ x, y, width, height }));
+      text = snapped.map(box => box.text).join(' ');
+    }
+
+    setCurrentMarkups(prev => [...prev, {
+      id: crypto.randomUUID(),
+      type: markupTool,
+      rects,
+      color: markupColor,
+      author: markupAuthor.trim(),
+      date: new Date().toISOString(),
+      comment: '',
+      text,
+    }]);
+  }, [markupTool, markupColor, markupAuthor, pageTextBoxes]);
+
+  // Crop handlers, also used to draw redaction marks and markups
   const handleCropMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (mode !== 'crop' || !canvasRef.current) return;
+    if ((mode !== 'crop' && mode !== 'redact' && mode !== 'markup') || !canvasRef.current) return;
 
     const rect = canvasRef.current.getBoundingClientRect();
     setCropStart({
@@ -407,154 +1064,633 @@ export function App() {
   }, [isCropping, cropStart]);
 
   const handleCropMouseUp = useCallback(() => {
+    if (isCropping && mode === 'redact' && cropBox && canvasRef.current) {
+      if (cropBox.width >= 3 && cropBox.height >= 3) {
+        const { width, height } = canvasRef.current;
+        setRedactionMarks(prev => [...prev, {
+          id: crypto.randomUUID(),
+          x: cropBox.x / width,
+          y: cropBox.y / height,
+          width: cropBox.width / width,
+          height: cropBox.height / height,
+        }]);
+      }
+      setCropBox(null);
+    }
+    if (isCropping && mode === 'markup' && cropStart && canvasRef.current) {
+      const { width, height } = canvasRef.current;
+      // A note needs only a click; text markup needs a drag
+      if (markupTool === 'note') {
+        addMarkup({ x: cropStart.x / width, y: cropStart.y / height, width: 0, height: 0 });
+      } else if (cropBox && cropBox.width >= 3) {
+        addMarkup({
+          x: cropBox.x / width,
+          y: cropBox.y / height,
+          width: cropBox.width / width,
+          height: Math.max(cropBox.height, 1) / height,
+        });
+      }
+      setCropBox(null);
+    }
     setIsCropping(false);
     setCropStart(null);
-  }, []);
+  }, [isCropping, mode, cropBox, cropStart, markupTool, addMarkup]);
 
   // Apply crop
   const applyCrop = useCallback(async () => {
-    if (!activeDoc || activePageIndex === null || !cropBox) return;
+    if (!activeDoc || activePageIndex === null || !cropBox || !canvasRef.current) return;
 
-    setLoading(true);
-    setLoadingMessage('裁剪頁面中...');
+    const { width, height } = canvasRef.current;
 
     try {
-      const newBuffer = await cropPage(
-        activeDoc.arrayBuffer,
-        activePageIndex,
-        cropBox,
-        pageSize.width,
-        pageSize.height
-      );
-
-      const thumbnails = await generateThumbnails(newBuffer.buffer as ArrayBuffer, 0.3);
-
-      setDocuments(prev => prev.map(doc => {
-        if (doc.id !== activeDoc.id) return doc;
-        return {
-          ...doc,
-          arrayBuffer: newBuffer.buffer as ArrayBuffer,
-          pages: doc.pages.map((page, i) => ({
-            ...page,
-            thumbnail: thumbnails[i],
-          })),
-        };
-      }));
+      const pages = applyOperation(activeDoc, {
+        type: 'crop',
+        pageIndex: activePageIndex,
+        cropBox: {
+          x: cropBox.x / width,
+          y: cropBox.y / height,
+          width: cropBox.width / width,
+          height: cropBox.height / height,
+        },
+      });
 
       // Reload preview
-      const pdfDoc = await loadPDFDocument(newBuffer.buffer as ArrayBuffer);
-      const preview = await renderPageToCanvas(pdfDoc, activePageIndex + 1, 1.5);
+      const preview = await renderEditedPage(activeDoc.arrayBuffer, pages[activePageIndex], 1.5, false);
       setPagePreview(preview);
       setCropBox(null);
+      if (formWidgets.length > 0) {
+        setFormWidgets(await getFormWidgets(activeDoc.arrayBuffer, pages[activePageIndex]));
+      }
     } catch (error) {
       console.error('Failed to crop page:', error);
       alert('裁剪頁面失敗');
-    } finally {
-      setLoading(false);
     }
-  }, [activeDoc, activePageIndex, cropBox, pageSize]);
+  }, [activeDoc, activePageIndex, cropBox, formWidgets, applyOperation]);
 
-  // Save text annotations
-  const saveAnnotations = useCallback(async () => {
-    if (!activeDoc || activePageIndex === null || currentAnnotations.length === 0) return;
+  // Mark every match of the search text on the current page
+  const markRedactionMatches = useCallback(async () => {
+    if (!activeDoc || activePageIndex === null || !redactionQuery.trim()) return;
 
-    setLoading(true);
-    setLoadingMessage('保存文字中...');
+    try {
+      const matches = await findTextMatches(activeDoc.arrayBuffer, activeDoc.pages[activePageIndex], redactionQuery);
+      if (matches.length === 0) {
+        alert(`此頁找不到「${redactionQuery.trim()}」`);
+        return;
+      }
+      setRedactionMarks(prev => [...prev, ...matches.map(match => ({ ...match, id: crypto.randomUUID() }))]);
+    } catch (error) {
+      console.error('Failed to search page text:', error);
+      alert('搜尋頁面文字失敗');
+    }
+  }, [activeDoc, activePageIndex, redactionQuery]);
+
+  // Rasterize the page with the marks burned in, verify the export, then rebase the document onto it
+  const applyRedactions = useCallback(async () => {
+    if (!activeDoc || activePageIndex === null || redactionMarks.length === 0) return;
+    if (!confirm(`將以 ${redactionDpi} DPI 點陣化此頁並永久塗黑 ${redactionMarks.length} 個區域，頁面文字將無法再選取；此文件的其他編輯也會一併寫入，之後無法再個別修改。確定繼續？`)) return;
+
+    const options = beginTask('套用塗黑中...');
 
     try {
-      const newBuffer = await addTextToPage(
-        activeDoc.arrayBuffer,
-        activePageIndex,
-        currentAnnotations
-      );
-
-      const thumbnails = await generateThumbnails(newBuffer.buffer as ArrayBuffer, 0.3);
-
-      setDocuments(prev => prev.map(doc => {
-        if (doc.id !== activeDoc.id) return doc;
-        return {
-          ...doc,
-          arrayBuffer: newBuffer.buffer as ArrayBuffer,
-          pages: doc.pages.map((page, i) => ({
-            ...page,
-            thumbnail: thumbnails[i],
-            textAnnotations: i === activePageIndex ? [] : page.textAnnotations,
-          })),
-        };
-      }));
+      // Burn in the text, markup and drawing as currently edited, including unsaved overlays
+      const current = activeDoc.pages[activePageIndex];
+      const page = {
+        ...current,
+        textAnnotations: currentAnnotations,
+        markups: currentMarkups,
+        drawing: { shapes: currentShapes, flatten: current.drawing?.flatten ?? false },
+        signatures: currentSignatures,
+      };
+      const bytes = await rasterizeRedactedPage(activeDoc.arrayBuffer, page, redactionMarks, redactionDpi);
+      const operation: PageOperation = {
+        type: 'replace',
+        pageIndex: activePageIndex,
+        source: { id: crypto.randomUUID(), arrayBuffer: bytes.buffer as ArrayBuffer },
+      };
+
+      // Check the document as it will be kept, where the original page's fields could survive.
+      // Metadata stays, so the export setting still decides whether it is stripped later.
+      updateTaskStep('驗證塗黑結果...');
+      const pageFields = (await getFormWidgets(activeDoc.arrayBuffer, current)).map(widget => widget.fieldName);
+      const exported = await runPDFTask({
+        type: 'export',
+        arrayBuffer: activeDoc.arrayBuffer,
+        operations: [...activeDoc.operations, operation],
+      }, options);
+      const leaks = await findRedactionLeaks(exported, activePageIndex, redactionMarks, pageFields);
+      if (leaks.text.length > 0 || leaks.fields.length > 0) {
+        console.error('Content left readable after redaction:', leaks);
+        const problems = [
+          leaks.text.length > 0 ? `塗黑區域內仍有 ${leaks.text.length} 段文字` : '',
+          leaks.fields.length > 0 ? `仍可讀取表單欄位 ${leaks.fields.join('、')}` : '',
+        ].filter(Boolean);
+        alert(`驗證失敗：${problems.join('；')}，未套用變更`);
+        return;
+      }
 
-      // Reload preview
-      const pdfDoc = await loadPDFDocument(newBuffer.buffer as ArrayBuffer);
-      const preview = await renderPageToCanvas(pdfDoc, activePageIndex + 1, 1.5);
-      setPagePreview(preview);
+      // Saved workspaces keep the document's bytes, so the unredacted original must not stay behind them
+      const pages = initializePages(activeDoc.pageCount);
+      const rebased: PDFDocType = {
+        ...activeDoc,
+        arrayBuffer: exported.buffer as ArrayBuffer,
+        operations: [],
+        metadata: getDocumentMetadata(activeDoc),
+        pages,
+      };
+      commitDocuments(`${activeDoc.name}：${describeOperation(operation)}`, prev => prev.map(d => d.id === activeDoc.id ? rebased : d));
+
+      setRedactionMarks([]);
       setCurrentAnnotations([]);
+      setCurrentMarkups([]);
+      setCurrentShapes([]);
+      setCurrentSignatures([]);
+      setFormWidgets([]);
+      const preview = await renderEditedPage(rebased.arrayBuffer, pages[activePageIndex], 1.5, false);
+      setPagePreview(preview);
+      alert('塗黑完成，已驗證匯出結果的塗黑區域內沒有可擷取的文字或表單資料');
     } catch (error) {
-      console.error('Failed to save annotations:', error);
-      alert('保存文字失敗');
+      if (isAbortError(error)) return;
+      console.error('Failed to apply redactions:', error);
+      alert('套用塗黑失敗');
     } finally {
-      setLoading(false);
+      endTask();
+    }
+  }, [activeDoc, activePageIndex, redactionMarks, redactionDpi, currentAnnotations, currentMarkups, currentShapes, currentSignatures, beginTask, updateTaskStep, endTask, commitDocuments]);
+
+  // Record the fields whose value differs from the current document state
+  const saveFormValues = useCallback((flatten: boolean) => {
+    if (!activeDoc) return;
+    if (flatten && !confirm('平面化後欄位將無法再編輯，確定繼續？')) return;
+
+    const { values } = getFormState(activeDoc.operations);
+    const changed = Object.fromEntries(formFields
+      .filter(field => formValues[field.name] !== (values[field.name] ?? field.value))
+      .map(field => [field.name, formValues[field.name]]));
+    if (!flatten && Object.keys(changed).length === 0) return;
+
+    applyOperation(activeDoc, { type: 'form', values: changed, flatten });
+    if (flatten) {
+      setFormFields([]);
+      setFormWidgets([]);
+      setMode('view');
+    }
+  }, [activeDoc, formFields, formValues, applyOperation]);
+
+  const exportFormValues = useCallback(() => {
+    if (!activeDoc) return;
+    const blob = new Blob([formValuesToJSON(formFields, formValues)], { type: 'application/json' });
+    saveAs(blob, `${activeDoc.name}_form.json`);
+  }, [activeDoc, formFields, formValues]);
+
+  // Fill the form from an exported JSON file and record it as one step
+  const importFormValues = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !activeDoc) return;
+
+    try {
+      const { values, rejected } = parseFormValues(await file.text(), formFields);
+      if (Object.keys(values).length > 0) {
+        applyOperation(activeDoc, { type: 'form', values, flatten: false });
+        setFormValues(prev => ({ ...prev, ...values }));
+      }
+      if (rejected.length > 0) {
+        alert(`已匯入 ${Object.keys(values).length} 個欄位，略過 ${rejected.length} 個不符的欄位：\n${rejected.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Failed to import form values:', error);
+      alert('匯入欄位資料失敗，請確認為有效的 JSON 檔案');
     }
-  }, [activeDoc, activePageIndex, currentAnnotations]);
+  }, [activeDoc, formFields, applyOperation]);
+
+  // Save text annotations
+  const saveAnnotations = useCallback(() => {
+    if (!activeDoc || activePageIndex === null) return;
+
+    applyOperation(activeDoc, {
+      type: 'text',
+      pageIndex: activePageIndex,
+      annotations: currentAnnotations,
+    });
+  }, [activeDoc, activePageIndex, currentAnnotations, applyOperation]);
+
+  const saveMarkups = useCallback(() => {
+    if (!activeDoc || activePageIndex === null) return;
+
+    applyOperation(activeDoc, {
+      type: 'markup',
+      pageIndex: activePageIndex,
+      markups: currentMarkups,
+    });
+  }, [activeDoc, activePageIndex, currentMarkups, applyOperation]);
+
+  // Save the drawing as editable annotations, or flattened into the page content
+  const saveDrawing = useCallback((flatten: boolean) => {
+    if (!activeDoc || activePageIndex === null) return;
+
+    applyOperation(activeDoc, {
+      type: 'draw',
+      pageIndex: activePageIndex,
+      drawing: { shapes: currentShapes, flatten },
+    });
+  }, [activeDoc, activePageIndex, currentShapes, applyOperation]);
+
+  const handleCreateSignature = useCallback(async (signature: SavedSignature) => {
+    try {
+      await saveSignature(signature);
+      setSavedSignatures(prev => [...prev, signature]);
+      setShowSignatureDialog(false);
+    } catch (error) {
+      console.error('Failed to store signature:', error);
+      alert('儲存簽名失敗');
+    }
+  }, []);
+
+  const handleDeleteSignature = useCallback(async (id: string) => {
+    try {
+      await deleteSignature(id);
+      setSavedSignatures(prev => prev.filter(signature => signature.id !== id));
+    } catch (error) {
+      console.error('Failed to delete signature:', error);
+      alert('刪除簽名失敗');
+    }
+  }, []);
+
+  // Place a saved signature in the middle of the page, with the chosen name/date stamp
+  const placeSignature = useCallback((signature: SavedSignature) => {
+    if (!previewSize) return;
+
+    const name = signerName.trim();
+    if ((signatureStamp === 'name' || signatureStamp === 'both') && !name) {
+      alert('請輸入簽署人姓名');
+      return;
+    }
+    const date = new Date().toLocaleDateString('zh-TW');
+    const stamp = { none: '', date, name, both: `${name} ${date}` }[signatureStamp];
+
+    // A quarter of the page wide, unless that makes it taller than a fifth of the page
+    const aspect = signature.image.height / signature.image.width;
+    const widthPx = Math.min(previewSize.width / 4, previewSize.height / 5 / aspect);
+    // Offset each new signature so they don't land on top of each other
+    const offset = (currentSignatures.length % 5) * 0.04;
+    setCurrentSignatures(prev => [...prev, {
+      id: crypto.randomUUID(),
+      signatureId: signature.id,
+      image: signature.image,
+      x: 0.5 + offset,
+      y: 0.5 + offset,
+      width: widthPx / 1.5,
+      height: widthPx * aspect / 1.5,
+      rotation: 0,
+      stamp,
+    }]);
+  }, [previewSize, signerName, signatureStamp, currentSignatures.length]);
+
+  const saveSignatures = useCallback(() => {
+    if (!activeDoc || activePageIndex === null) return;
+
+    applyOperation(activeDoc, {
+      type: 'sign',
+      pageIndex: activePageIndex,
+      signatures: currentSignatures,
+    });
+  }, [activeDoc, activePageIndex, currentSignatures, applyOperation]);
 
   // Download current document
-  const downloadDocument = useCallback(() => {
+  const downloadDocument = useCallback(async () => {
     if (!activeDoc) return;
-    const blob = new Blob([activeDoc.arrayBuffer], { type: 'application/pdf' });
-    saveAs(blob, `${activeDoc.name}_edited.pdf`);
-  }, [activeDoc]);
+
+    const options = beginTask('產生PDF中...');
+
+    try {
+      const exported = await runPDFTask({
+        type: 'export',
+        arrayBuffer: activeDoc.arrayBuffer,
+        operations: activeDoc.operations,
+        stripMetadata,
+      }, options);
+      if (exportProtection) updateTaskStep('加密PDF中...');
+      const protectedBuffer = await protectOutput(exported, options);
+      const blob = new Blob([new Uint8Array(protectedBuffer)], { type: 'application/pdf' });
+      saveAs(blob, `${activeDoc.name}_edited.pdf`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to export PDF:', error);
+      alert('產生PDF失敗');
+    } finally {
+      endTask();
+    }
+  }, [activeDoc, stripMetadata, exportProtection, protectOutput, beginTask, updateTaskStep, endTask]);
+
+  const handleApplyWatermark = useCallback((watermark: Watermark, pageIndices: number[]) => {
+    if (!activeDoc) return;
+    setShowWatermarkDialog(false);
+    applyOperation(activeDoc, { type: 'watermark', pageIndices, watermark });
+  }, [activeDoc, applyOperation]);
+
+  // Stamp headers/footers on the active document, or on every document so Bates numbers run on
+  const handleApplyHeaderFooter = useCallback((settings: HeaderFooterSettings) => {
+    if (!activeDoc) return;
+    setShowHeaderFooterDialog(false);
+
+    const targets = settings.scope === 'all' ? documents : [activeDoc];
+    const operations = buildStampOperations(targets, settings);
+    const label = settings.scope === 'all' ? `所有文件：頁首頁尾` : `${activeDoc.name}：頁首頁尾`;
+    commitDocuments(label, prev => prev.map(doc => {
+      const operation = operations.get(doc.id);
+      return operation ? applyOperationToDocument(doc, operation) : doc;
+    }));
+  }, [activeDoc, documents, commitDocuments]);
+
+  const handleSaveProperties = useCallback((metadata: DocumentMetadata) => {
+    if (!activeDoc) return;
+    setShowPropertiesDialog(false);
+    applyOperation(activeDoc, { type: 'metadata', metadata });
+  }, [activeDoc, applyOperation]);
+
+  const handleOutlineChange = useCallback((items: OutlineItem[]) => {
+    if (!activeDoc) return;
+    applyOperation(activeDoc, { type: 'outline', items });
+  }, [activeDoc, applyOperation]);
+
+  // Rasterize pages of the active document into a ZIP of images
+  const handleExportImages = useCallback(async (settings: ImageExportSettings) => {
+    if (!activeDoc) return;
+    setShowImageExport(false);
+
+    const options = beginTask('套用編輯中...');
+
+    try {
+      const exported = await runPDFTask({
+        type: 'export',
+        arrayBuffer: activeDoc.arrayBuffer,
+        operations: activeDoc.operations,
+      }, options);
+      const pageIndices = settings.scope === 'selected'
+        ? getSelectedIndices(activeDoc)
+        : activeDoc.pages.map((_, i) => i);
+
+      updateTaskStep('轉換圖片中...');
+      const pdfDoc = await loadPDFDocument(exported.buffer as ArrayBuffer);
+      let images: ExportedImage[];
+      try {
+        images = await exportPagesAsImages(pdfDoc, pageIndices, settings, activeDoc.name, options);
+      } finally {
+        await pdfDoc.destroy();
+      }
+
+      updateTaskStep('打包下載中...');
+      const zip = new JSZip();
+      images.forEach(image => zip.file(image.fileName, image.blob));
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      saveAs(zipBlob, `${activeDoc.name}_images.zip`);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Failed to export images:', error);
+      alert('匯出圖片失敗');
+    } finally {
+      endTask();
+    }
+  }, [activeDoc, getSelectedIndices, beginTask, updateTaskStep, endTask]);
 
   // Download all as ZIP
   const downloadAllAsZip = useCallback(async () => {
     if (documents.length === 0) return;
 
-    setLoading(true);
-    setLoadingMessage('打包下載中...');
+    const options = beginTask('打包下載中...');
 
     try {
       const zip = new JSZip();
-      documents.forEach((doc, i) => {
+      for (const [i, doc] of documents.entries()) {
+        updateTaskStep(`套用編輯：${doc.name}`);
         const paddedNum = String(i + 1).padStart(3, '0');
-        zip.file(`${doc.name}_${paddedNum}.pdf`, doc.arrayBuffer);
-      });
+        const exported = await runPDFTask({
+          type: 'export',
+          arrayBuffer: doc.arrayBuffer,
+          operations: doc.operations,
+          stripMetadata,
+        }, options);
+        zip.file(`${doc.name}_${paddedNum}.pdf`, await protectOutput(exported, options));
+      }
 
+      updateTaskStep('打包下載中...');
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       saveAs(zipBlob, 'pdf_documents.zip');
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to create ZIP:', error);
       alert('打包下載失敗');
     } finally {
-      setLoading(false);
+      endTask();
     }
-  }, [documents]);
+  }, [documents, stripMetadata, protectOutput, beginTask, updateTaskStep, endTask]);
 
   // Delete document
   const deleteDocument = useCallback((docId: string) => {
-    setDocuments(prev => prev.filter(d => d.id !== docId));
+    const doc = documents.find(d => d.id === docId);
+    if (doc) {
+      releaseCachedPDFDocument(doc.arrayBuffer);
+      clearDocumentThumbnails(doc.id);
+    }
+    commitDocuments(`刪除文件 ${doc?.name ?? ''}`, prev => prev.filter(d => d.id !== docId));
     if (activeDocId === docId) {
       setActiveDocId(documents.find(d => d.id !== docId)?.id || null);
     }
     setSelectedPages(prev => {
       const newSet = new Set<string>();
       prev.forEach(key => {
-        if (!key.startsWith(docId)) {
+        if (!key.startsWith(`${docId}-`)) {
           newSet.add(key);
         }
       });
       return newSet;
     });
-  }, [activeDocId, documents]);
+  }, [activeDocId, documents, commitDocuments]);
+
+  // Update annotation
+  const updateAnnotation = useCallback((id: string, updates: Partial<TextAnnotation>) => {
+    setCurrentAnnotations(prev => prev.map(a => 
+      a.id === id ? { ...a, ...updates } : a
+    ));
+  }, []);
+
+  // Delete annotation
+  const deleteAnnotation = useCallback((id: string) => {
+    setCurrentAnnotations(prev => prev.filter(a => a.id !== id));
+  }, []);
+
+  // Register an uploaded TTF/OTF font and select it
+  const handleFontUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const option = await registerFontFile(file);
+      setFontOptions(getFontOptions());
+      setTextSettings(prev => ({ ...prev, fontFamily: option.family }));
+    } catch (error) {
+      console.error('Failed to load font:', error);
+      alert('載入字型失敗，請確認為 TTF 或 OTF 檔案');
+    } finally {
+      if (fontInputRef.current) {
+        fontInputRef.current.value = '';
+      }
+    }
+  }, []);
+
+  // Offer to restore the workspace left by the last session
+  useEffect(() => {
+    if (restorePromptedRef.current) return;
+    restorePromptedRef.current = true;
+
+    (async () => {
+      try {
+        const workspace = await loadWorkspace();
+        if (!workspace) return;
+        const savedAt = new Date(workspace.session.savedAt).toLocaleString();
+        if (confirm(`要還原上次的工作階段嗎？\n${workspace.documents.length} 個文件，儲存於 ${savedAt}`)) {
+          markWorkspaceSaved(workspace.documents);
+          await restoreWorkspace(workspace);
+        } else {
+          await clearWorkspace();
+        }
+      } catch (error) {
+        console.error('Failed to restore workspace:', error);
+      } finally {
+        setWorkspaceReady(true);
+      }
+    })();
+  }, [restoreWorkspace]);
+
+  // Autosave the workspace once edits settle
+  useEffect(() => {
+    if (!workspaceReady) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveWorkspace({ documents, session: buildSession() });
+        setWorkspaceSaveFailed(false);
+        if (documents.length > 0 && !persistRequestedRef.current) {
+          persistRequestedRef.current = true;
+          await requestPersistentStorage();
+        }
+      } catch (error) {
+        console.error('Failed to save workspace:', error);
+        setWorkspaceSaveFailed(true);
+      }
+      try {
+        setStorageEstimate(await getStorageEstimate());
+      } catch (error) {
+        console.error('Failed to read storage usage:', error);
+      }
+    }, WORKSPACE_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [workspaceReady, documents, buildSession]);
+
+  // Signatures saved in earlier sessions
+  useEffect(() => {
+    listSignatures()
+      .then(setSavedSignatures)
+      .catch(error => console.error('Failed to load saved signatures:', error));
+  }, []);
+
+  // Read the bookmarks of the active document's original bytes
+  const activeBuffer = activeDoc?.arrayBuffer;
+  useEffect(() => {
+    if (!activeBuffer) return;
+    let cancelled = false;
+
+    getOriginalOutline(activeBuffer)
+      .then(items => {
+        if (!cancelled) setOriginalOutline({ buffer: activeBuffer, items });
+      })
+      .catch(error => {
+        console.error('Failed to read outline:', error);
+        if (!cancelled) setOriginalOutline({ buffer: activeBuffer, items: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeBuffer]);
+
+  // Re-run the search whenever documents change, so page positions stay current
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchHits([]);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+
+    searchDocuments(documents, searchQuery)
+      .then(hits => {
+        if (!cancelled) setSearchHits(hits);
+      })
+      .catch(error => {
+        console.error('Failed to search documents:', error);
+        if (!cancelled) alert('搜尋失敗');
+      })
+      .finally(() => {
+        if (!cancelled) setSearching(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documents, searchQuery]);
+
+  // Highlight the search matches on the page being edited
+  useEffect(() => {
+    if (!activeDoc || activePageIndex === null || !searchQuery.trim()) {
+      setSearchHighlights([]);
+      return;
+    }
+    const page = activeDoc.pages[activePageIndex];
+    if (!page) return;
+    let cancelled = false;
+
+    findTextMatches(activeDoc.arrayBuffer, page, searchQuery)
+      .then(matches => {
+        if (!cancelled) setSearchHighlights(matches);
+      })
+      .catch(error => console.error('Failed to highlight matches:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDoc, activePageIndex, searchQuery]);
+
+  // Text geometry for snapping markup, and the annotations already on the page
+  useEffect(() => {
+    if (mode !== 'markup' || !activeDoc || activePageIndex === null) {
+      setPageTextBoxes([]);
+      setExistingAnnotations([]);
+      return;
+    }
+    const page = activeDoc.pages[activePageIndex];
+    if (!page) return;
+    let cancelled = false;
+
+    Promise.all([
+      getPageTextBoxes(activeDoc.arrayBuffer, page),
+      getPageAnnotations(activeDoc.arrayBuffer, page),
+    ])
+      .then(([boxes, annotations]) => {
+        if (cancelled) return;
+        setPageTextBoxes(boxes);
+        setExistingAnnotations(annotations);
+      })
+      .catch(error => console.error('Failed to read page text:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, activeDoc, activePageIndex]);
 
-  // Update annotation
-  const updateAnnotation = useCallback((id: string, updates: Partial<TextAnnotation>) => {
-    setCurrentAnnotations(prev => prev.map(a => 
-      a.id === id ? { ...a, ...updates } : a
-    ));
-  }, []);
+  // Load the bundled CJK font so the canvas preview matches the exported text
+  useEffect(() => {
+    if (mode !== 'text' || fontsLoaded) return;
 
-  // Delete annotation
-  const deleteAnnotation = useCallback((id: string) => {
-    setCurrentAnnotations(prev => prev.filter(a => a.id !== id));
-  }, []);
+    loadBundledFontFace()
+      .then(() => setFontsLoaded(true))
+      .catch(error => console.error('Failed to load bundled font:', error));
+  }, [mode, fontsLoaded]);
 
   // Draw canvas
   useEffect(() => {
@@ -568,26 +1704,68 @@ export function App() {
       canvas.width = img.width;
       canvas.height = img.height;
       ctx.drawImage(img, 0, 0);
+      setPreviewSize(prev => prev?.width === img.width && prev.height === img.height ? prev : { width: img.width, height: img.height });
+
+      // Highlight search matches
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.4)';
+      searchHighlights.forEach(box => {
+        ctx.fillRect(box.x * canvas.width, box.y * canvas.height, box.width * canvas.width, box.height * canvas.height);
+      });
 
       // Draw annotations
       currentAnnotations.forEach(annotation => {
-        ctx.font = `${annotation.fontSize}px ${annotation.fontFamily}`;
+        const fontSize = annotation.fontSize * 1.5;
+        ctx.save();
+        ctx.translate(annotation.x * canvas.width, annotation.y * canvas.height);
+        // The canvas turns clockwise, the annotation counter-clockwise
+        ctx.rotate(-annotation.rotation * Math.PI / 180);
+        ctx.font = `${fontSize}px ${getFontOption(annotation.fontFamily).cssFamily}`;
         ctx.fillStyle = annotation.color;
-        ctx.fillText(annotation.text, annotation.x, annotation.y + annotation.fontSize);
-        
+        ctx.fillText(annotation.text, 0, fontSize);
+
         // Draw selection box
         ctx.strokeStyle = '#3b82f6';
         ctx.lineWidth = 1;
         ctx.setLineDash([5, 5]);
-        ctx.strokeRect(
-          annotation.x - 2,
-          annotation.y,
-          ctx.measureText(annotation.text).width + 4,
-          annotation.fontSize + 4
-        );
-        ctx.setLineDash([]);
+        ctx.strokeRect(-2, 0, ctx.measureText(annotation.text).width + 4, fontSize + 4);
+        ctx.restore();
+      });
+
+      // Draw markups, which the preview leaves out like overlay text
+      currentMarkups.forEach(markup => {
+        ctx.fillStyle = markup.color;
+        ctx.strokeStyle = markup.color;
+        markup.rects.forEach(rect => {
+          const x = rect.x * canvas.width;
+          const y = rect.y * canvas.height;
+          const width = rect.width * canvas.width;
+          const height = rect.height * canvas.height;
+          if (markup.type === 'note') {
+            ctx.fillRect(x, y, 20, 20);
+            ctx.strokeStyle = '#000000';
+            ctx.strokeRect(x, y, 20, 20);
+          } else if (markup.type === 'highlight') {
+            ctx.globalAlpha = 0.4;
+            ctx.fillRect(x, y, width, height);
+            ctx.globalAlpha = 1;
+          } else {
+            // Same positions as the exported appearance, measured up from the text's lower edge
+            const quad = markupQuad(rect, markup.rotation).map(point => ({ x: point.x * canvas.width, y: point.y * canvas.height }));
+            const [start, end] = markupLine(markup.type, quad);
+            ctx.lineWidth = Math.max(Math.hypot(quad[0].x - quad[2].x, quad[0].y - quad[2].y) / 14, 1);
+            ctx.beginPath();
+            ctx.moveTo(start.x, start.y);
+            ctx.lineTo(end.x, end.y);
+            ctx.stroke();
+          }
+        });
       });
 
+      // The drawing layer shows the shapes while drawing; elsewhere they are painted here
+      if (mode !== 'draw') {
+        paintShapes(ctx, currentShapes, canvas, 1.5);
+      }
+
       // Draw crop box
       if (cropBox && mode === 'crop') {
         ctx.strokeStyle = '#ef4444';
@@ -598,10 +1776,58 @@ export function App() {
         ctx.fillRect(cropBox.x, cropBox.y, cropBox.width, cropBox.height);
         ctx.setLineDash([]);
       }
+
+      if (cropBox && mode === 'markup') {
+        ctx.strokeStyle = '#3b82f6';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([5, 5]);
+        ctx.strokeRect(cropBox.x, cropBox.y, cropBox.width, cropBox.height);
+        ctx.setLineDash([]);
+      }
+
+      // Draw pending redactions and the box being dragged
+      if (mode === 'redact') {
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        ctx.strokeStyle = '#dc2626';
+        ctx.lineWidth = 1;
+        redactionMarks.forEach(mark => {
+          const x = mark.x * canvas.width;
+          const y = mark.y * canvas.height;
+          ctx.fillRect(x, y, mark.width * canvas.width, mark.height * canvas.height);
+          ctx.strokeRect(x, y, mark.width * canvas.width, mark.height * canvas.height);
+        });
+        if (cropBox) {
+          ctx.setLineDash([5, 5]);
+          ctx.strokeRect(cropBox.x, cropBox.y, cropBox.width, cropBox.height);
+          ctx.setLineDash([]);
+        }
+      }
     };
 
     img.src = pagePreview;
-  }, [pagePreview, currentAnnotations, cropBox, mode]);
+  }, [pagePreview, currentAnnotations, currentMarkups, currentShapes, cropBox, mode, redactionMarks, searchHighlights, fontsLoaded]);
+
+  // Undo/redo shortcuts; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
   const selectedCount = selectedPages.size;
 
@@ -610,11 +1836,30 @@ export function App() {
       {/* Loading overlay */}
       {loading && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 shadow-xl">
+          <div className="bg-white rounded-lg p-6 shadow-xl w-80">
             <div className="flex items-center gap-3">
-              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
-              <span className="text-lg">{loadingMessage}</span>
+              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin flex-shrink-0" />
+              <span className="text-lg truncate">{loadingMessage}</span>
             </div>
+            {progress && (
+              <div className="mt-4">
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{ width: `${(progress.current / progress.total) * 100}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-sm text-gray-500 text-right">
+                  {progress.current} / {progress.total}
+                </p>
+              </div>
+            )}
+            <button
+              onClick={cancelTask}
+              className="mt-4 w-full px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+            >
+              取消
+            </button>
           </div>
         </div>
       )}
@@ -630,14 +1875,50 @@ export function App() {
               <h1 className="text-2xl font-bold">PDF Editor Pro</h1>
             </div>
             <div className="flex items-center gap-2">
+              <button
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                className="p-2 rounded-lg hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title="復原 (Ctrl+Z)"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                </svg>
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                className="p-2 rounded-lg hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title="重做 (Ctrl+Shift+Z)"
+              >
+                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setShowHistory(prev => !prev)}
+                className={cn(
+                  'px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+                  showHistory ? 'bg-white/30' : 'hover:bg-white/20'
+                )}
+              >
+                歷史記錄
+              </button>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf"
+                accept=".pdf,image/*"
                 multiple
                 onChange={handleFileUpload}
                 className="hidden"
               />
+              <input
+                ref={workspaceInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleImportWorkspace}
+                className="hidden"
+              />
               <button
                 onClick={() => fileInputRef.current?.click()}
                 className="px-4 py-2 bg-white text-blue-600 rounded-lg font-medium hover:bg-blue-50 transition-colors flex items-center gap-2"
@@ -645,13 +1926,148 @@ export function App() {
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                 </svg>
-                上傳PDF
+                上傳PDF/圖片
               </button>
             </div>
           </div>
         </div>
       </header>
 
+      {/* Merge dialog */}
+      {showMergeDialog && (
+        <MergeDialog
+          documents={documents}
+          onMerge={handleMerge}
+          onClose={() => setShowMergeDialog(false)}
+        />
+      )}
+
+      {/* Image import dialog */}
+      {pendingImages.length > 0 && (
+        <ImageImportDialog
+          files={pendingImages}
+          activeDocName={activeDoc?.name}
+          onImport={handleImageImport}
+          onClose={() => setPendingImages([])}
+        />
+      )}
+
+      {/* Image export dialog */}
+      {showImageExport && activeDoc && (
+        <ImageExportDialog
+          docName={activeDoc.name}
+          pageCount={activeDoc.pageCount}
+          selectedCount={activeDoc.pages.filter((_, i) => selectedPages.has(`${activeDoc.id}-${i}`)).length}
+          onExport={handleExportImages}
+          onClose={() => setShowImageExport(false)}
+        />
+      )}
+
+      {/* Watermark dialog */}
+      {showWatermarkDialog && activeDoc && (
+        <WatermarkDialog
+          fontOptions={fontOptions}
+          pageCount={activeDoc.pageCount}
+          selectedIndices={getSelectedIndices(activeDoc)}
+          onApply={handleApplyWatermark}
+          onClose={() => setShowWatermarkDialog(false)}
+        />
+      )}
+
+      {/* Header/footer dialog */}
+      {showHeaderFooterDialog && activeDoc && (
+        <HeaderFooterDialog
+          fontOptions={fontOptions}
+          documents={documents}
+          activeDoc={activeDoc}
+          onApply={handleApplyHeaderFooter}
+          onClose={() => setShowHeaderFooterDialog(false)}
+        />
+      )}
+
+      {showPropertiesDialog && activeDoc && (
+        <DocumentPropertiesDialog
+          docName={activeDoc.name}
+          metadata={getDocumentMetadata(activeDoc)}
+          onSave={handleSaveProperties}
+          onClose={() => setShowPropertiesDialog(false)}
+        />
+      )}
+
+      {showOptimizeDialog && (
+        <OptimizeDialog
+          documents={documents}
+          preset={optimizePreset}
+          results={optimizeResults}
+          onPresetChange={setOptimizePreset}
+          onOptimize={handleOptimize}
+          onDownload={downloadOptimized}
+          onDownloadAll={downloadOptimizedZip}
+          onClose={() => {
+            setShowOptimizeDialog(false);
+            setOptimizeResults([]);
+          }}
+        />
+      )}
+
+      {showProtectionDialog && (
+        <PasswordProtectionDialog
+          protection={exportProtection}
+          onSave={(protection) => {
+            setExportProtection(protection);
+            setShowProtectionDialog(false);
+          }}
+          onClose={() => setShowProtectionDialog(false)}
+        />
+      )}
+
+      {showSignatureDialog && (
+        <SignatureDialog
+          signatureCount={savedSignatures.length}
+          onSave={handleCreateSignature}
+          onClose={() => setShowSignatureDialog(false)}
+        />
+      )}
+
+      {/* History panel */}
+      {showHistory && (
+        <div className="fixed right-4 top-20 w-72 bg-white rounded-xl shadow-xl border z-40 overflow-hidden">
+          <div className="p-3 border-b bg-gray-50 flex items-center justify-between">
+            <h3 className="font-semibold text-sm">歷史記錄</h3>
+            <button
+              onClick={() => setShowHistory(false)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="max-h-96 overflow-y-auto text-sm divide-y">
+            {[
+              '初始狀態',
+              ...history.past.map(entry => entry.label),
+              ...history.future.map(entry => entry.label),
+            ].map((label, step) => (
+              <button
+                key={step}
+                onClick={() => jumpToHistoryStep(step)}
+                className={cn(
+                  'w-full text-left px-3 py-2 transition-colors truncate',
+                  step === history.past.length
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : step > history.past.length
+                      ? 'text-gray-400 hover:bg-gray-50'
+                      : 'hover:bg-gray-50'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="max-w-7xl mx-auto px-4 py-6">
         {documents.length === 0 ? (
           /* Upload prompt */
@@ -663,7 +2079,7 @@ export function App() {
                 </svg>
               </div>
               <h2 className="text-2xl font-bold text-gray-800 mb-2">開始編輯PDF</h2>
-              <p className="text-gray-500 mb-6">上傳PDF文件開始編輯，支援批量上傳和離線操作</p>
+              <p className="text-gray-500 mb-6">上傳PDF文件或圖片開始編輯，支援批量上傳和離線操作</p>
               <button
                 onClick={() => fileInputRef.current?.click()}
                 className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors inline-flex items-center gap-2"
@@ -673,6 +2089,16 @@ export function App() {
                 </svg>
                 選擇文件
               </button>
+              <p className="mt-4 text-sm text-gray-500">
+                或
+                <button
+                  onClick={() => workspaceInputRef.current?.click()}
+                  className="mx-1 text-blue-600 hover:underline"
+                >
+                  匯入工作區
+                </button>
+                繼續同事的編輯
+              </p>
             </div>
           </div>
         ) : activePageIndex !== null && activeDoc ? (
@@ -720,25 +2146,105 @@ export function App() {
                 >
                   裁剪
                 </button>
+                <button
+                  onClick={() => setMode('redact')}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                    mode === 'redact' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                  )}
+                >
+                  塗黑
+                </button>
+                <button
+                  onClick={() => setMode('markup')}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                    mode === 'markup' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                  )}
+                >
+                  註解
+                </button>
+                <button
+                  onClick={() => setMode('draw')}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                    mode === 'draw' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                  )}
+                >
+                  繪圖
+                </button>
+                <button
+                  onClick={() => setMode('sign')}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                    mode === 'sign' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                  )}
+                >
+                  簽名
+                </button>
+                {formFields.length > 0 && (
+                  <button
+                    onClick={() => setMode('form')}
+                    className={cn(
+                      'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                      mode === 'form' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                    )}
+                  >
+                    表單
+                  </button>
+                )}
               </div>
             </div>
 
             <div className="flex">
               {/* Canvas area */}
               <div className="flex-1 p-6 bg-gray-100 flex justify-center overflow-auto" style={{ maxHeight: '70vh' }}>
-                <canvas
-                  ref={canvasRef}
-                  onClick={handleCanvasClick}
-                  onMouseDown={handleCropMouseDown}
-                  onMouseMove={handleCropMouseMove}
-                  onMouseUp={handleCropMouseUp}
-                  onMouseLeave={handleCropMouseUp}
-                  className={cn(
-                    'shadow-lg',
-                    mode === 'text' && 'cursor-text',
-                    mode === 'crop' && 'cursor-crosshair'
+                <div className="relative self-start">
+                  <canvas
+                    ref={canvasRef}
+                    onClick={handleCanvasClick}
+                    onMouseDown={handleCropMouseDown}
+                    onMouseMove={handleCropMouseMove}
+                    onMouseUp={handleCropMouseUp}
+                    onMouseLeave={handleCropMouseUp}
+                    className={cn(
+                      'block shadow-lg',
+                      mode === 'text' && 'cursor-text',
+                      (mode === 'crop' || mode === 'redact' || mode === 'markup') && 'cursor-crosshair'
+                    )}
+                  />
+                  {mode === 'form' && (
+                    <FormFieldOverlay
+                      fields={formFields}
+                      widgets={formWidgets}
+                      values={formValues}
+                      onChange={(name, value) => setFormValues(prev => ({ ...prev, [name]: value }))}
+                    />
                   )}
-                />
+                  {previewSize && (mode === 'sign' || currentSignatures.length > 0) && (
+                    <SignatureLayer
+                      width={previewSize.width}
+                      height={previewSize.height}
+                      scale={1.5}
+                      signatures={currentSignatures}
+                      interactive={mode === 'sign'}
+                      onChange={setCurrentSignatures}
+                    />
+                  )}
+                  {mode === 'draw' && previewSize && (
+                    <DrawingLayer
+                      width={previewSize.width}
+                      height={previewSize.height}
+                      scale={1.5}
+                      tool={drawTool}
+                      color={drawColor}
+                      strokeWidth={drawWidth}
+                      opacity={drawOpacity}
+                      shapes={currentShapes}
+                      onChange={setCurrentShapes}
+                    />
+                  )}
+                </div>
               </div>
 
               {/* Side panel */}
@@ -748,6 +2254,36 @@ export function App() {
                     <div>
                       <h3 className="font-semibold mb-3">文字設定</h3>
                       <div className="space-y-3">
+                        <div>
+                          <label className="block text-sm text-gray-600 mb-1">字型</label>
+                          <div className="flex gap-2">
+                            <select
+                              value={textSettings.fontFamily}
+                              onChange={(e) => setTextSettings(prev => ({ ...prev, fontFamily: e.target.value }))}
+                              className="flex-1 min-w-0 px-3 py-2 border rounded-lg"
+                            >
+                              {fontOptions.map(option => (
+                                <option key={option.family} value={option.family}>
+                                  {option.label}{option.cjk ? '' : ' (僅英文)'}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              ref={fontInputRef}
+                              type="file"
+                              accept=".ttf,.otf"
+                              onChange={handleFontUpload}
+                              className="hidden"
+                            />
+                            <button
+                              onClick={() => fontInputRef.current?.click()}
+                              className="px-3 py-2 border rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                              title="上傳 TTF/OTF 字型"
+                            >
+                              上傳
+                            </button>
+                          </div>
+                        </div>
                         <div>
                           <label className="block text-sm text-gray-600 mb-1">字體大小</label>
                           <input
@@ -771,7 +2307,7 @@ export function App() {
                       </div>
                     </div>
 
-                    {currentAnnotations.length > 0 && (
+                    {(currentAnnotations.length > 0 || activeDoc.pages[activePageIndex].textAnnotations.length > 0) && (
                       <div>
                         <h3 className="font-semibold mb-3">已添加文字 ({currentAnnotations.length})</h3>
                         <div className="space-y-2 max-h-48 overflow-y-auto">
@@ -796,7 +2332,7 @@ export function App() {
                           onClick={saveAnnotations}
                           className="w-full mt-3 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
                         >
-                          保存文字到PDF
+                          保存文字
                         </button>
                       </div>
                     )}
@@ -837,12 +2373,197 @@ export function App() {
                   </>
                 )}
 
+                {mode === 'redact' && (
+                  <>
+                    <div>
+                      <h3 className="font-semibold mb-3">塗黑（永久移除內容）</h3>
+                      <p className="text-sm text-gray-500 mb-3">
+                        在頁面上拖曳標記區域，或搜尋文字標記所有符合處
+                      </p>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={redactionQuery}
+                          onChange={(e) => setRedactionQuery(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && markRedactionMatches()}
+                          placeholder="搜尋文字"
+                          className="flex-1 min-w-0 px-3 py-1.5 border rounded-lg text-sm"
+                        />
+                        <button
+                          onClick={markRedactionMatches}
+                          disabled={!redactionQuery.trim()}
+                          className="px-3 py-1.5 border rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          標記
+                        </button>
+                      </div>
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium">待套用區域 ({redactionMarks.length})</span>
+                        {redactionMarks.length > 0 && (
+                          <button
+                            onClick={() => setRedactionMarks([])}
+                            className="text-xs text-gray-500 hover:text-red-600"
+                          >
+                            全部清除
+                          </button>
+                        )}
+                      </div>
+                      <div className="max-h-48 overflow-y-auto divide-y border rounded-lg">
+                        {redactionMarks.map((mark, i) => (
+                          <div key={mark.id} className="flex items-center justify-between px-2 py-1.5 text-xs">
+                            <span className="truncate text-gray-600">
+                              {i + 1}. {mark.text ? `「${mark.text}」` : `區域 ${Math.round(mark.width * 100)}% × ${Math.round(mark.height * 100)}%`}
+                            </span>
+                            <button
+                              onClick={() => setRedactionMarks(prev => prev.filter(m => m.id !== mark.id))}
+                              className="ml-2 text-gray-400 hover:text-red-600"
+                            >
+                              移除
+                            </button>
+                          </div>
+                        ))}
+                        {redactionMarks.length === 0 && (
+                          <p className="px-2 py-3 text-xs text-gray-400 text-center">尚未標記任何區域</p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">點陣化解析度</label>
+                      <select
+                        value={redactionDpi}
+                        onChange={(e) => setRedactionDpi(parseInt(e.target.value, 10))}
+                        className="w-full px-3 py-2 border rounded-lg text-sm"
+                      >
+                        {REDACTION_DPI_OPTIONS.map(dpi => (
+                          <option key={dpi} value={dpi}>{dpi} DPI</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-400 mt-1">
+                        套用後此頁會轉為圖片，隱藏文字層一併移除，並自動驗證塗黑區域內沒有殘留文字
+                      </p>
+                    </div>
+
+                    <button
+                      onClick={applyRedactions}
+                      disabled={redactionMarks.length === 0}
+                      className="w-full px-4 py-2 bg-gray-900 text-white rounded-lg font-medium hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      套用塗黑
+                    </button>
+                  </>
+                )}
+
+                {mode === 'markup' && (
+                  <MarkupPanel
+                    tool={markupTool}
+                    color={markupColor}
+                    author={markupAuthor}
+                    markups={currentMarkups}
+                    existing={existingAnnotations}
+                    onToolChange={setMarkupTool}
+                    onColorChange={setMarkupColor}
+                    onAuthorChange={setMarkupAuthor}
+                    onUpdate={(id, changes) => setCurrentMarkups(prev => prev.map(m => m.id === id ? { ...m, ...changes } : m))}
+                    onRemove={(id) => setCurrentMarkups(prev => prev.filter(m => m.id !== id))}
+                    onSave={saveMarkups}
+                  />
+                )}
+
+                {mode === 'draw' && (
+                  <DrawingPanel
+                    tool={drawTool}
+                    color={drawColor}
+                    width={drawWidth}
+                    opacity={drawOpacity}
+                    shapeCount={currentShapes.length}
+                    onToolChange={setDrawTool}
+                    onColorChange={setDrawColor}
+                    onWidthChange={setDrawWidth}
+                    onOpacityChange={setDrawOpacity}
+                    onClear={() => setCurrentShapes([])}
+                    onSave={saveDrawing}
+                  />
+                )}
+
+                {mode === 'sign' && (
+                  <SignaturePanel
+                    saved={savedSignatures}
+                    placed={currentSignatures}
+                    stampOption={signatureStamp}
+                    signerName={signerName}
+                    onStampOptionChange={setSignatureStamp}
+                    onSignerNameChange={setSignerName}
+                    onCreate={() => setShowSignatureDialog(true)}
+                    onPlace={placeSignature}
+                    onDelete={handleDeleteSignature}
+                    onRemovePlaced={(id) => setCurrentSignatures(prev => prev.filter(s => s.id !== id))}
+                    onSave={saveSignatures}
+                  />
+                )}
+
+                {mode === 'form' && (
+                  <>
+                    <div>
+                      <h3 className="font-semibold mb-3">表單欄位</h3>
+                      <p className="text-sm text-gray-500">
+                        此頁 {formWidgets.length} 個欄位，整份文件共 {formFields.length} 個欄位。直接在頁面上填寫，完成後儲存。
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => saveFormValues(false)}
+                      className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                    >
+                      儲存欄位（保留可編輯）
+                    </button>
+                    <button
+                      onClick={() => saveFormValues(true)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+                    >
+                      平面化並儲存
+                    </button>
+                    <div className="pt-2 border-t">
+                      <h3 className="text-sm font-medium mb-2">欄位資料 (JSON)</h3>
+                      <input
+                        ref={formJsonInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        onChange={importFormValues}
+                        className="hidden"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => formJsonInputRef.current?.click()}
+                          className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                        >
+                          匯入
+                        </button>
+                        <button
+                          onClick={exportFormValues}
+                          className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                        >
+                          匯出
+                        </button>
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">匯出目前的欄位值，可套用到同一份表單的其他檔案</p>
+                    </div>
+                  </>
+                )}
+
                 {mode === 'view' && (
                   <div className="text-sm text-gray-500">
                     <p>選擇模式以開始編輯：</p>
                     <ul className="mt-2 space-y-1">
                       <li>• <strong>添加文字</strong>：點擊添加可編輯文字</li>
                       <li>• <strong>裁剪</strong>：拖曳選取保留區域</li>
+                      <li>• <strong>塗黑</strong>：永久移除敏感內容</li>
+                      <li>• <strong>註解</strong>：螢光筆、底線、刪除線與便利貼</li>
+                      <li>• <strong>繪圖</strong>：手繪筆跡、矩形、橢圓、直線與箭頭</li>
+                      <li>• <strong>簽名</strong>：放置手寫、輸入或上傳的簽名</li>
+                      {formFields.length > 0 && <li>• <strong>表單</strong>：填寫與平面化表單欄位</li>}
                     </ul>
                   </div>
                 )}
@@ -864,9 +2585,19 @@ export function App() {
                       key={doc.id}
                       className={cn(
                         'p-3 cursor-pointer transition-colors group',
-                        activeDocId === doc.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                        dropTargetDocId === doc.id
+                          ? 'bg-purple-50 ring-2 ring-inset ring-purple-400'
+                          : activeDocId === doc.id ? 'bg-blue-50' : 'hover:bg-gray-50'
                       )}
                       onClick={() => setActiveDocId(doc.id)}
+                      onDragOver={(e) => {
+                        if (!dragState || dragState.docId === doc.id) return;
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = e.ctrlKey || e.altKey || e.metaKey ? 'copy' : 'move';
+                        setDropTargetDocId(doc.id);
+                      }}
+                      onDragLeave={() => setDropTargetDocId(prev => prev === doc.id ? null : prev)}
+                      onDrop={(e) => handleDocumentDrop(e, doc.id)}
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex-1 min-w-0">
@@ -890,11 +2621,18 @@ export function App() {
                 </div>
                 <div className="p-3 border-t space-y-2">
                   <button
-                    onClick={handleMergeAll}
-                    disabled={documents.length < 2}
+                    onClick={() => setShowMergeDialog(true)}
+                    disabled={documents.length === 0}
                     className="w-full px-3 py-2 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
-                    合併所有文件
+                    合併文件...
+                  </button>
+                  <button
+                    onClick={() => setShowOptimizeDialog(true)}
+                    disabled={documents.length === 0}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    壓縮最佳化...
                   </button>
                   <button
                     onClick={downloadAllAsZip}
@@ -903,8 +2641,80 @@ export function App() {
                   >
                     下載全部 (ZIP)
                   </button>
+                  <label className="flex items-center gap-2 text-xs text-gray-600" title="下載、合併、拆分與提取時移除標題、作者、XMP 等中繼資料">
+                    <input
+                      type="checkbox"
+                      checked={stripMetadata}
+                      onChange={(e) => setStripMetadata(e.target.checked)}
+                    />
+                    匯出時移除中繼資料
+                  </label>
+                  <button
+                    onClick={() => setShowProtectionDialog(true)}
+                    className="w-full flex items-center justify-between text-xs text-gray-600 hover:text-blue-600"
+                    title="下載、合併、拆分與提取時以密碼加密"
+                  >
+                    <span>匯出密碼保護</span>
+                    <span className={exportProtection ? 'text-green-600' : 'text-gray-400'}>
+                      {exportProtection ? `已啟用 (${exportProtection.algorithm.toUpperCase()})` : '未設定'}
+                    </span>
+                  </button>
+                  <div className="pt-2 border-t space-y-2">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleExportWorkspace}
+                        disabled={documents.length === 0}
+                        title="將文件、編輯與目前狀態打包成 ZIP，可交給同事繼續編輯"
+                        className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg text-xs hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        匯出工作區
+                      </button>
+                      <button
+                        onClick={() => workspaceInputRef.current?.click()}
+                        className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg text-xs hover:bg-gray-50 transition-colors"
+                      >
+                        匯入工作區
+                      </button>
+                    </div>
+                    {workspaceSaveFailed ? (
+                      <p className="text-xs text-red-600">自動儲存失敗，瀏覽器儲存空間可能不足</p>
+                    ) : storageEstimate && (
+                      <div title="工作區自動儲存在此瀏覽器中，重新整理後可還原">
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>已自動儲存</span>
+                          <span>{formatFileSize(storageEstimate.usage)} / {formatFileSize(storageEstimate.quota)}</span>
+                        </div>
+                        <div className="mt-1 h-1 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className={cn('h-full', storageEstimate.usage / storageEstimate.quota > 0.8 ? 'bg-red-500' : 'bg-blue-500')}
+                            style={{ width: `${Math.min(100, storageEstimate.usage / storageEstimate.quota * 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
+              {documents.length > 0 && (
+                <SearchPanel
+                  documents={documents}
+                  query={searchQuery}
+                  hits={searchHits}
+                  searching={searching}
+                  onSearch={setSearchQuery}
+                  onOpenHit={openSearchHit}
+                  onSelectHitPages={selectSearchHitPages}
+                />
+              )}
+              {activeDoc && (
+                <OutlinePanel
+                  items={outline}
+                  pageCount={activeDoc.pageCount}
+                  defaultPageIndex={getSelectedIndices(activeDoc)[0] ?? 0}
+                  onChange={handleOutlineChange}
+                  onOpenPage={(pageIndex) => openPageEditor(pageIndex)}
+                />
+              )}
             </div>
 
             {/* Main content area */}
@@ -964,20 +2774,101 @@ export function App() {
                         >
                           刪除頁面
                         </button>
+                        <button
+                          onClick={() => setShowWatermarkDialog(true)}
+                          className="px-3 py-1.5 text-sm bg-cyan-100 text-cyan-700 rounded-lg hover:bg-cyan-200 transition-colors"
+                        >
+                          浮水印
+                        </button>
+                        <button
+                          onClick={() => setShowHeaderFooterDialog(true)}
+                          className="px-3 py-1.5 text-sm bg-teal-100 text-teal-700 rounded-lg hover:bg-teal-200 transition-colors"
+                        >
+                          頁碼/Bates
+                        </button>
+                        <button
+                          onClick={() => setShowPropertiesDialog(true)}
+                          className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                        >
+                          文件屬性
+                        </button>
                       </div>
                     </div>
 
                     {/* Split/merge controls */}
                     <div className="mt-4 flex items-center gap-3 flex-wrap">
                       <div className="flex items-center gap-2 flex-1 min-w-64">
-                        <label className="text-sm text-gray-600 whitespace-nowrap">拆分規則:</label>
-                        <input
-                          type="text"
-                          value={mergeRule}
-                          onChange={(e) => setMergeRule(e.target.value)}
-                          placeholder="例如: 1-2,3,4-9,10"
-                          className="flex-1 px-3 py-1.5 border rounded-lg text-sm"
-                        />
+                        <label className="text-sm text-gray-600 whitespace-nowrap">拆分:</label>
+                        <select
+                          value={splitMode}
+                          onChange={(e) => setSplitMode(e.target.value as SplitMode)}
+                          className="px-2 py-1.5 border rounded-lg text-sm"
+                        >
+                          <option value="ranges">依頁面範圍</option>
+                          <option value="every">每 N 頁</option>
+                          <option value="bookmarks">依書籤</option>
+                          <option value="size">依檔案大小</option>
+                          <option value="separator">依空白分隔頁</option>
+                        </select>
+                        {splitMode === 'ranges' && (
+                          <input
+                            type="text"
+                            value={mergeRule}
+                            onChange={(e) => setMergeRule(e.target.value)}
+                            placeholder="例如: 1-3,5-,odd,9-4,1-10:2,!7"
+                            className={cn(
+                              'flex-1 px-3 py-1.5 border rounded-lg text-sm',
+                              splitPlan.errors.length > 0 && 'border-red-400 bg-red-50'
+                            )}
+                          />
+                        )}
+                        {splitMode === 'every' && (
+                          <div className="flex-1 flex items-center gap-2 text-sm text-gray-600">
+                            每
+                            <input
+                              type="number"
+                              min={1}
+                              value={splitEvery}
+                              onChange={(e) => setSplitEvery(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                              className="w-20 px-2 py-1.5 border rounded-lg text-sm"
+                            />
+                            頁一個檔案（共 {Math.ceil(activeDoc.pageCount / splitEvery)} 個）
+                          </div>
+                        )}
+                        {splitMode === 'size' && (
+                          <div className="flex-1 flex items-center gap-2 text-sm text-gray-600">
+                            每個檔案不超過
+                            <input
+                              type="number"
+                              min={0.1}
+                              step={0.5}
+                              value={splitSizeMB}
+                              onChange={(e) => setSplitSizeMB(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                              className="w-20 px-2 py-1.5 border rounded-lg text-sm"
+                            />
+                            MB
+                          </div>
+                        )}
+                        {splitMode === 'bookmarks' && (
+                          <span className="flex-1 text-sm text-gray-500">每個第一層書籤一個檔案，以書籤標題命名</span>
+                        )}
+                        {splitMode === 'separator' && (
+                          <div className="flex-1 flex items-center gap-2 text-sm text-gray-600">
+                            墨跡不超過
+                            <select
+                              value={separatorTolerance}
+                              onChange={(e) => setSeparatorTolerance(parseFloat(e.target.value))}
+                              className="px-2 py-1.5 border rounded-lg text-sm"
+                            >
+                              {SEPARATOR_TOLERANCE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                            <span className="text-gray-500">
+                              視為分隔頁，不會輸出（不計 5% 頁緣；文字較多或深色底的分隔頁無法偵測）
+                            </span>
+                          </div>
+                        )}
                         <button
                           onClick={handleSplit}
                           className="px-3 py-1.5 text-sm bg-orange-100 text-orange-700 rounded-lg hover:bg-orange-200 transition-colors whitespace-nowrap"
@@ -986,6 +2877,12 @@ export function App() {
                         </button>
                       </div>
                       <div className="h-6 w-px bg-gray-300" />
+                      <button
+                        onClick={() => setShowImageExport(true)}
+                        className="px-4 py-1.5 text-sm border border-indigo-300 text-indigo-700 rounded-lg hover:bg-indigo-50 transition-colors"
+                      >
+                        匯出圖片
+                      </button>
                       <button
                         onClick={downloadDocument}
                         className="px-4 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
@@ -993,39 +2890,51 @@ export function App() {
                         下載此文件
                       </button>
                     </div>
+                    {splitMode === 'ranges' && mergeRule.trim() && (
+                      <SplitPreview input={mergeRule} result={splitPlan} fileName={activeDoc.name} />
+                    )}
                   </div>
 
                   {/* Page grid */}
                   <div className="p-6">
+                    <p className="text-xs text-gray-400 mb-3">
+                      拖曳頁面可調整順序；拖到左側其他文件可移動頁面，按住 Ctrl 則為複製
+                    </p>
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
                       {activeDoc.pages.map((page, index) => {
                         const isSelected = selectedPages.has(`${activeDoc.id}-${index}`);
                         return (
                           <div
-                            key={index}
+                            key={`${page.source?.id ?? 'original'}-${page.pageIndex}`}
+                            draggable
+                            onDragStart={(e) => handlePageDragStart(e, index)}
+                            onDragOver={(e) => handlePageDragOver(e, index)}
+                            onDrop={handlePageDrop}
+                            onDragEnd={handlePageDragEnd}
                             className={cn(
                               'group relative bg-white border-2 rounded-lg overflow-hidden cursor-pointer transition-all hover:shadow-lg',
-                              isSelected ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200 hover:border-gray-300'
+                              isSelected ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200 hover:border-gray-300',
+                              dragState?.docId === activeDoc.id && dragState.indices.includes(index) && 'opacity-50'
                             )}
                           >
+                            {/* Drop indicator */}
+                            {dropIndex === index && (
+                              <div className="absolute inset-y-0 left-0 w-1 bg-blue-500 z-10" />
+                            )}
+                            {dropIndex === index + 1 && (
+                              <div className="absolute inset-y-0 right-0 w-1 bg-blue-500 z-10" />
+                            )}
                             {/* Thumbnail */}
                             <div
                               onClick={() => openPageEditor(index)}
                               className="aspect-[3/4] bg-gray-100 flex items-center justify-center"
                             >
-                              {page.thumbnail ? (
-                                <img
-                                  src={page.thumbnail}
-                                  alt={`Page ${index + 1}`}
-                                  className="w-full h-full object-contain"
-                                />
-                              ) : (
-                                <div className="text-gray-400">
-                                  <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                                  </svg>
-                                </div>
-                              )}
+                              <PageThumbnail
+                                docId={activeDoc.id}
+                                arrayBuffer={activeDoc.arrayBuffer}
+                                page={page}
+                                alt={`Page ${index + 1}`}
+                              />
                             </div>
 
                             {/* Selection checkbox */}
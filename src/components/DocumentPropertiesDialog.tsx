@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import type { DocumentMetadata } from '@/types/pdf';
+import { EMPTY_METADATA } from '@/utils/metadata';
+
+interface DocumentPropertiesDialogProps {
+  docName: string;
+  metadata: DocumentMetadata;
+  onSave: (metadata: DocumentMetadata) => void;
+  onClose: () => void;
+}
+
+const TEXT_FIELDS: { key: Exclude<keyof DocumentMetadata, 'creationDate' | 'modificationDate'>; label: string }[] = [
+  { key: 'title', label: '標題' },
+  { key: 'author', label: '作者' },
+  { key: 'subject', label: '主旨' },
+  { key: 'keywords', label: '關鍵字' },
+  { key: 'creator', label: '建立程式' },
+  { key: 'producer', label: 'PDF 產生器' },
+];
+
+const DATE_FIELDS: { key: 'creationDate' | 'modificationDate'; label: string }[] = [
+  { key: 'creationDate', label: '建立日期' },
+  { key: 'modificationDate', label: '修改日期' },
+];
+
+// ISO string to the local "YYYY-MM-DDTHH:mm" format of datetime-local inputs.
+function toLocalInput(iso: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export function DocumentPropertiesDialog({ docName, metadata, onSave, onClose }: DocumentPropertiesDialogProps) {
+  const [draft, setDraft] = useState<DocumentMetadata>(metadata);
+
+  const update = (changes: Partial<DocumentMetadata>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg truncate">文件屬性：{docName}</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm max-h-[70vh] overflow-y-auto">
+          {TEXT_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-3">
+              <label className="w-24 font-medium text-gray-700">{label}</label>
+              <input
+                type="text"
+                value={draft[key]}
+                onChange={(e) => update({ [key]: e.target.value })}
+                className="flex-1 px-3 py-1.5 border rounded-lg"
+              />
+            </div>
+          ))}
+          {DATE_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-3">
+              <label className="w-24 font-medium text-gray-700">{label}</label>
+              <input
+                type="datetime-local"
+                value={toLocalInput(draft[key])}
+                onChange={(e) => update({ [key]: e.target.value ? new Date(e.target.value).toISOString() : '' })}
+                className="flex-1 px-3 py-1.5 border rounded-lg"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">
+            儲存後會同時寫入 Info 字典與 XMP 中繼資料；留空的欄位會被移除
+          </p>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex items-center justify-between">
+          <button
+            onClick={() => setDraft(EMPTY_METADATA)}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-red-600 transition-colors"
+          >
+            全部清除
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              取消
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              儲存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
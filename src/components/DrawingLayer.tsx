@@ -0,0 +1,180 @@
+import { useEffect, useRef } from 'react';
+import { Canvas, PencilBrush, type FabricObject } from 'fabric';
+import type { DrawingKind, DrawingShape, DrawingTool } from '@/types/pdf';
+import { fabricToShape, registerShape, shapeToFabric } from '@/utils/fabricShapes';
+
+interface DrawingLayerProps {
+  width: number;
+  height: number;
+  // Canvas pixels per PDF point
+  scale: number;
+  tool: DrawingTool;
+  color: string;
+  strokeWidth: number;
+  opacity: number;
+  shapes: DrawingShape[];
+  onChange: (shapes: DrawingShape[]) => void;
+}
+
+const SHAPE_TOOLS: DrawingTool[] = ['rect', 'ellipse', 'line', 'arrow'];
+
+function toRgba(hex: string, opacity: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${value >> 16}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+}
+
+/**
+ * Fabric.js canvas laid over the page preview. Shapes are loaded once and
+ * reported back through `onChange` after every edit; a `shapes` prop that
+ * differs from the last report (undo, switching pages) reloads the canvas.
+ */
+export function DrawingLayer({ width, height, scale, tool, color, strokeWidth, opacity, shapes, onChange }: DrawingLayerProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<Canvas | null>(null);
+  const reportedRef = useRef<DrawingShape[] | null>(null);
+  // Event handlers are bound once per canvas, so they read current props from here
+  const propsRef = useRef({ scale, tool, color, strokeWidth, opacity, shapes, onChange });
+  propsRef.current = { scale, tool, color, strokeWidth, opacity, shapes, onChange };
+
+  const report = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const size = { width: canvas.width, height: canvas.height };
+    const next = canvas.getObjects()
+      .map(object => fabricToShape(object, size, propsRef.current.scale))
+      .filter((shape): shape is DrawingShape => shape !== null);
+    reportedRef.current = next;
+    propsRef.current.onChange(next);
+  };
+
+  const loadShapes = (canvas: Canvas, next: DrawingShape[]) => {
+    const { scale: currentScale, tool: currentTool } = propsRef.current;
+    canvas.clear();
+    for (const shape of next) {
+      const object = shapeToFabric(shape, { width: canvas.width, height: canvas.height }, currentScale);
+      object.set({ selectable: currentTool === 'select', evented: currentTool === 'select' });
+      canvas.add(object);
+    }
+    reportedRef.current = next;
+  };
+
+  // Create the Fabric canvas; it wraps its element, so the element is made here rather than by React
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const element = document.createElement('canvas');
+    wrapper.appendChild(element);
+    const canvas = new Canvas(element, { width, height, preserveObjectStacking: true });
+    canvasRef.current = canvas;
+    loadShapes(canvas, propsRef.current.shapes);
+
+    canvas.on('path:created', ({ path }) => {
+      const { tool: currentTool, color: currentColor, opacity: currentOpacity } = propsRef.current;
+      // The brush draws with a translucent colour; the saved stroke uses opacity instead
+      path.set({ stroke: currentColor, opacity: currentOpacity, selectable: false, evented: false });
+      registerShape(path, crypto.randomUUID(), 'ink');
+      if (currentTool === 'highlighter') path.set({ globalCompositeOperation: 'multiply' });
+      report();
+    });
+    canvas.on('object:modified', report);
+
+    // Rectangles, ellipses, lines and arrows are dragged out from the pointer
+    let start: { x: number; y: number } | null = null;
+    let draft: FabricObject | null = null;
+    const draftShape = (end: { x: number; y: number }): DrawingShape => {
+      const current = propsRef.current;
+      return {
+        id: crypto.randomUUID(),
+        kind: current.tool as DrawingKind,
+        points: [
+          { x: start!.x / canvas.width, y: start!.y / canvas.height },
+          { x: end.x / canvas.width, y: end.y / canvas.height },
+        ],
+        color: current.color,
+        width: current.strokeWidth,
+        opacity: current.opacity,
+      };
+    };
+    canvas.on('mouse:down', ({ scenePoint }) => {
+      if (!SHAPE_TOOLS.includes(propsRef.current.tool)) return;
+      start = { x: scenePoint.x, y: scenePoint.y };
+    });
+    canvas.on('mouse:move', ({ scenePoint }) => {
+      if (!start) return;
+      if (draft) canvas.remove(draft);
+      draft = shapeToFabric(draftShape(scenePoint), { width: canvas.width, height: canvas.height }, propsRef.current.scale);
+      draft.set({ selectable: false, evented: false });
+      canvas.add(draft);
+    });
+    canvas.on('mouse:up', ({ scenePoint }) => {
+      if (!start) return;
+      const tooSmall = Math.hypot(scenePoint.x - start.x, scenePoint.y - start.y) < 4;
+      if (draft && tooSmall) canvas.remove(draft);
+      start = null;
+      draft = null;
+      if (!tooSmall) report();
+    });
+
+    return () => {
+      canvasRef.current = null;
+      canvas.dispose().then(() => element.remove());
+    };
+  }, [width, height]);
+
+  // Reload when the shapes change from outside, e.g. undo or clearing the page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas && shapes !== reportedRef.current) loadShapes(canvas, shapes);
+  }, [shapes]);
+
+  // Tool switches between free drawing, dragging shapes out and selecting
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const freehand = tool === 'pen' || tool === 'highlighter';
+    canvas.isDrawingMode = freehand;
+    if (freehand) {
+      const brush = new PencilBrush(canvas);
+      brush.color = toRgba(color, opacity);
+      brush.width = strokeWidth * scale;
+      canvas.freeDrawingBrush = brush;
+    }
+    canvas.selection = tool === 'select';
+    canvas.defaultCursor = tool === 'select' ? 'default' : 'crosshair';
+    canvas.forEachObject(object => object.set({ selectable: tool === 'select', evented: tool === 'select' }));
+    if (tool !== 'select') canvas.discardActiveObject();
+    canvas.requestRenderAll();
+  }, [tool, color, strokeWidth, opacity, scale, width, height]);
+
+  // Restyle the selected shapes when the stroke settings change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || propsRef.current.tool !== 'select') return;
+    const selected = canvas.getActiveObjects();
+    if (selected.length === 0) return;
+    for (const object of selected) {
+      object.set({ stroke: color, strokeWidth: strokeWidth * scale, opacity });
+    }
+    canvas.requestRenderAll();
+    report();
+  }, [color, strokeWidth, opacity]);
+
+  // Delete or Backspace removes the selection, unless a text field has focus
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const canvas = canvasRef.current;
+      if (!canvas || (e.key !== 'Delete' && e.key !== 'Backspace')) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const selected = canvas.getActiveObjects();
+      if (selected.length === 0) return;
+      e.preventDefault();
+      canvas.discardActiveObject();
+      canvas.remove(...selected);
+      report();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return <div ref={wrapperRef} className="absolute inset-0" />;
+}
@@ -0,0 +1,139 @@
+import type { DrawingTool } from '@/types/pdf';
+import { cn } from '@/utils/cn';
+
+interface DrawingPanelProps {
+  tool: DrawingTool;
+  color: string;
+  width: number;
+  opacity: number;
+  shapeCount: number;
+  onToolChange: (tool: DrawingTool) => void;
+  onColorChange: (color: string) => void;
+  onWidthChange: (width: number) => void;
+  onOpacityChange: (opacity: number) => void;
+  onClear: () => void;
+  onSave: (flatten: boolean) => void;
+}
+
+const TOOLS: { tool: DrawingTool; label: string }[] = [
+  { tool: 'select', label: '選取' },
+  { tool: 'pen', label: '畫筆' },
+  { tool: 'highlighter', label: '螢光筆' },
+  { tool: 'rect', label: '矩形' },
+  { tool: 'ellipse', label: '橢圓' },
+  { tool: 'line', label: '直線' },
+  { tool: 'arrow', label: '箭頭' },
+];
+
+// The highlighter is a wide, translucent yellow pen
+const HIGHLIGHTER = { color: '#facc15', width: 12, opacity: 0.4 };
+
+// Side panel of the drawing mode: tools, stroke settings and saving.
+export function DrawingPanel({
+  tool,
+  color,
+  width,
+  opacity,
+  shapeCount,
+  onToolChange,
+  onColorChange,
+  onWidthChange,
+  onOpacityChange,
+  onClear,
+  onSave,
+}: DrawingPanelProps) {
+  return (
+    <>
+      <div>
+        <h3 className="font-semibold mb-3">繪圖工具</h3>
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {TOOLS.map(option => (
+            <button
+              key={option.tool}
+              onClick={() => {
+                onToolChange(option.tool);
+                if (option.tool === 'highlighter') {
+                  onColorChange(HIGHLIGHTER.color);
+                  onWidthChange(HIGHLIGHTER.width);
+                  onOpacityChange(HIGHLIGHTER.opacity);
+                }
+              }}
+              className={cn(
+                'px-2 py-1.5 border rounded-lg text-sm transition-colors',
+                tool === option.tool ? 'bg-blue-100 border-blue-400 text-blue-700' : 'hover:bg-gray-50'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2 text-sm">
+          <div className="flex items-center gap-2">
+            <label className="w-12 text-gray-600">顏色</label>
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => onColorChange(e.target.value)}
+              className="flex-1 h-8 rounded cursor-pointer"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="w-12 text-gray-600">粗細</label>
+            <input
+              type="range"
+              min={0.5}
+              max={24}
+              step={0.5}
+              value={width}
+              onChange={(e) => onWidthChange(Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-12 text-right text-gray-500">{width} pt</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="w-12 text-gray-600">透明度</label>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={opacity}
+              onChange={(e) => onOpacityChange(Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-12 text-right text-gray-500">{Math.round(opacity * 100)}%</span>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          {tool === 'select' ? '點選圖形可移動或縮放，按 Delete 刪除' : '在頁面上拖曳繪製'}
+        </p>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">此頁圖形 ({shapeCount})</h3>
+          <button
+            onClick={onClear}
+            disabled={shapeCount === 0}
+            className="text-xs text-red-500 hover:underline disabled:text-gray-300 disabled:no-underline"
+          >
+            清除全部
+          </button>
+        </div>
+        <button
+          onClick={() => onSave(false)}
+          className="w-full px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+        >
+          儲存為註解
+        </button>
+        <button
+          onClick={() => onSave(true)}
+          className="w-full mt-2 px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+        >
+          平面化儲存
+        </button>
+        <p className="text-xs text-gray-400 mt-1">註解可在其他閱讀器中編輯；平面化會畫入頁面內容</p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+import type { FormField, FormValues, FormWidget } from '@/types/pdf';
+
+interface FormFieldOverlayProps {
+  fields: FormField[];
+  widgets: FormWidget[];
+  values: FormValues;
+  onChange: (name: string, value: string | boolean) => void;
+}
+
+const INPUT_CLASS = 'w-full h-full px-1 text-xs bg-blue-50/80 border border-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100/80';
+
+// Editable inputs laid over the page preview at each widget's position.
+export function FormFieldOverlay({ fields, widgets, values, onChange }: FormFieldOverlayProps) {
+  return (
+    <>
+      {widgets.map((widget, i) => {
+        const field = fields.find(f => f.name === widget.fieldName);
+        if (!field) return null;
+        const value = values[field.name] ?? field.value;
+
+        return (
+          <div
+            key={`${widget.fieldName}-${i}`}
+            className="absolute flex items-center justify-center"
+            style={{
+              left: `${widget.x * 100}%`,
+              top: `${widget.y * 100}%`,
+              width: `${widget.width * 100}%`,
+              height: `${widget.height * 100}%`,
+            }}
+            title={field.name}
+          >
+            {field.type === 'text' && (field.multiline ? (
+              <textarea
+                value={String(value)}
+                disabled={field.readOnly}
+                onChange={(e) => onChange(field.name, e.target.value)}
+                className={`${INPUT_CLASS} resize-none`}
+              />
+            ) : (
+              <input
+                type="text"
+                value={String(value)}
+                disabled={field.readOnly}
+                onChange={(e) => onChange(field.name, e.target.value)}
+                className={INPUT_CLASS}
+              />
+            ))}
+            {field.type === 'checkbox' && (
+              <input
+                type="checkbox"
+                checked={value === true}
+                disabled={field.readOnly}
+                onChange={(e) => onChange(field.name, e.target.checked)}
+                className="w-4 h-4"
+              />
+            )}
+            {field.type === 'radio' && (
+              <input
+                type="radio"
+                name={`form-${field.name}`}
+                checked={!!widget.exportValue && value === widget.exportValue}
+                disabled={field.readOnly || !widget.exportValue}
+                onChange={() => onChange(field.name, widget.exportValue!)}
+                className="w-4 h-4"
+              />
+            )}
+            {field.type === 'dropdown' && (
+              <select
+                value={String(value)}
+                disabled={field.readOnly}
+                onChange={(e) => onChange(field.name, e.target.value)}
+                className={INPUT_CLASS}
+              >
+                <option value="">—</option>
+                {field.options.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import type { FontOption, HeaderFooterSettings, PDFDocument, StampSlot } from '@/types/pdf';
+import { DEFAULT_FONT_FAMILY } from '@/utils/fonts';
+import { parseMergeRules } from '@/utils/pdfUtils';
+import {
+  STAMP_SLOT_LABELS,
+  formatBatesNumber,
+  formatStampDate,
+  formatStampTemplate,
+  getStampedPages,
+} from '@/utils/pageStamps';
+import { cn } from '@/utils/cn';
+
+interface HeaderFooterDialogProps {
+  fontOptions: FontOption[];
+  documents: PDFDocument[];
+  activeDoc: PDFDocument;
+  onApply: (settings: HeaderFooterSettings) => void;
+  onClose: () => void;
+}
+
+const SLOTS: StampSlot[] = [
+  'header-left', 'header-center', 'header-right',
+  'footer-left', 'footer-center', 'footer-right',
+];
+
+export function HeaderFooterDialog({ fontOptions, documents, activeDoc, onApply, onClose }: HeaderFooterDialogProps) {
+  const [settings, setSettings] = useState<HeaderFooterSettings>({
+    templates: {
+      'header-left': '',
+      'header-center': '',
+      'header-right': '',
+      'footer-left': '',
+      'footer-center': '第 {page} 頁，共 {total} 頁',
+      'footer-right': '',
+    },
+    fontFamily: DEFAULT_FONT_FAMILY,
+    fontSize: 10,
+    color: '#000000',
+    marginX: 15,
+    marginY: 10,
+    range: '',
+    skipFirstPage: false,
+    scope: 'active',
+    batesPrefix: '',
+    batesStart: 1,
+    batesDigits: 6,
+  });
+
+  const update = (changes: Partial<HeaderFooterSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const targets = settings.scope === 'all' ? documents : [activeDoc];
+
+  // Report the first document the range does not fit
+  const rangeError = settings.range.trim()
+    ? targets
+      .map(doc => ({ doc, error: parseMergeRules(settings.range, doc.pageCount).errors[0] }))
+      .filter(({ error }) => error)
+      .map(({ doc, error }) => `${doc.name}：${error.message}`)[0]
+    : undefined;
+
+  const stampedCount = targets.reduce((sum, doc) => sum + getStampedPages(settings, doc.pageCount).length, 0);
+  const hasTemplate = SLOTS.some(slot => settings.templates[slot].trim());
+
+  const firstDoc = targets.find(doc => getStampedPages(settings, doc.pageCount).length > 0);
+  const preview = firstDoc && SLOTS
+    .filter(slot => settings.templates[slot].trim())
+    .map(slot => `${STAMP_SLOT_LABELS[slot]}：${formatStampTemplate(settings.templates[slot], {
+      page: getStampedPages(settings, firstDoc.pageCount)[0] + 1,
+      total: firstDoc.pageCount,
+      bates: formatBatesNumber(settings.batesPrefix, settings.batesStart, settings.batesDigits),
+      filename: firstDoc.name,
+      date: formatStampDate(),
+    })}`);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">頁碼與頁首頁尾</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm max-h-[70vh] overflow-y-auto">
+          <div>
+            <div className="grid grid-cols-3 gap-2">
+              {SLOTS.map(slot => (
+                <div key={slot}>
+                  <label className="block text-xs text-gray-500 mb-0.5">{STAMP_SLOT_LABELS[slot]}</label>
+                  <input
+                    type="text"
+                    value={settings.templates[slot]}
+                    onChange={(e) => update({ templates: { ...settings.templates, [slot]: e.target.value } })}
+                    className="w-full px-2 py-1.5 border rounded-lg"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              可用 {'{page}'}、{'{total}'}、{'{bates}'}、{'{filename}'}、{'{date}'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">Bates 前綴</label>
+              <input
+                type="text"
+                value={settings.batesPrefix}
+                onChange={(e) => update({ batesPrefix: e.target.value })}
+                placeholder="例如: ABC"
+                className="w-full px-2 py-1.5 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">起始編號</label>
+              <input
+                type="number"
+                min={0}
+                value={settings.batesStart}
+                onChange={(e) => update({ batesStart: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">位數</label>
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={settings.batesDigits}
+                onChange={(e) => update({ batesDigits: Math.min(12, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            <div className="col-span-2">
+              <label className="block font-medium text-gray-700 mb-1">字型</label>
+              <select
+                value={settings.fontFamily}
+                onChange={(e) => update({ fontFamily: e.target.value })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              >
+                {fontOptions.map(option => (
+                  <option key={option.family} value={option.family}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">大小 (pt)</label>
+              <input
+                type="number"
+                min={4}
+                max={72}
+                value={settings.fontSize}
+                onChange={(e) => update({ fontSize: Math.min(72, Math.max(4, parseInt(e.target.value, 10) || 4)) })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">顏色</label>
+              <input
+                type="color"
+                value={settings.color}
+                onChange={(e) => update({ color: e.target.value })}
+                className="w-full h-8 rounded cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">左右邊界: {settings.marginX} mm</label>
+              <input
+                type="range"
+                min={0}
+                max={50}
+                value={settings.marginX}
+                onChange={(e) => update({ marginX: parseInt(e.target.value, 10) })}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">上下邊界: {settings.marginY} mm</label>
+              <input
+                type="range"
+                min={0}
+                max={50}
+                value={settings.marginY}
+                onChange={(e) => update({ marginY: parseInt(e.target.value, 10) })}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="stamp-scope"
+                  checked={settings.scope === 'active'}
+                  onChange={() => update({ scope: 'active' })}
+                />
+                目前文件
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="stamp-scope"
+                  checked={settings.scope === 'all'}
+                  onChange={() => update({ scope: 'all' })}
+                />
+                所有文件（依列表順序，Bates 編號連續）
+              </label>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                value={settings.range}
+                onChange={(e) => update({ range: e.target.value })}
+                placeholder="頁面範圍，留空為全部頁面"
+                className={cn('flex-1 px-3 py-1.5 border rounded-lg', rangeError && 'border-red-400 bg-red-50')}
+              />
+              <label className="flex items-center gap-2 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={settings.skipFirstPage}
+                  onChange={(e) => update({ skipFirstPage: e.target.checked })}
+                />
+                略過第一頁
+              </label>
+            </div>
+            {rangeError && <p className="text-xs text-red-500">{rangeError}</p>}
+          </div>
+
+          {preview && preview.length > 0 && (
+            <div className="p-3 bg-gray-50 border rounded-lg text-xs text-gray-600 space-y-0.5">
+              <p className="font-medium">第一個套用頁面預覽</p>
+              {preview.map(line => <p key={line}>{line}</p>)}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex items-center justify-between">
+          <span className="text-sm text-gray-600">將套用到 {stampedCount} 頁</span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              取消
+            </button>
+            <button
+              onClick={() => onApply(settings)}
+              disabled={!hasTemplate || stampedCount === 0 || !!rangeError}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              套用
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import type { ImageExportSettings } from '@/types/pdf';
+import { formatImageFileName } from '@/utils/imageExport';
+
+interface ImageExportDialogProps {
+  docName: string;
+  pageCount: number;
+  selectedCount: number;
+  onExport: (settings: ImageExportSettings) => void;
+  onClose: () => void;
+}
+
+export function ImageExportDialog({ docName, pageCount, selectedCount, onExport, onClose }: ImageExportDialogProps) {
+  const [settings, setSettings] = useState<ImageExportSettings>({
+    format: 'png',
+    dpi: 150,
+    quality: 0.9,
+    background: '#ffffff',
+    transparent: false,
+    fileNamePattern: '{name}_{page}',
+    scope: selectedCount > 0 ? 'selected' : 'all',
+  });
+
+  const update = (changes: Partial<ImageExportSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const exampleName = formatImageFileName(
+    settings.fileNamePattern,
+    { name: docName, page: 1, total: pageCount },
+    settings.format
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">匯出為圖片</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">頁面</label>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={settings.scope === 'selected'}
+                  disabled={selectedCount === 0}
+                  onChange={() => update({ scope: 'selected' })}
+                />
+                已選頁面 ({selectedCount})
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={settings.scope === 'all'}
+                  onChange={() => update({ scope: 'all' })}
+                />
+                整份文件 ({pageCount})
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">格式</label>
+              <select
+                value={settings.format}
+                onChange={(e) => update({ format: e.target.value as ImageExportSettings['format'] })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              >
+                <option value="png">PNG</option>
+                <option value="jpeg">JPEG</option>
+                <option value="webp">WebP</option>
+              </select>
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">解析度 (DPI)</label>
+              <input
+                type="number"
+                min={72}
+                max={600}
+                value={settings.dpi}
+                onChange={(e) => update({ dpi: parseInt(e.target.value, 10) || 72 })}
+                onBlur={() => update({ dpi: Math.min(600, Math.max(72, settings.dpi)) })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              />
+            </div>
+          </div>
+
+          {settings.format !== 'png' && (
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">
+                品質: {Math.round(settings.quality * 100)}%
+              </label>
+              <input
+                type="range"
+                min={10}
+                max={100}
+                step={5}
+                value={Math.round(settings.quality * 100)}
+                onChange={(e) => update({ quality: parseInt(e.target.value, 10) / 100 })}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <label className="font-medium text-gray-700">背景顏色</label>
+              <input
+                type="color"
+                value={settings.background}
+                disabled={settings.transparent && settings.format !== 'jpeg'}
+                onChange={(e) => update({ background: e.target.value })}
+                className="w-8 h-8 rounded cursor-pointer disabled:opacity-40"
+              />
+            </div>
+            {settings.format !== 'jpeg' && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.transparent}
+                  onChange={(e) => update({ transparent: e.target.checked })}
+                />
+                透明背景
+              </label>
+            )}
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">檔名格式</label>
+            <input
+              type="text"
+              value={settings.fileNamePattern}
+              onChange={(e) => update({ fileNamePattern: e.target.value })}
+              className="w-full px-2 py-1.5 border rounded-lg font-mono"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              可用 {'{name}'}、{'{page}'}、{'{total}'}，例如: {exampleName}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onExport({ ...settings, dpi: Math.min(600, Math.max(72, settings.dpi)) })}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            匯出 ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
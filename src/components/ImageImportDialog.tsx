@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import type { ImageImportSettings } from '@/types/pdf';
+import { cn } from '@/utils/cn';
+
+interface ImageImportDialogProps {
+  files: File[];
+  // Name of the document images can be inserted into, if any
+  activeDocName?: string;
+  onImport: (settings: ImageImportSettings) => void;
+  onClose: () => void;
+}
+
+const TARGETS: { value: ImageImportSettings['target']; label: string }[] = [
+  { value: 'separate', label: '每張圖片建立一個新文件' },
+  { value: 'combined', label: '所有圖片合併為一個新文件' },
+  { value: 'insert', label: '插入到目前文件末尾' },
+];
+
+export function ImageImportDialog({ files, activeDocName, onImport, onClose }: ImageImportDialogProps) {
+  const [settings, setSettings] = useState<ImageImportSettings>({
+    target: files.length > 1 ? 'combined' : 'separate',
+    pageSize: 'a4',
+    orientation: 'auto',
+    margin: 10,
+    quality: 0.85,
+  });
+
+  const update = (changes: Partial<ImageImportSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">匯入圖片 ({files.length})</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <p className="text-gray-500 truncate" title={files.map(file => file.name).join('\n')}>
+            {files.map(file => file.name).join('、')}
+          </p>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">匯入方式</label>
+            <div className="space-y-1">
+              {TARGETS.map(target => (
+                <label
+                  key={target.value}
+                  className={cn(
+                    'flex items-center gap-2',
+                    target.value === 'insert' && !activeDocName && 'opacity-50'
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name="image-target"
+                    checked={settings.target === target.value}
+                    disabled={target.value === 'insert' && !activeDocName}
+                    onChange={() => update({ target: target.value })}
+                  />
+                  {target.label}
+                  {target.value === 'insert' && activeDocName && (
+                    <span className="text-gray-400 truncate">（{activeDocName}）</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">頁面大小</label>
+              <select
+                value={settings.pageSize}
+                onChange={(e) => update({ pageSize: e.target.value as ImageImportSettings['pageSize'] })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              >
+                <option value="fit">符合圖片</option>
+                <option value="a4">A4</option>
+                <option value="letter">Letter</option>
+              </select>
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">方向</label>
+              <select
+                value={settings.orientation}
+                onChange={(e) => update({ orientation: e.target.value as ImageImportSettings['orientation'] })}
+                className="w-full px-2 py-1.5 border rounded-lg"
+              >
+                <option value="auto">自動</option>
+                <option value="portrait">直向</option>
+                <option value="landscape">橫向</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">邊界: {settings.margin} mm</label>
+            <input
+              type="range"
+              min={0}
+              max={50}
+              value={settings.margin}
+              onChange={(e) => update({ margin: parseInt(e.target.value, 10) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">
+              JPEG 品質: {Math.round(settings.quality * 100)}%
+            </label>
+            <input
+              type="range"
+              min={10}
+              max={100}
+              step={5}
+              value={Math.round(settings.quality * 100)}
+              onChange={(e) => update({ quality: parseInt(e.target.value, 10) / 100 })}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-400 mt-1">PNG 圖片保持無損，不受此設定影響</p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onImport(settings)}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            匯入
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
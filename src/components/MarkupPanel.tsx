@@ -0,0 +1,139 @@
+import type { AnnotationSummary, MarkupAnnotation, MarkupType } from '@/types/pdf';
+import { MARKUP_TOOLS } from '@/utils/markup';
+import { cn } from '@/utils/cn';
+
+interface MarkupPanelProps {
+  tool: MarkupType;
+  color: string;
+  author: string;
+  markups: MarkupAnnotation[];
+  existing: AnnotationSummary[];
+  onToolChange: (tool: MarkupType) => void;
+  onColorChange: (color: string) => void;
+  onAuthorChange: (author: string) => void;
+  onUpdate: (id: string, changes: Partial<MarkupAnnotation>) => void;
+  onRemove: (id: string) => void;
+  onSave: () => void;
+}
+
+function formatDate(iso: string): string {
+  return iso ? new Date(iso).toLocaleString('zh-TW') : '日期不明';
+}
+
+function toolLabel(type: MarkupType): string {
+  return MARKUP_TOOLS.find(tool => tool.type === type)?.label ?? type;
+}
+
+// Side panel of the markup mode: tool settings and the page's annotation list.
+export function MarkupPanel({
+  tool,
+  color,
+  author,
+  markups,
+  existing,
+  onToolChange,
+  onColorChange,
+  onAuthorChange,
+  onUpdate,
+  onRemove,
+  onSave,
+}: MarkupPanelProps) {
+  return (
+    <>
+      <div>
+        <h3 className="font-semibold mb-3">註解工具</h3>
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          {MARKUP_TOOLS.map(option => (
+            <button
+              key={option.type}
+              onClick={() => {
+                onToolChange(option.type);
+                onColorChange(option.color);
+              }}
+              className={cn(
+                'px-2 py-1.5 border rounded-lg text-sm transition-colors',
+                tool === option.type ? 'bg-blue-100 border-blue-400 text-blue-700' : 'hover:bg-gray-50'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2 text-sm">
+          <div className="flex items-center gap-2">
+            <label className="w-12 text-gray-600">顏色</label>
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => onColorChange(e.target.value)}
+              className="flex-1 h-8 rounded cursor-pointer"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="w-12 text-gray-600">作者</label>
+            <input
+              type="text"
+              value={author}
+              onChange={(e) => onAuthorChange(e.target.value)}
+              placeholder="審閱者名稱"
+              className="flex-1 min-w-0 px-2 py-1 border rounded"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          {tool === 'note' ? '點擊頁面放置便利貼' : '在文字上拖曳，標記會對齊文字'}
+        </p>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">此頁註解 ({markups.length})</h3>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {markups.map(markup => (
+            <div key={markup.id} className="p-2 bg-gray-50 rounded-lg text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <span className="flex items-center gap-1 font-medium">
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: markup.color }} />
+                  {toolLabel(markup.type)}
+                </span>
+                <button onClick={() => onRemove(markup.id)} className="text-red-500 hover:underline">刪除</button>
+              </div>
+              <p className="text-gray-500">{markup.author || '匿名'} · {formatDate(markup.date)}</p>
+              {markup.text && <p className="text-gray-700 truncate" title={markup.text}>「{markup.text}」</p>}
+              <textarea
+                value={markup.comment}
+                onChange={(e) => onUpdate(markup.id, { comment: e.target.value })}
+                placeholder="註解內容"
+                rows={2}
+                className="w-full mt-1 px-2 py-1 border rounded resize-none"
+              />
+            </div>
+          ))}
+          {markups.length === 0 && (
+            <p className="text-xs text-gray-400">尚未新增註解</p>
+          )}
+        </div>
+        <button
+          onClick={onSave}
+          className="w-full mt-3 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+        >
+          保存註解
+        </button>
+      </div>
+
+      {existing.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">檔案內既有註解 ({existing.length})</h3>
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {existing.map((annotation, i) => (
+              <div key={i} className="p-2 border rounded-lg text-xs">
+                <p className="font-medium">{annotation.subtype}</p>
+                <p className="text-gray-500">{annotation.author || '匿名'} · {formatDate(annotation.date)}</p>
+                {annotation.comment && <p className="text-gray-700 whitespace-pre-wrap">{annotation.comment}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react';
+import type { MergeRule, OptimizePreset, PDFDocument } from '@/types/pdf';
+import { OPTIMIZE_PRESETS } from '@/utils/optimize';
+import { expandMergeRules, parseMergeRules } from '@/utils/pdfUtils';
+import { cn } from '@/utils/cn';
+
+export interface MergeEntry {
+  docId: string;
+  // Omitted when the whole document is merged
+  ranges?: MergeRule[];
+}
+
+interface MergeDialogProps {
+  documents: PDFDocument[];
+  // `metadataDocId` is the document whose properties the merged file carries
+  onMerge: (entries: MergeEntry[], metadataDocId: string | null, optimizePreset: OptimizePreset | null) => void;
+  onClose: () => void;
+}
+
+interface DraftEntry {
+  docId: string;
+  range: string;
+  included: boolean;
+}
+
+export function MergeDialog({ documents, onMerge, onClose }: MergeDialogProps) {
+  const [drafts, setDrafts] = useState<DraftEntry[]>(() =>
+    documents.map(doc => ({ docId: doc.id, range: '', included: true }))
+  );
+  const [metadataDocId, setMetadataDocId] = useState(documents[0]?.id ?? '');
+  const [optimizePreset, setOptimizePreset] = useState<OptimizePreset | ''>('');
+
+  // Resolve every row once so the list, the total and the merge button agree
+  const rows = useMemo(() => drafts.flatMap(draft => {
+    const doc = documents.find(d => d.id === draft.docId);
+    if (!doc) return [];
+
+    const parsed = draft.range.trim() ? parseMergeRules(draft.range, doc.pageCount) : undefined;
+    const error = parsed?.errors[0]?.message;
+    const ranges = parsed?.rules;
+    const pageCount = ranges ? expandMergeRules(ranges).length : doc.pageCount;
+    return [{ draft, doc, ranges, error, pageCount }];
+  }), [drafts, documents]);
+
+  const included = rows.filter(row => row.draft.included);
+  const totalPages = included.reduce((sum, row) => sum + row.pageCount, 0);
+  const hasErrors = included.some(row => row.error);
+  const canMerge = included.length > 0 && !hasErrors && totalPages > 0;
+  const metadataRow = included.find(row => row.doc.id === metadataDocId);
+
+  const updateDraft = (docId: string, changes: Partial<DraftEntry>) => {
+    setDrafts(prev => prev.map(draft => draft.docId === docId ? { ...draft, ...changes } : draft));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    setDrafts(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleMerge = () => {
+    onMerge(
+      included.map(row => ({ docId: row.doc.id, ranges: row.ranges })),
+      metadataRow?.doc.id ?? null,
+      optimizePreset || null
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">合併文件</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4">
+          <p className="text-sm text-gray-500 mb-3">
+            調整文件順序，並為每個文件輸入頁面範圍（例如: 1-3,5,last），留空則合併全部頁面
+          </p>
+          <div className="divide-y border rounded-lg max-h-[60vh] overflow-y-auto">
+            {rows.map(({ draft, doc, error, pageCount }, index) => (
+              <div
+                key={draft.docId}
+                className={cn('p-3 flex items-center gap-3', !draft.included && 'bg-gray-50 opacity-60')}
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.included}
+                  onChange={(e) => updateDraft(draft.docId, { included: e.target.checked })}
+                  className="w-4 h-4"
+                  title="包含此文件"
+                />
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => moveDraft(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 hover:bg-gray-200 rounded disabled:opacity-30 disabled:hover:bg-transparent"
+                    title="上移"
+                  >
+                    <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 15l7-7 7 7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => moveDraft(index, 1)}
+                    disabled={index === rows.length - 1}
+                    className="p-0.5 hover:bg-gray-200 rounded disabled:opacity-30 disabled:hover:bg-transparent"
+                    title="下移"
+                  >
+                    <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate text-sm">{doc.name}</p>
+                  <p className="text-xs text-gray-500">共 {doc.pageCount} 頁</p>
+                </div>
+                <div className="w-48">
+                  <input
+                    type="text"
+                    value={draft.range}
+                    onChange={(e) => updateDraft(draft.docId, { range: e.target.value })}
+                    disabled={!draft.included}
+                    placeholder={`全部 (1-${doc.pageCount})`}
+                    className={cn(
+                      'w-full px-2 py-1 border rounded text-sm',
+                      error && draft.included && 'border-red-400 bg-red-50'
+                    )}
+                  />
+                  {error && draft.included && (
+                    <p className="text-xs text-red-500 mt-0.5 truncate" title={error}>{error}</p>
+                  )}
+                </div>
+                <span className="w-14 text-right text-sm text-gray-600">{draft.included ? `${pageCount} 頁` : '略過'}</span>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex items-center gap-2 text-sm">
+            <label className="text-gray-600 whitespace-nowrap">文件屬性沿用:</label>
+            <select
+              value={metadataRow ? metadataDocId : ''}
+              onChange={(e) => setMetadataDocId(e.target.value)}
+              className="flex-1 px-2 py-1 border rounded"
+            >
+              <option value="">不沿用（空白屬性）</option>
+              {included.map(row => (
+                <option key={row.doc.id} value={row.doc.id}>{row.doc.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="mt-2 flex items-center gap-2 text-sm">
+            <label className="text-gray-600 whitespace-nowrap">壓縮最佳化:</label>
+            <select
+              value={optimizePreset}
+              onChange={(e) => setOptimizePreset(e.target.value as OptimizePreset | '')}
+              className="flex-1 px-2 py-1 border rounded"
+            >
+              <option value="">不壓縮</option>
+              {(Object.keys(OPTIMIZE_PRESETS) as OptimizePreset[]).map(preset => (
+                <option key={preset} value={preset}>
+                  {OPTIMIZE_PRESETS[preset].label} - {OPTIMIZE_PRESETS[preset].description}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            {included.length} 個文件，共 <span className="font-semibold">{totalPages}</span> 頁
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              取消
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={!canMerge}
+              className="px-4 py-2 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              合併並下載
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import type { OptimizePreset, PDFDocument } from '@/types/pdf';
+import { OPTIMIZE_PRESETS } from '@/utils/optimize';
+import { formatFileSize } from '@/utils/fileSize';
+import { cn } from '@/utils/cn';
+
+export interface OptimizeResult {
+  docId: string;
+  name: string;
+  // Size of the edited document before and after optimizing, in bytes
+  before: number;
+  after: number;
+  bytes: Uint8Array;
+}
+
+interface OptimizeDialogProps {
+  documents: PDFDocument[];
+  preset: OptimizePreset;
+  // Results of the last run, shown until the dialog closes
+  results: OptimizeResult[];
+  onPresetChange: (preset: OptimizePreset) => void;
+  onOptimize: (docIds: string[]) => void;
+  onDownload: (result: OptimizeResult) => void;
+  onDownloadAll: () => void;
+  onClose: () => void;
+}
+
+export function OptimizeDialog({
+  documents,
+  preset,
+  results,
+  onPresetChange,
+  onOptimize,
+  onDownload,
+  onDownloadAll,
+  onClose,
+}: OptimizeDialogProps) {
+  // The dialog closes while optimizing, so the selection falls back to the documents of the last run
+  const [selected, setSelected] = useState<Set<string>>(() =>
+    new Set(results.length > 0 ? results.map(result => result.docId) : documents.map(doc => doc.id))
+  );
+
+  const toggle = (docId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(docId)) next.delete(docId);
+      else next.add(docId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">壓縮最佳化</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm max-h-[70vh] overflow-y-auto">
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(OPTIMIZE_PRESETS) as OptimizePreset[]).map(value => (
+              <button
+                key={value}
+                onClick={() => onPresetChange(value)}
+                className={cn(
+                  'px-3 py-2 border rounded-lg text-left transition-colors',
+                  preset === value ? 'bg-blue-100 border-blue-400 text-blue-700' : 'hover:bg-gray-50'
+                )}
+              >
+                <span className="font-medium">{OPTIMIZE_PRESETS[value].label}</span>
+                <span className="block text-xs text-gray-500">{OPTIMIZE_PRESETS[value].description}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            超過目標解析度的圖片會重新取樣為 JPEG，並合併重複的圖片與字型、移除未使用的物件
+          </p>
+
+          <div className="border rounded-lg divide-y">
+            {documents.map(doc => {
+              const result = results.find(r => r.docId === doc.id);
+              const saved = result && result.before > 0 ? Math.round((1 - result.after / result.before) * 100) : 0;
+              return (
+                <div key={doc.id} className="flex items-center gap-3 p-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(doc.id)}
+                    onChange={() => toggle(doc.id)}
+                  />
+                  <span className="flex-1 truncate">{doc.name}</span>
+                  {result && (
+                    <>
+                      <span className="text-xs text-gray-600 whitespace-nowrap">
+                        {formatFileSize(result.before)} → <span className="font-semibold">{formatFileSize(result.after)}</span>
+                      </span>
+                      <span className={cn('w-12 text-right text-xs', saved > 0 ? 'text-green-600' : 'text-gray-400')}>
+                        {saved > 0 ? `-${saved}%` : '無變化'}
+                      </span>
+                      <button onClick={() => onDownload(result)} className="text-xs text-blue-600 hover:underline">下載</button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex items-center justify-between">
+          <button
+            onClick={onDownloadAll}
+            disabled={results.length === 0}
+            className="px-3 py-2 text-sm text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            全部下載 (ZIP)
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              關閉
+            </button>
+            <button
+              onClick={() => onOptimize(documents.filter(doc => selected.has(doc.id)).map(doc => doc.id))}
+              disabled={selected.size === 0}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              開始最佳化
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import type { OutlineItem } from '@/types/pdf';
+import {
+  addOutlineChild,
+  indentOutlineItem,
+  moveOutlineItem,
+  outdentOutlineItem,
+  removeOutlineItem,
+  updateOutlineItem,
+} from '@/utils/outline';
+import { cn } from '@/utils/cn';
+
+interface OutlinePanelProps {
+  items: OutlineItem[];
+  pageCount: number;
+  // Page new bookmarks point at, e.g. the first selected page
+  defaultPageIndex: number;
+  onChange: (items: OutlineItem[]) => void;
+  onOpenPage: (pageIndex: number) => void;
+}
+
+const ICON_BUTTON = 'px-1 text-xs text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:hover:text-gray-400';
+
+// Editable bookmark tree of the active document.
+export function OutlinePanel({ items, pageCount, defaultPageIndex, onChange, onOpenPage }: OutlinePanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const createItem = (): OutlineItem => ({
+    id: crypto.randomUUID(),
+    title: `第 ${defaultPageIndex + 1} 頁`,
+    pageIndex: defaultPageIndex,
+    children: [],
+  });
+
+  const startRename = (item: OutlineItem) => {
+    setEditingId(item.id);
+    setDraftTitle(item.title);
+  };
+
+  const finishRename = () => {
+    if (!editingId) return;
+    const title = draftTitle.trim();
+    if (title) onChange(updateOutlineItem(items, editingId, { title }));
+    setEditingId(null);
+  };
+
+  const renderItems = (level: OutlineItem[], depth: number) => level.map((item, i) => (
+    <li key={item.id}>
+      <div
+        className="flex items-center gap-1 py-1 pr-1 group hover:bg-gray-50"
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+      >
+        {editingId === item.id ? (
+          <input
+            autoFocus
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onBlur={finishRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishRename();
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            className="flex-1 min-w-0 px-1 py-0.5 border rounded text-xs"
+          />
+        ) : (
+          <button
+            onClick={() => item.pageIndex !== null && onOpenPage(item.pageIndex)}
+            onDoubleClick={() => startRename(item)}
+            className={cn('flex-1 min-w-0 text-left text-xs truncate', item.pageIndex === null && 'text-gray-400')}
+            title="點擊前往頁面，雙擊重新命名"
+          >
+            {item.title || '（未命名）'}
+          </button>
+        )}
+        <input
+          type="number"
+          min={1}
+          max={pageCount}
+          value={item.pageIndex === null ? '' : item.pageIndex + 1}
+          onChange={(e) => {
+            const page = parseInt(e.target.value, 10);
+            if (page >= 1 && page <= pageCount) onChange(updateOutlineItem(items, item.id, { pageIndex: page - 1 }));
+          }}
+          className="w-10 px-1 py-0.5 border rounded text-xs"
+          title="目標頁碼"
+        />
+        <div className="hidden group-hover:flex items-center">
+          <button onClick={() => onChange(moveOutlineItem(items, item.id, -1))} disabled={i === 0} className={ICON_BUTTON} title="上移">↑</button>
+          <button onClick={() => onChange(moveOutlineItem(items, item.id, 1))} disabled={i === level.length - 1} className={ICON_BUTTON} title="下移">↓</button>
+          <button onClick={() => onChange(outdentOutlineItem(items, item.id))} disabled={depth === 0} className={ICON_BUTTON} title="升一層">←</button>
+          <button onClick={() => onChange(indentOutlineItem(items, item.id))} disabled={i === 0} className={ICON_BUTTON} title="降一層（成為上一個書籤的子項）">→</button>
+          <button onClick={() => onChange(addOutlineChild(items, item.id, createItem()))} className={ICON_BUTTON} title="新增子書籤">＋</button>
+          <button onClick={() => startRename(item)} className={ICON_BUTTON} title="重新命名">✎</button>
+          <button onClick={() => onChange(removeOutlineItem(items, item.id))} className={cn(ICON_BUTTON, 'hover:text-red-600')} title="刪除（含子書籤）">✕</button>
+        </div>
+      </div>
+      {item.children.length > 0 && <ul>{renderItems(item.children, depth + 1)}</ul>}
+    </li>
+  ));
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden mt-4">
+      <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+        <h2 className="font-semibold">書籤</h2>
+        <button
+          onClick={() => onChange([...items, createItem()])}
+          disabled={pageCount === 0}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          title={`新增指向第 ${defaultPageIndex + 1} 頁的書籤`}
+        >
+          新增
+        </button>
+      </div>
+      {items.length > 0 ? (
+        <ul className="max-h-80 overflow-y-auto py-1">{renderItems(items, 0)}</ul>
+      ) : (
+        <p className="p-4 text-xs text-gray-400">此文件沒有書籤。選取頁面後按「新增」建立書籤。</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PDFPageData } from '@/types/pdf';
+import { getThumbnail, getThumbnailKey, peekThumbnail } from '@/utils/thumbnailCache';
+
+interface PageThumbnailProps {
+  docId: string;
+  arrayBuffer: ArrayBuffer;
+  page: PDFPageData;
+  alt: string;
+}
+
+// Renders the page only while it is on (or near) the screen.
+export function PageThumbnail({ docId, arrayBuffer, page, alt }: PageThumbnailProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const key = getThumbnailKey(docId, page);
+  const [thumbnail, setThumbnail] = useState<{ key: string; url: string } | null>(null);
+  const url = thumbnail?.key === key ? thumbnail.url : peekThumbnail(key);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsVisible(entry.isIntersecting),
+      { rootMargin: '300px 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible || url) return;
+
+    let cancelled = false;
+    getThumbnail(key, arrayBuffer, page)
+      .then(rendered => {
+        if (!cancelled) setThumbnail({ key, url: rendered });
+      })
+      .catch(error => console.error('Failed to render thumbnail:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVisible, url, key, arrayBuffer, page]);
+
+  return (
+    <div ref={containerRef} className="w-full h-full flex items-center justify-center">
+      {isVisible && url ? (
+        <img
+          src={url}
+          alt={alt}
+          className="w-full h-full object-contain"
+        />
+      ) : (
+        <div className="text-gray-400">
+          <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+}
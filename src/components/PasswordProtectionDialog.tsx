@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import type { EncryptionAlgorithm, PDFProtection } from '@/types/pdf';
+import { cn } from '@/utils/cn';
+
+interface PasswordProtectionDialogProps {
+  protection: PDFProtection | null;
+  onSave: (protection: PDFProtection | null) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_PROTECTION: PDFProtection = {
+  userPassword: '',
+  ownerPassword: '',
+  algorithm: 'aes-256',
+  permissions: { print: true, copy: false, modify: false },
+};
+
+const ALGORITHMS: { value: EncryptionAlgorithm; label: string; hint: string }[] = [
+  { value: 'aes-256', label: 'AES-256', hint: 'Acrobat X 以後' },
+  { value: 'aes-128', label: 'AES-128', hint: '相容舊版閱讀器' },
+];
+
+const PERMISSIONS: { key: keyof PDFProtection['permissions']; label: string }[] = [
+  { key: 'print', label: '允許列印' },
+  { key: 'copy', label: '允許複製文字與圖片' },
+  { key: 'modify', label: '允許修改、註解與填寫表單' },
+];
+
+export function PasswordProtectionDialog({ protection, onSave, onClose }: PasswordProtectionDialogProps) {
+  const [draft, setDraft] = useState<PDFProtection>(protection ?? DEFAULT_PROTECTION);
+  const [confirmPassword, setConfirmPassword] = useState(protection?.userPassword ?? '');
+
+  const update = (changes: Partial<PDFProtection>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const mismatch = draft.userPassword !== confirmPassword;
+  // Without either password there is nothing to protect
+  const empty = !draft.userPassword && !draft.ownerPassword;
+  const samePasswords = draft.userPassword !== '' && draft.userPassword === draft.ownerPassword;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">匯出密碼保護</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm">
+          <div className="flex items-center gap-3">
+            <label className="w-24 font-medium text-gray-700">開啟密碼</label>
+            <input
+              type="password"
+              value={draft.userPassword}
+              onChange={(e) => update({ userPassword: e.target.value })}
+              placeholder="留空則不需密碼即可開啟"
+              className="flex-1 px-3 py-1.5 border rounded-lg"
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="w-24 font-medium text-gray-700">確認密碼</label>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={cn('flex-1 px-3 py-1.5 border rounded-lg', mismatch && 'border-red-400')}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="w-24 font-medium text-gray-700">權限密碼</label>
+            <input
+              type="password"
+              value={draft.ownerPassword}
+              onChange={(e) => update({ ownerPassword: e.target.value })}
+              placeholder="留空則使用隨機密碼"
+              className="flex-1 px-3 py-1.5 border rounded-lg"
+            />
+          </div>
+          {samePasswords && (
+            <p className="text-xs text-amber-600">兩組密碼相同時，知道開啟密碼的人也能解除權限限制</p>
+          )}
+
+          <div className="space-y-1 pt-1">
+            {PERMISSIONS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.permissions[key]}
+                  onChange={(e) => update({ permissions: { ...draft.permissions, [key]: e.target.checked } })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2 pt-1">
+            {ALGORITHMS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => update({ algorithm: option.value })}
+                className={cn(
+                  'flex-1 px-3 py-1.5 border rounded-lg transition-colors',
+                  draft.algorithm === option.value ? 'bg-blue-100 border-blue-400 text-blue-700' : 'hover:bg-gray-50'
+                )}
+              >
+                {option.label}
+                <span className="block text-xs text-gray-500">{option.hint}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            套用於下載、合併、拆分與提取；權限由閱讀器自行遵守，無法防止所有工具
+          </p>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex items-center justify-between">
+          <button
+            onClick={() => onSave(null)}
+            disabled={!protection}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-red-600 disabled:opacity-50 transition-colors"
+          >
+            取消保護
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              取消
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={mismatch || empty}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              套用
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
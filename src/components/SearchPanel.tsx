@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import type { PDFDocument as PDFDocType, SearchHit } from '@/types/pdf';
+
+interface SearchPanelProps {
+  documents: PDFDocType[];
+  query: string;
+  hits: SearchHit[];
+  searching: boolean;
+  onSearch: (query: string) => void;
+  onOpenHit: (hit: SearchHit) => void;
+  onSelectHitPages: () => void;
+}
+
+// Search box with matches grouped by document and page.
+export function SearchPanel({ documents, query, hits, searching, onSearch, onOpenHit, onSelectHitPages }: SearchPanelProps) {
+  const [draft, setDraft] = useState(query);
+  const total = hits.reduce((sum, hit) => sum + hit.count, 0);
+  const groups = documents
+    .map(doc => ({ doc, hits: hits.filter(hit => hit.docId === doc.id) }))
+    .filter(group => group.hits.length > 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden mt-4">
+      <div className="p-4 border-b bg-gray-50">
+        <h2 className="font-semibold">全文搜尋</h2>
+      </div>
+      <form
+        className="p-3 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSearch(draft);
+        }}
+      >
+        <input
+          type="search"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            if (!e.target.value) onSearch('');
+          }}
+          placeholder="搜尋所有文件..."
+          className="flex-1 min-w-0 px-2 py-1.5 border rounded-lg text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || searching}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          搜尋
+        </button>
+      </form>
+
+      {query && (
+        <div className="border-t">
+          <div className="px-3 py-2 flex items-center justify-between text-xs text-gray-600">
+            <span>{searching ? '建立索引中...' : `共 ${total} 處，${hits.length} 頁`}</span>
+            {hits.length > 0 && !searching && (
+              <button
+                onClick={onSelectHitPages}
+                className="text-blue-600 hover:underline"
+                title="選取後可直接提取或刪除這些頁面"
+              >
+                選取所有符合頁面
+              </button>
+            )}
+          </div>
+          <div className="max-h-80 overflow-y-auto">
+            {groups.map(({ doc, hits: docHits }) => (
+              <div key={doc.id}>
+                <p className="px-3 py-1 bg-gray-50 text-xs font-medium text-gray-700 truncate">{doc.name}</p>
+                {docHits.map(hit => (
+                  <button
+                    key={hit.pageIndex}
+                    onClick={() => onOpenHit(hit)}
+                    className="w-full px-3 py-1.5 text-left hover:bg-yellow-50 transition-colors"
+                  >
+                    <span className="text-xs font-medium">第 {hit.pageIndex + 1} 頁</span>
+                    <span className="text-xs text-gray-400 ml-1">({hit.count})</span>
+                    <p className="text-xs text-gray-500 truncate">{hit.snippet}</p>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
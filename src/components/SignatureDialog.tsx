@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PreparedImage, SavedSignature } from '@/types/pdf';
+import { prepareImage } from '@/utils/imageImport';
+import { canvasToSignatureImage, signatureImageURL } from '@/utils/signatureStore';
+import { cn } from '@/utils/cn';
+
+interface SignatureDialogProps {
+  // Used to suggest a name for the new signature
+  signatureCount: number;
+  onSave: (signature: SavedSignature) => void;
+  onClose: () => void;
+}
+
+type SignatureSource = 'draw' | 'type' | 'upload';
+
+const SOURCES: { value: SignatureSource; label: string }[] = [
+  { value: 'draw', label: '手寫' },
+  { value: 'type', label: '輸入文字' },
+  { value: 'upload', label: '上傳圖片' },
+];
+
+// Script faces commonly installed on desktop systems, with Kai faces for Chinese names
+const SCRIPT_FONTS = [
+  { label: '草寫體', css: '"Segoe Script", "Snell Roundhand", "Brush Script MT", cursive' },
+  { label: '楷書', css: '"BiauKai", "DFKai-SB", "Kaiti TC", "STKaiti", cursive' },
+  { label: '手寫風', css: '"Bradley Hand", "Comic Sans MS", "Segoe Print", cursive' },
+];
+
+const INK_COLORS = [
+  { label: '黑色', value: '#111827' },
+  { label: '藍色', value: '#1d4ed8' },
+];
+
+// Drawing pad resolution; the pad is shown at half size for sharp strokes
+const PAD_WIDTH = 960;
+const PAD_HEIGHT = 320;
+const TYPED_FONT_SIZE = 120;
+
+export function SignatureDialog({ signatureCount, onSave, onClose }: SignatureDialogProps) {
+  const [source, setSource] = useState<SignatureSource>('draw');
+  const [name, setName] = useState(`簽名 ${signatureCount + 1}`);
+  const [color, setColor] = useState(INK_COLORS[0].value);
+  const [typedText, setTypedText] = useState('');
+  const [fontIndex, setFontIndex] = useState(0);
+  const [uploaded, setUploaded] = useState<PreparedImage | null>(null);
+  const [uploadedURL, setUploadedURL] = useState<string | null>(null);
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const padRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => () => {
+    if (uploadedURL) URL.revokeObjectURL(uploadedURL);
+  }, [uploadedURL]);
+
+  const toPadPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * PAD_WIDTH / rect.width,
+      y: (e.clientY - rect.top) * PAD_HEIGHT / rect.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = toPadPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return;
+    const point = toPadPoint(e);
+    const context = e.currentTarget.getContext('2d')!;
+    context.strokeStyle = color;
+    context.lineWidth = 6;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(lastPoint.current.x, lastPoint.current.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPoint.current = point;
+    setHasStrokes(true);
+  };
+
+  const clearPad = () => {
+    const pad = padRef.current;
+    pad?.getContext('2d')!.clearRect(0, 0, pad.width, pad.height);
+    setHasStrokes(false);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type !== 'image/png') {
+      alert('請上傳透明背景的 PNG 圖片');
+      return;
+    }
+    try {
+      const image = await prepareImage(file, 1);
+      setUploaded(image);
+      setUploadedURL(signatureImageURL(image));
+    } catch (error) {
+      console.error('Failed to read signature image:', error);
+      alert('讀取圖片失敗');
+    }
+  };
+
+  // Draws the typed name on a canvas wide enough for it
+  const renderTyped = (): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d')!;
+    const font = `${TYPED_FONT_SIZE}px ${SCRIPT_FONTS[fontIndex].css}`;
+    context.font = font;
+    canvas.width = Math.ceil(context.measureText(typedText).width + TYPED_FONT_SIZE);
+    canvas.height = Math.ceil(TYPED_FONT_SIZE * 1.6);
+    // Resizing resets the context
+    context.font = font;
+    context.fillStyle = color;
+    context.textBaseline = 'middle';
+    context.fillText(typedText, TYPED_FONT_SIZE / 2, canvas.height / 2);
+    return canvas;
+  };
+
+  const canSave = !saving && name.trim() !== '' && (
+    source === 'draw' ? hasStrokes : source === 'type' ? typedText.trim() !== '' : uploaded !== null
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      let image: PreparedImage | null;
+      if (source === 'upload') {
+        image = uploaded;
+      } else {
+        const canvas = source === 'draw' ? padRef.current! : renderTyped();
+        image = await canvasToSignatureImage(canvas, name.trim());
+      }
+      if (!image) {
+        alert('簽名是空白的');
+        return;
+      }
+      onSave({ id: crypto.randomUUID(), name: name.trim(), image, createdAt: new Date().toISOString() });
+    } catch (error) {
+      console.error('Failed to create signature:', error);
+      alert('建立簽名失敗');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">新增簽名</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <div className="flex gap-2">
+            {SOURCES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => {
+                  // The drawing pad is unmounted when leaving the tab
+                  if (option.value !== source) setHasStrokes(false);
+                  setSource(option.value);
+                }}
+                className={cn(
+                  'flex-1 px-3 py-1.5 border rounded-lg transition-colors',
+                  source === option.value ? 'bg-blue-100 border-blue-400 text-blue-700' : 'hover:bg-gray-50'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {source !== 'upload' && (
+            <div className="flex items-center gap-3">
+              <label className="font-medium text-gray-700">墨水顏色</label>
+              {INK_COLORS.map(ink => (
+                <label key={ink.value} className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    name="signature-ink"
+                    checked={color === ink.value}
+                    onChange={() => setColor(ink.value)}
+                  />
+                  <span style={{ color: ink.value }}>{ink.label}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {source === 'draw' && (
+            <div>
+              <canvas
+                ref={padRef}
+                width={PAD_WIDTH}
+                height={PAD_HEIGHT}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => { lastPoint.current = null; }}
+                onPointerCancel={() => { lastPoint.current = null; }}
+                className="w-full border-2 border-dashed rounded-lg bg-white cursor-crosshair touch-none"
+              />
+              <div className="flex justify-between mt-1">
+                <p className="text-xs text-gray-400">用滑鼠、觸控筆或手指在框內簽名</p>
+                <button onClick={clearPad} className="text-xs text-red-500 hover:underline">清除</button>
+              </div>
+            </div>
+          )}
+
+          {source === 'type' && (
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={typedText}
+                onChange={(e) => setTypedText(e.target.value)}
+                placeholder="輸入姓名"
+                className="w-full px-3 py-2 border rounded-lg"
+              />
+              <div className="grid grid-cols-3 gap-2">
+                {SCRIPT_FONTS.map((font, i) => (
+                  <button
+                    key={font.label}
+                    onClick={() => setFontIndex(i)}
+                    className={cn(
+                      'px-2 py-2 border rounded-lg truncate transition-colors',
+                      fontIndex === i ? 'bg-blue-100 border-blue-400' : 'hover:bg-gray-50'
+                    )}
+                    style={{ fontFamily: font.css, fontSize: 22, color }}
+                    title={font.label}
+                  >
+                    {typedText || font.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">字型依系統而定，簽名會以圖片保存</p>
+            </div>
+          )}
+
+          {source === 'upload' && (
+            <div>
+              <input
+                type="file"
+                accept="image/png"
+                onChange={handleUpload}
+                className="block w-full text-sm"
+              />
+              {uploadedURL && (
+                <img
+                  src={uploadedURL}
+                  alt="簽名預覽"
+                  className="mt-2 max-h-32 mx-auto border rounded-lg bg-[repeating-conic-gradient(#f3f4f6_0_25%,#fff_0_50%)] bg-[length:16px_16px]"
+                />
+              )}
+              <p className="text-xs text-gray-400 mt-1">請使用透明背景的 PNG，簽名才不會蓋住頁面內容</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">名稱</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            儲存簽名
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
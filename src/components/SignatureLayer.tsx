@@ -0,0 +1,171 @@
+import { useEffect, useRef } from 'react';
+import { Canvas, FabricImage, FabricText, Group, Point, util } from 'fabric';
+import type { PlacedSignature } from '@/types/pdf';
+import { DEFAULT_FONT_FAMILY, getFontOption } from '@/utils/fonts';
+import { signatureImageURL } from '@/utils/signatureStore';
+import { STAMP_FONT_RATIO, STAMP_GAP_RATIO } from '@/utils/signatures';
+
+interface SignatureLayerProps {
+  width: number;
+  height: number;
+  // Canvas pixels per PDF point
+  scale: number;
+  signatures: PlacedSignature[];
+  // Outside the signature mode the layer only shows the signatures
+  interactive: boolean;
+  onChange: (signatures: PlacedSignature[]) => void;
+}
+
+// The signature each group was built from; its geometry is read back from Fabric
+const placements = new WeakMap<Group, PlacedSignature>();
+
+// Builds a group of the image and its stamp, turned about the image centre.
+async function createSignatureGroup(signature: PlacedSignature, size: { width: number; height: number }, scale: number): Promise<Group> {
+  const url = signatureImageURL(signature.image);
+  let image: FabricImage;
+  try {
+    image = await FabricImage.fromURL(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const width = signature.width * scale;
+  const height = signature.height * scale;
+  const center = new Point(signature.x * size.width, signature.y * size.height);
+  image.set({
+    originX: 'center',
+    originY: 'center',
+    left: center.x,
+    top: center.y,
+    scaleX: width / image.width,
+    scaleY: height / image.height,
+  });
+  const objects: (FabricImage | FabricText)[] = [image];
+  if (signature.stamp) {
+    objects.push(new FabricText(signature.stamp, {
+      left: center.x - width / 2,
+      top: center.y + height / 2 + height * STAMP_GAP_RATIO,
+      fontSize: height * STAMP_FONT_RATIO,
+      fontFamily: getFontOption(DEFAULT_FONT_FAMILY).cssFamily,
+      lineHeight: 1,
+      fill: '#000000',
+    }));
+  }
+
+  const group = new Group(objects, { lockSkewingX: true, lockSkewingY: true, lockScalingFlip: true });
+  // Corner handles scale evenly; the side handles would stretch the signature
+  group.setControlsVisibility({ ml: false, mr: false, mt: false, mb: false });
+  // The group turns about its own centre, so move it to keep the image centre in place
+  const offset = group.getCenterPoint().subtract(center);
+  group.set({ angle: -signature.rotation });
+  group.setPositionByOrigin(center.add(offset.rotate(util.degreesToRadians(-signature.rotation))), 'center', 'center');
+  group.setCoords();
+  placements.set(group, signature);
+  return group;
+}
+
+// Reads the image geometry back out of a group that may have been moved, scaled or turned.
+function readSignature(group: Group, size: { width: number; height: number }, scale: number): PlacedSignature {
+  const signature = placements.get(group)!;
+  const image = group.getObjects()[0];
+  const matrix = image.calcTransformMatrix();
+  const center = new Point(0, 0).transform(matrix);
+  return {
+    ...signature,
+    x: center.x / size.width,
+    y: center.y / size.height,
+    width: image.width * Math.hypot(matrix[0], matrix[1]) / scale,
+    height: image.height * Math.hypot(matrix[2], matrix[3]) / scale,
+    rotation: -util.radiansToDegrees(Math.atan2(matrix[1], matrix[0])),
+  };
+}
+
+/**
+ * Fabric.js canvas showing the page's signatures. In the signature mode they
+ * can be moved, scaled and turned; every edit is reported through `onChange`.
+ */
+export function SignatureLayer({ width, height, scale, signatures, interactive, onChange }: SignatureLayerProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<Canvas | null>(null);
+  const reportedRef = useRef<PlacedSignature[] | null>(null);
+  const propsRef = useRef({ scale, signatures, interactive, onChange });
+  propsRef.current = { scale, signatures, interactive, onChange };
+
+  const report = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const size = { width: canvas.width, height: canvas.height };
+    const next = canvas.getObjects().map(object => readSignature(object as Group, size, propsRef.current.scale));
+    reportedRef.current = next;
+    propsRef.current.onChange(next);
+  };
+
+  // Images load asynchronously, so a newer load supersedes an unfinished one
+  const loadVersion = useRef(0);
+  const loadSignatures = async (canvas: Canvas, next: PlacedSignature[]) => {
+    const version = ++loadVersion.current;
+    reportedRef.current = next;
+    try {
+      const size = { width: canvas.width, height: canvas.height };
+      const groups = await Promise.all(next.map(signature => createSignatureGroup(signature, size, propsRef.current.scale)));
+      if (version !== loadVersion.current || canvasRef.current !== canvas) return;
+      canvas.clear();
+      for (const group of groups) {
+        group.set({ selectable: propsRef.current.interactive, evented: propsRef.current.interactive });
+        canvas.add(group);
+      }
+    } catch (error) {
+      console.error('Failed to load signature images:', error);
+    }
+  };
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const element = document.createElement('canvas');
+    wrapper.appendChild(element);
+    const canvas = new Canvas(element, { width, height, preserveObjectStacking: true, selection: false });
+    canvasRef.current = canvas;
+    loadSignatures(canvas, propsRef.current.signatures);
+    canvas.on('object:modified', report);
+
+    return () => {
+      canvasRef.current = null;
+      canvas.dispose().then(() => element.remove());
+    };
+  }, [width, height]);
+
+  // Reload when the signatures change from outside, e.g. placing one or undo
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (canvas && signatures !== reportedRef.current) loadSignatures(canvas, signatures);
+  }, [signatures]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.forEachObject(object => object.set({ selectable: interactive, evented: interactive }));
+    if (!interactive) canvas.discardActiveObject();
+    canvas.requestRenderAll();
+  }, [interactive]);
+
+  // Delete or Backspace removes the selected signature, unless a text field has focus
+  useEffect(() => {
+    if (!interactive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const canvas = canvasRef.current;
+      if (!canvas || (e.key !== 'Delete' && e.key !== 'Backspace')) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const selected = canvas.getActiveObject();
+      if (!selected) return;
+      e.preventDefault();
+      canvas.discardActiveObject();
+      canvas.remove(selected);
+      report();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [interactive]);
+
+  return <div ref={wrapperRef} className={interactive ? 'absolute inset-0' : 'absolute inset-0 pointer-events-none'} />;
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import type { PlacedSignature, SavedSignature, SignatureStampOption } from '@/types/pdf';
+import { signatureImageURL } from '@/utils/signatureStore';
+
+interface SignaturePanelProps {
+  saved: SavedSignature[];
+  placed: PlacedSignature[];
+  stampOption: SignatureStampOption;
+  signerName: string;
+  onStampOptionChange: (option: SignatureStampOption) => void;
+  onSignerNameChange: (name: string) => void;
+  onCreate: () => void;
+  onPlace: (signature: SavedSignature) => void;
+  onDelete: (id: string) => void;
+  onRemovePlaced: (id: string) => void;
+  onSave: () => void;
+}
+
+const STAMP_OPTIONS: { value: SignatureStampOption; label: string }[] = [
+  { value: 'none', label: '不加註' },
+  { value: 'date', label: '日期' },
+  { value: 'name', label: '姓名' },
+  { value: 'both', label: '姓名與日期' },
+];
+
+// Side panel of the signature mode: the saved signatures and the ones placed on this page.
+export function SignaturePanel({
+  saved,
+  placed,
+  stampOption,
+  signerName,
+  onStampOptionChange,
+  onSignerNameChange,
+  onCreate,
+  onPlace,
+  onDelete,
+  onRemovePlaced,
+  onSave,
+}: SignaturePanelProps) {
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls = Object.fromEntries(saved.map(signature => [signature.id, signatureImageURL(signature.image)]));
+    setPreviews(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [saved]);
+
+  const nameFor = (signatureId: string) => saved.find(s => s.id === signatureId)?.name ?? '簽名';
+
+  return (
+    <>
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold">我的簽名</h3>
+          <button onClick={onCreate} className="text-sm text-blue-600 hover:underline">+ 新增</button>
+        </div>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {saved.map(signature => (
+            <div key={signature.id} className="p-2 border rounded-lg">
+              <button
+                onClick={() => onPlace(signature)}
+                title="放置到此頁"
+                className="w-full h-14 flex items-center justify-center rounded hover:bg-blue-50 transition-colors"
+              >
+                {previews[signature.id] && (
+                  <img src={previews[signature.id]} alt={signature.name} className="max-h-full max-w-full" />
+                )}
+              </button>
+              <div className="flex items-center justify-between mt-1 text-xs">
+                <span className="text-gray-600 truncate">{signature.name}</span>
+                <button
+                  onClick={() => {
+                    if (confirm(`刪除簽名「${signature.name}」？`)) onDelete(signature.id);
+                  }}
+                  className="text-red-500 hover:underline shrink-0"
+                >
+                  刪除
+                </button>
+              </div>
+            </div>
+          ))}
+          {saved.length === 0 && (
+            <p className="text-xs text-gray-400">尚無簽名，點「新增」手寫、輸入或上傳</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center gap-2">
+          <label className="w-12 text-gray-600">加註</label>
+          <select
+            value={stampOption}
+            onChange={(e) => onStampOptionChange(e.target.value as SignatureStampOption)}
+            className="flex-1 px-2 py-1 border rounded"
+          >
+            {STAMP_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {(stampOption === 'name' || stampOption === 'both') && (
+          <div className="flex items-center gap-2">
+            <label className="w-12 text-gray-600">姓名</label>
+            <input
+              type="text"
+              value={signerName}
+              onChange={(e) => onSignerNameChange(e.target.value)}
+              placeholder="簽署人姓名"
+              className="flex-1 min-w-0 px-2 py-1 border rounded"
+            />
+          </div>
+        )}
+        <p className="text-xs text-gray-500">點選簽名放置到頁面，拖曳角落縮放、上方控點旋轉，按 Delete 移除</p>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">此頁簽名 ({placed.length})</h3>
+        <div className="space-y-1">
+          {placed.map(signature => (
+            <div key={signature.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-xs">
+              <span className="truncate">
+                {nameFor(signature.signatureId)}
+                {signature.stamp && <span className="text-gray-400"> · {signature.stamp}</span>}
+              </span>
+              <button onClick={() => onRemovePlaced(signature.id)} className="text-red-500 hover:underline shrink-0">移除</button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={onSave}
+          className="w-full mt-3 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+        >
+          保存簽名
+        </button>
+      </div>
+    </>
+  );
+}
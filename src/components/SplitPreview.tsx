@@ -0,0 +1,66 @@
+import type { RangeParseResult } from '@/types/pdf';
+import { formatPageIndices } from '@/utils/pdfUtils';
+
+interface SplitPreviewProps {
+  input: string;
+  result: RangeParseResult;
+  fileName: string;
+}
+
+const MAX_PREVIEW_FILES = 12;
+
+// Splits the input into plain and erroneous segments for highlighting.
+function getSegments(input: string, result: RangeParseResult) {
+  const segments: { text: string; error?: string }[] = [];
+  let offset = 0;
+  for (const error of result.errors) {
+    if (error.start > offset) segments.push({ text: input.slice(offset, error.start) });
+    segments.push({ text: input.slice(error.start, error.end), error: error.message });
+    offset = error.end;
+  }
+  if (offset < input.length) segments.push({ text: input.slice(offset) });
+  return segments;
+}
+
+export function SplitPreview({ input, result, fileName }: SplitPreviewProps) {
+  if (result.errors.length > 0) {
+    return (
+      <div className="mt-2 text-sm">
+        <div className="font-mono px-3 py-1.5 bg-gray-50 border rounded-lg whitespace-pre-wrap break-all">
+          {getSegments(input, result).map((segment, i) => segment.error ? (
+            <mark key={i} title={segment.error} className="bg-red-200 text-red-800 rounded px-0.5">
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={i}>{segment.text}</span>
+          ))}
+        </div>
+        <ul className="mt-1 text-xs text-red-600 space-y-0.5">
+          {result.errors.map((error, i) => (
+            <li key={i}>第 {error.start + 1} 個字元：{error.message}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const shown = result.rules.slice(0, MAX_PREVIEW_FILES);
+  return (
+    <div className="mt-2 text-xs text-gray-600">
+      <span className="font-medium">將產生 {result.rules.length} 個檔案：</span>
+      <div className="mt-1 flex flex-wrap gap-1.5">
+        {shown.map((rule, i) => (
+          <span key={i} className="px-2 py-0.5 bg-orange-50 border border-orange-200 rounded">
+            {fileName}_{String(i + 1).padStart(3, '0')}.pdf · 第 {formatPageIndices(rule.pageIndices)} 頁
+            （{rule.pageIndices.length} 頁）
+          </span>
+        ))}
+        {result.rules.length > shown.length && (
+          <span className="px-2 py-0.5 text-gray-400">
+            …另有 {result.rules.length - shown.length} 個檔案
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
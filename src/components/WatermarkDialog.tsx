@@ -0,0 +1,333 @@
+import { useMemo, useRef, useState } from 'react';
+import type { FontOption, Watermark, WatermarkPosition } from '@/types/pdf';
+import { DEFAULT_FONT_FAMILY } from '@/utils/fonts';
+import { prepareImage } from '@/utils/imageImport';
+import { expandMergeRules, parseMergeRules } from '@/utils/pdfUtils';
+import { cn } from '@/utils/cn';
+
+interface WatermarkDialogProps {
+  fontOptions: FontOption[];
+  pageCount: number;
+  selectedIndices: number[];
+  onApply: (watermark: Watermark, pageIndices: number[]) => void;
+  onClose: () => void;
+}
+
+type Target = 'selected' | 'range' | 'all';
+
+const POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'top-left', label: '左上' }, { value: 'top', label: '上方' }, { value: 'top-right', label: '右上' },
+  { value: 'left', label: '左側' }, { value: 'center', label: '置中' }, { value: 'right', label: '右側' },
+  { value: 'bottom-left', label: '左下' }, { value: 'bottom', label: '下方' }, { value: 'bottom-right', label: '右下' },
+];
+
+export function WatermarkDialog({ fontOptions, pageCount, selectedIndices, onApply, onClose }: WatermarkDialogProps) {
+  const [watermark, setWatermark] = useState<Watermark>(() => ({
+    id: crypto.randomUUID(),
+    kind: 'text',
+    text: 'CONFIDENTIAL',
+    fontFamily: DEFAULT_FONT_FAMILY,
+    fontSize: 60,
+    color: '#ff0000',
+    imageScale: 0.3,
+    opacity: 0.3,
+    rotation: 45,
+    tiled: false,
+    position: 'center',
+    layer: 'front',
+  }));
+  const [target, setTarget] = useState<Target>(selectedIndices.length > 0 ? 'selected' : 'all');
+  const [range, setRange] = useState('');
+  const [imageError, setImageError] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<Watermark>) => {
+    setWatermark(prev => ({ ...prev, ...changes }));
+  };
+
+  const rangeResult = useMemo(() => parseMergeRules(range, pageCount), [range, pageCount]);
+
+  const pageIndices = useMemo(() => {
+    if (target === 'selected') return selectedIndices;
+    if (target === 'all') return Array.from({ length: pageCount }, (_, i) => i);
+    return Array.from(new Set(expandMergeRules(rangeResult.rules))).sort((a, b) => a - b);
+  }, [target, selectedIndices, pageCount, rangeResult]);
+
+  const rangeError = target === 'range' ? rangeResult.errors[0]?.message : undefined;
+  const canApply = pageIndices.length > 0
+    && !rangeError
+    && (watermark.kind === 'text' ? watermark.text.trim() !== '' : !!watermark.image);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      update({ image: await prepareImage(file, 0.92) });
+      setImageError(false);
+    } catch (error) {
+      console.error('Failed to load watermark image:', error);
+      setImageError(true);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden">
+        <div className="p-4 border-b bg-gray-50 flex items-center justify-between">
+          <h2 className="font-semibold text-lg">浮水印</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm max-h-[70vh] overflow-y-auto">
+          <div className="flex gap-2">
+            {(['text', 'image'] as const).map(kind => (
+              <button
+                key={kind}
+                onClick={() => update({ kind })}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg font-medium transition-colors',
+                  watermark.kind === kind ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                )}
+              >
+                {kind === 'text' ? '文字' : '圖片'}
+              </button>
+            ))}
+          </div>
+
+          {watermark.kind === 'text' ? (
+            <>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">文字</label>
+                <input
+                  type="text"
+                  value={watermark.text}
+                  onChange={(e) => update({ text: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label className="block font-medium text-gray-700 mb-1">字型</label>
+                  <select
+                    value={watermark.fontFamily}
+                    onChange={(e) => update({ fontFamily: e.target.value })}
+                    className="w-full px-2 py-1.5 border rounded-lg"
+                  >
+                    {fontOptions.map(option => (
+                      <option key={option.family} value={option.family}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block font-medium text-gray-700 mb-1">顏色</label>
+                  <input
+                    type="color"
+                    value={watermark.color}
+                    onChange={(e) => update({ color: e.target.value })}
+                    className="w-full h-8 rounded cursor-pointer"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">字體大小: {watermark.fontSize}pt</label>
+                <input
+                  type="range"
+                  min={8}
+                  max={200}
+                  value={watermark.fontSize}
+                  onChange={(e) => update({ fontSize: parseInt(e.target.value, 10) })}
+                  className="w-full"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={handleImageChange}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => imageInputRef.current?.click()}
+                  className="px-3 py-1.5 border rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                  選擇圖片
+                </button>
+                <span className={cn('truncate', imageError ? 'text-red-500' : 'text-gray-500')}>
+                  {imageError ? '無法讀取圖片' : watermark.image?.name ?? '尚未選擇 (PNG/JPG)'}
+                </span>
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">
+                  寬度: 頁面的 {Math.round(watermark.imageScale * 100)}%
+                </label>
+                <input
+                  type="range"
+                  min={5}
+                  max={100}
+                  value={Math.round(watermark.imageScale * 100)}
+                  onChange={(e) => update({ imageScale: parseInt(e.target.value, 10) / 100 })}
+                  className="w-full"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">
+                不透明度: {Math.round(watermark.opacity * 100)}%
+              </label>
+              <input
+                type="range"
+                min={5}
+                max={100}
+                step={5}
+                value={Math.round(watermark.opacity * 100)}
+                onChange={(e) => update({ opacity: parseInt(e.target.value, 10) / 100 })}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">旋轉: {watermark.rotation}°</label>
+              <input
+                type="range"
+                min={-180}
+                max={180}
+                step={5}
+                value={watermark.rotation}
+                onChange={(e) => update({ rotation: parseInt(e.target.value, 10) })}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-6">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">位置</label>
+              <div className={cn('grid grid-cols-3 gap-1 w-24', watermark.tiled && 'opacity-40')}>
+                {POSITIONS.map(position => (
+                  <button
+                    key={position.value}
+                    onClick={() => update({ position: position.value })}
+                    disabled={watermark.tiled}
+                    title={position.label}
+                    className={cn(
+                      'h-7 border rounded transition-colors',
+                      watermark.position === position.value ? 'bg-blue-500 border-blue-500' : 'hover:bg-gray-100'
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={watermark.tiled}
+                  onChange={(e) => update({ tiled: e.target.checked })}
+                />
+                平鋪整頁
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="watermark-layer"
+                  checked={watermark.layer === 'front'}
+                  onChange={() => update({ layer: 'front' })}
+                />
+                置於內容之前
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="watermark-layer"
+                  checked={watermark.layer === 'behind'}
+                  onChange={() => update({ layer: 'behind' })}
+                />
+                置於內容之後
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">套用頁面</label>
+            <div className="flex items-center gap-4 flex-wrap">
+              <label className={cn('flex items-center gap-2', selectedIndices.length === 0 && 'opacity-50')}>
+                <input
+                  type="radio"
+                  name="watermark-target"
+                  checked={target === 'selected'}
+                  disabled={selectedIndices.length === 0}
+                  onChange={() => setTarget('selected')}
+                />
+                已選頁面 ({selectedIndices.length})
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="watermark-target"
+                  checked={target === 'range'}
+                  onChange={() => setTarget('range')}
+                />
+                頁面範圍
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="watermark-target"
+                  checked={target === 'all'}
+                  onChange={() => setTarget('all')}
+                />
+                整份文件 ({pageCount})
+              </label>
+            </div>
+            {target === 'range' && (
+              <>
+                <input
+                  type="text"
+                  value={range}
+                  onChange={(e) => setRange(e.target.value)}
+                  placeholder="例如: 1-3,odd,!2"
+                  className={cn('mt-2 w-full px-3 py-1.5 border rounded-lg', rangeError && 'border-red-400 bg-red-50')}
+                />
+                {rangeError && <p className="text-xs text-red-500 mt-1">{rangeError}</p>}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex items-center justify-between">
+          <span className="text-sm text-gray-600">將套用到 {pageIndices.length} 頁</span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              取消
+            </button>
+            <button
+              onClick={() => onApply(watermark, pageIndices)}
+              disabled={!canApply}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              套用
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
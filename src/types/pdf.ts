@@ -1,25 +1,36 @@
 export interface PDFPageData {
+  /** Index of the page in the document's original bytes, or in `source` when set. */
   pageIndex: number;
+  /** Bytes the page was inserted from, for pages that came from another document. */
+  source?: PageSource;
   rotation: number;
-  thumbnail?: string;
   selected: boolean;
   textAnnotations: TextAnnotation[];
   cropBox?: CropBox;
+  watermarks?: Watermark[];
+  stamps?: PageStamp[];
+  markups?: MarkupAnnotation[];
+  drawing?: PageDrawing;
+  signatures?: PlacedSignature[];
 }
 
 export interface TextAnnotation {
   id: string;
   text: string;
+  // Top-left of the text as fractions of the page as displayed
   x: number;
   y: number;
+  /** PDF points. */
   fontSize: number;
   fontFamily: string;
   color: string;
+  /** Counter-clockwise degrees, relative to the page as displayed. */
   rotation: number;
   width: number;
   height: number;
 }
 
+/** Crop rectangle expressed as fractions (0-1) of the page's full size. */
 export interface CropBox {
   x: number;
   y: number;
@@ -27,24 +38,325 @@ export interface CropBox {
   height: number;
 }
 
+export type MarkupType = 'highlight' | 'underline' | 'strikeout' | 'note';
+
+/** A review annotation; boxes are fractions (0-1) of the page as displayed. */
+export interface MarkupAnnotation {
+  id: string;
+  type: MarkupType;
+  // One box per marked text run; a note has a single zero-size box at its icon
+  rects: CropBox[];
+  color: string;
+  author: string;
+  /** ISO 8601. */
+  date: string;
+  comment: string;
+  // Text the markup covers
+  text: string;
+  /** Counter-clockwise degrees of the marked text, relative to the page as displayed; 0 when omitted. */
+  rotation?: number;
+}
+
+export type DrawingKind = 'ink' | 'rect' | 'ellipse' | 'line' | 'arrow';
+export type DrawingTool = 'select' | 'pen' | 'highlighter' | 'rect' | 'ellipse' | 'line' | 'arrow';
+
+/** A drawn shape; points are fractions (0-1) of the page as displayed. */
+export interface DrawingShape {
+  id: string;
+  kind: DrawingKind;
+  // Ink: the stroke's points. Rect/ellipse: two opposite corners. Line/arrow: start and end.
+  points: { x: number; y: number }[];
+  color: string;
+  /** Stroke width in PDF points. */
+  width: number;
+  /** 0-1. */
+  opacity: number;
+}
+
+export interface PageDrawing {
+  shapes: DrawingShape[];
+  // Draw into the page content instead of adding Ink/Square/Circle/Line annotations
+  flatten: boolean;
+}
+
+/** A signature image kept in the browser for reuse. */
+export interface SavedSignature {
+  id: string;
+  name: string;
+  // Always a PNG, so strokes keep a transparent background
+  image: PreparedImage;
+  /** ISO 8601. */
+  createdAt: string;
+}
+
+/** A signature placed on a page; position and size are fractions (0-1) of the page as displayed. */
+export interface PlacedSignature {
+  id: string;
+  signatureId: string;
+  image: PreparedImage;
+  // Centre of the image, as fractions of the page as displayed
+  x: number;
+  y: number;
+  /** Image size in PDF points. */
+  width: number;
+  height: number;
+  /** Counter-clockwise degrees, relative to the page as displayed. */
+  rotation: number;
+  // Name/date text drawn under the signature, empty for none
+  stamp: string;
+}
+
+export type SignatureStampOption = 'none' | 'date' | 'name' | 'both';
+
+/** An annotation already in the file, as listed for review. */
+export interface AnnotationSummary {
+  subtype: string;
+  author: string;
+  /** ISO 8601, empty when unknown. */
+  date: string;
+  comment: string;
+}
+
+/** Area to black out, as fractions (0-1) of the page as displayed. */
+export interface RedactionMark extends CropBox {
+  id: string;
+  // Matched search text, for marks created from search hits
+  text?: string;
+}
+
+export type WatermarkPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface Watermark {
+  id: string;
+  kind: 'text' | 'image';
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  image?: PreparedImage;
+  /** Image width as a fraction of the visible page width. */
+  imageScale: number;
+  /** 0-1. */
+  opacity: number;
+  /** Counter-clockwise degrees, relative to the page as displayed. */
+  rotation: number;
+  // Repeat across the whole page instead of using `position`
+  tiled: boolean;
+  position: WatermarkPosition;
+  layer: 'front' | 'behind';
+}
+
+export type StampSlot =
+  | 'header-left' | 'header-center' | 'header-right'
+  | 'footer-left' | 'footer-center' | 'footer-right';
+
+/** Header/footer text for one page, with tokens already resolved. */
+export interface PageStamp {
+  id: string;
+  texts: Partial<Record<StampSlot, string>>;
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  /** Distance from the left/right and top/bottom edges, in points. */
+  marginX: number;
+  marginY: number;
+}
+
+export interface HeaderFooterSettings {
+  /** Templates per slot; supports {page}, {total}, {bates}, {filename} and {date}. */
+  templates: Record<StampSlot, string>;
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  /** Margins in millimetres. */
+  marginX: number;
+  marginY: number;
+  // Range expression applied to each document; empty means every page
+  range: string;
+  skipFirstPage: boolean;
+  scope: 'active' | 'all';
+  batesPrefix: string;
+  batesStart: number;
+  batesDigits: number;
+}
+
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown';
+
+/** Field values keyed by fully qualified field name; checkboxes use booleans. */
+export type FormValues = Record<string, string | boolean>;
+
+/** An AcroForm field of the original document. */
+export interface FormField {
+  name: string;
+  type: FormFieldType;
+  // Choices for radio groups and dropdowns
+  options: string[];
+  value: string | boolean;
+  readOnly: boolean;
+  multiline: boolean;
+}
+
+/** One widget of a form field, as fractions (0-1) of the page as displayed. */
+export interface FormWidget extends CropBox {
+  fieldName: string;
+  // The option a radio button selects
+  exportValue?: string;
+}
+
+/** Document properties; dates are ISO 8601 strings, empty when unset. */
+export interface DocumentMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string;
+  producer: string;
+  creationDate: string;
+  modificationDate: string;
+}
+
+export type EncryptionAlgorithm = 'aes-128' | 'aes-256';
+
+/** Password protection applied on export; a blank owner password is replaced by a random one. */
+export interface PDFProtection {
+  userPassword: string;
+  ownerPassword: string;
+  algorithm: EncryptionAlgorithm;
+  permissions: {
+    print: boolean;
+    copy: boolean;
+    modify: boolean;
+  };
+}
+
+export type OptimizePreset = 'screen' | 'ebook' | 'print';
+
+/** Images above `dpi` are downsampled and re-encoded as JPEG at `quality` (0-1). */
+export interface OptimizeSettings {
+  dpi: number;
+  quality: number;
+}
+
+/** A bookmark; `pageIndex` is zero-based, null when it has no destination. */
+export interface OutlineItem {
+  id: string;
+  title: string;
+  pageIndex: number | null;
+  children: OutlineItem[];
+}
+
+/** Search matches on one page; `pageIndex` is the page's current position. */
+export interface SearchHit {
+  docId: string;
+  pageIndex: number;
+  count: number;
+  // Text around the first match
+  snippet: string;
+}
+
+export interface PageSource {
+  id: string;
+  arrayBuffer: ArrayBuffer;
+}
+
+/**
+ * A recorded edit. Page positions refer to the page order at the time the
+ * operation was applied; they are only baked into the PDF on export.
+ */
+export type PageOperation =
+  | { type: 'rotate'; pageIndices: number[]; degrees: number }
+  | { type: 'delete'; pageIndices: number[] }
+  | { type: 'reorder'; newOrder: number[] }
+  | { type: 'crop'; pageIndex: number; cropBox: CropBox }
+  | { type: 'text'; pageIndex: number; annotations: TextAnnotation[] }
+  | { type: 'insert'; index: number; source: PageSource; pageCount: number }
+  | { type: 'watermark'; pageIndices: number[]; watermark: Watermark }
+  | { type: 'stamp'; stamps: { pageIndex: number; stamp: PageStamp }[] }
+  | { type: 'replace'; pageIndex: number; source: PageSource }
+  | { type: 'form'; values: FormValues; flatten: boolean }
+  | { type: 'metadata'; metadata: DocumentMetadata }
+  | { type: 'outline'; items: OutlineItem[] }
+  | { type: 'markup'; pageIndex: number; markups: MarkupAnnotation[] }
+  | { type: 'draw'; pageIndex: number; drawing: PageDrawing }
+  | { type: 'sign'; pageIndex: number; signatures: PlacedSignature[] };
+
 export interface PDFDocument {
   id: string;
   name: string;
+  /** File bytes the operations apply to: the original, until a redaction bakes the edits in. */
   arrayBuffer: ArrayBuffer;
+  operations: PageOperation[];
+  /** Info/XMP metadata as read when the file was opened. */
+  metadata: DocumentMetadata;
   pageCount: number;
   pages: PDFPageData[];
 }
 
+/** Edits on the open page that have not been saved into its operations yet. */
+export interface PendingPageEdits {
+  annotations: TextAnnotation[];
+  markups: MarkupAnnotation[];
+  shapes: DrawingShape[];
+  signatures: PlacedSignature[];
+}
+
+/** Editor state persisted with the workspace; `pending` belongs to the open page. */
+export interface WorkspaceSession {
+  documentIds: string[];
+  activeDocId: string | null;
+  activePageIndex: number | null;
+  selectedPages: string[];
+  pending: PendingPageEdits | null;
+  savedAt: string;
+}
+
+export interface Workspace {
+  documents: PDFDocument[];
+  session: WorkspaceSession;
+}
+
 export interface MergeRule {
+  // Zero-based page indices, in output order
+  pageIndices: number[];
+  // The expression the rule was parsed from, e.g. "4-9" or "odd"
+  source: string;
+  // Output file name, e.g. a bookmark title
+  name?: string;
+}
+
+export interface RangeParseError {
+  message: string;
+  // Character offsets of the offending part in the input
   start: number;
   end: number;
 }
 
+export interface RangeParseResult {
+  rules: MergeRule[];
+  errors: RangeParseError[];
+}
+
+export interface MergeSource {
+  buffer: ArrayBuffer | Uint8Array;
+  // Ranges copied in order; the whole document when omitted
+  ranges?: MergeRule[];
+  // Title of the top-level bookmark for this file
+  name?: string;
+}
+
+export interface TaskOptions {
+  onProgress?: (current: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
 export interface EditorState {
   documents: PDFDocument[];
   activeDocId: string | null;
   activePageIndex: number | null;
-  mode: 'view' | 'text' | 'crop';
+  mode: 'view' | 'text' | 'crop' | 'redact' | 'form' | 'markup' | 'draw' | 'sign';
   textSettings: TextSettings;
   selectedPages: Set<string>;
 }
@@ -54,3 +366,46 @@ export interface TextSettings {
   fontFamily: string;
   color: string;
 }
+
+export interface FontOption {
+  family: string;
+  label: string;
+  source: 'standard' | 'bundled' | 'custom';
+  /** CSS font-family used for canvas previews. */
+  cssFamily: string;
+  cjk: boolean;
+}
+
+export interface ImageImportSettings {
+  // One document per image, all images in one document, or append to the active document
+  target: 'separate' | 'combined' | 'insert';
+  pageSize: 'fit' | 'a4' | 'letter';
+  orientation: 'auto' | 'portrait' | 'landscape';
+  /** Margin on every side, in millimetres. */
+  margin: number;
+  /** JPEG re-encoding quality, 0-1. */
+  quality: number;
+}
+
+export interface PreparedImage {
+  name: string;
+  bytes: ArrayBuffer;
+  format: 'jpg' | 'png';
+  // Pixel size after applying EXIF orientation
+  width: number;
+  height: number;
+}
+
+export interface ImageExportSettings {
+  format: 'png' | 'jpeg' | 'webp';
+  /** Output resolution, 72-600. */
+  dpi: number;
+  /** Encoder quality for JPEG/WebP, 0-1. */
+  quality: number;
+  background: string;
+  // PNG/WebP only: leave the page background transparent
+  transparent: boolean;
+  /** File name without extension; supports {name}, {page} and {total}. */
+  fileNamePattern: string;
+  scope: 'selected' | 'all';
+}
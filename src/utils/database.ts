@@ -0,0 +1,58 @@
+// The app's IndexedDB database, shared by the signature and workspace stores.
+const DB_NAME = 'pdf-editor-tool';
+const DB_VERSION = 2;
+
+export const SIGNATURE_STORE = 'signatures';
+export const DOCUMENT_STORE = 'documents';
+// Holds a single record: the editor state of the saved workspace
+export const SESSION_STORE = 'session';
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) db.createObjectStore(SIGNATURE_STORE, { keyPath: 'id' });
+      if (event.oldVersion < 2) {
+        db.createObjectStore(DOCUMENT_STORE, { keyPath: 'id' });
+        db.createObjectStore(SESSION_STORE);
+      }
+    };
+    database = requestToPromise(request).then(db => {
+      // Let a newer version opened in another tab upgrade the database
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      return db;
+    });
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  use: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return await requestToPromise(use(db.transaction(storeName, mode).objectStore(storeName)));
+}
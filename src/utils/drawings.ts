@@ -0,0 +1,151 @@
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFString,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from 'pdf-lib';
+import type { DrawingKind, DrawingShape, PageDrawing } from '@/types/pdf';
+import { PRINT_FLAG, formatNumber, formatPoint, hexToRgb, toPageSpace, type Point } from '@/utils/pdfUtils';
+
+const SUBTYPES: Record<DrawingKind, string> = {
+  ink: 'Ink',
+  rect: 'Square',
+  ellipse: 'Circle',
+  line: 'Line',
+  arrow: 'Line',
+};
+
+// Bezier control distance for a quarter ellipse
+const KAPPA = 0.5523;
+
+/** Arrowhead side length for a stroke width, in the same units. */
+export function arrowHeadLength(width: number): number {
+  return Math.max(8, width * 4);
+}
+
+/** The two ends of the arrowhead barbs at `end`, 30° either side of the shaft. */
+export function arrowHeadPoints(start: Point, end: Point, length: number): [Point, Point] {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const barb = (offset: number) => ({
+    x: end.x - length * Math.cos(angle + offset),
+    y: end.y - length * Math.sin(angle + offset),
+  });
+  return [barb(Math.PI / 6), barb(-Math.PI / 6)];
+}
+
+// Path operators for a shape whose display-space points are mapped by `map`.
+function buildPath(shape: DrawingShape, points: Point[], map: (point: Point) => Point): string {
+  if (shape.kind === 'rect' || shape.kind === 'ellipse') {
+    const [a, b] = points;
+    const left = Math.min(a.x, b.x);
+    const right = Math.max(a.x, b.x);
+    const top = Math.min(a.y, b.y);
+    const bottom = Math.max(a.y, b.y);
+
+    if (shape.kind === 'rect') {
+      const corners = [{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }].map(map);
+      return `${formatPoint(corners[0])} m ${corners.slice(1).map(corner => `${formatPoint(corner)} l`).join(' ')} h S`;
+    }
+
+    // Four Bezier quarters; the mapping is affine, so mapped control points stay exact
+    const cx = (left + right) / 2;
+    const cy = (top + bottom) / 2;
+    const rx = (right - left) / 2;
+    const ry = (bottom - top) / 2;
+    const p = (x: number, y: number) => formatPoint(map({ x: cx + x * rx, y: cy + y * ry }));
+    return [
+      `${p(1, 0)} m`,
+      `${p(1, KAPPA)} ${p(KAPPA, 1)} ${p(0, 1)} c`,
+      `${p(-KAPPA, 1)} ${p(-1, KAPPA)} ${p(-1, 0)} c`,
+      `${p(-1, -KAPPA)} ${p(-KAPPA, -1)} ${p(0, -1)} c`,
+      `${p(KAPPA, -1)} ${p(1, -KAPPA)} ${p(1, 0)} c`,
+      'S',
+    ].join(' ');
+  }
+
+  const mapped = points.map(map);
+  let path = `${formatPoint(mapped[0])} m ${mapped.slice(1).map(point => `${formatPoint(point)} l`).join(' ')}`;
+  if (shape.kind === 'arrow') {
+    const [start, end] = mapped;
+    const [barbA, barbB] = arrowHeadPoints(start, end, arrowHeadLength(shape.width));
+    path += ` ${formatPoint(barbA)} m ${formatPoint(end)} l ${formatPoint(barbB)} l`;
+  }
+  return `${path} S`;
+}
+
+/**
+ * Adds the page's drawing either as Ink, Square, Circle and Line annotations
+ * that stay editable, or flattened into the page content as vector paths.
+ * Both use the same appearance stream, drawn in page space.
+ */
+export function addPageDrawing(pdfDoc: PDFDocument, page: PDFPage, drawing: PageDrawing | undefined): void {
+  if (!drawing || drawing.shapes.length === 0) return;
+
+  const { context } = pdfDoc;
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation % 180 !== 0;
+  const displayWidth = sideways ? box.height : box.width;
+  const displayHeight = sideways ? box.width : box.height;
+  // Fractions measured from the top-left to page space
+  const toPage = (point: Point) => toPageSpace(box, rotation, point.x * displayWidth, (1 - point.y) * displayHeight);
+
+  for (const [i, shape] of drawing.shapes.entries()) {
+    if (shape.points.length < 2) continue;
+    const { red, green, blue } = hexToRgb(shape.color);
+    const mapped = shape.points.map(toPage);
+
+    // Leave room for the stroke and arrowhead around the geometry
+    const margin = shape.width / 2 + (shape.kind === 'arrow' ? arrowHeadLength(shape.width) : 0);
+    const rect = [
+      Math.min(...mapped.map(point => point.x)) - margin,
+      Math.min(...mapped.map(point => point.y)) - margin,
+      Math.max(...mapped.map(point => point.x)) + margin,
+      Math.max(...mapped.map(point => point.y)) + margin,
+    ];
+
+    const content = [
+      '/GS0 gs 1 J 1 j',
+      `${formatNumber(shape.width)} w`,
+      `${formatNumber(red)} ${formatNumber(green)} ${formatNumber(blue)} RG`,
+      buildPath(shape, shape.points, toPage),
+    ].join('\n');
+    const appearance = context.register(context.stream(content, {
+      Type: 'XObject',
+      Subtype: 'Form',
+      BBox: rect,
+      Resources: { ExtGState: { GS0: { Type: 'ExtGState', CA: shape.opacity, ca: shape.opacity } } },
+    }));
+
+    if (drawing.flatten) {
+      const name = page.node.newXObject(`Drawing${i}`, appearance);
+      page.pushOperators(pushGraphicsState(), drawObject(name), popGraphicsState());
+      continue;
+    }
+
+    const annotation = context.obj({
+      Type: 'Annot',
+      Subtype: SUBTYPES[shape.kind],
+      Rect: rect,
+      C: [red, green, blue],
+      CA: shape.opacity,
+      BS: { W: shape.width },
+      F: PRINT_FLAG,
+      P: page.ref,
+      NM: PDFHexString.fromText(shape.id),
+      M: PDFString.fromDate(new Date()),
+      AP: { N: appearance },
+    });
+    if (shape.kind === 'ink') {
+      annotation.set(PDFName.of('InkList'), context.obj([mapped.flatMap(point => [point.x, point.y])]));
+    } else if (shape.kind === 'line' || shape.kind === 'arrow') {
+      annotation.set(PDFName.of('L'), context.obj(mapped.slice(0, 2).flatMap(point => [point.x, point.y])));
+      if (shape.kind === 'arrow') annotation.set(PDFName.of('LE'), context.obj(['None', 'OpenArrow']));
+    }
+    page.node.addAnnot(context.register(annotation));
+  }
+}
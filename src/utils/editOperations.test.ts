@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import type { DrawingShape, MarkupAnnotation, PageOperation, PlacedSignature } from '@/types/pdf';
+import { applyOperations } from '@/utils/editOperations';
+
+// A highlight over the top-left text line of a 600×800 page: [0 720 300 800] in page space.
+const HIGHLIGHT: MarkupAnnotation = {
+  id: 'h1',
+  type: 'highlight',
+  rects: [{ x: 0, y: 0, width: 0.5, height: 0.1 }],
+  color: '#facc15',
+  author: '',
+  date: '2026-01-01T00:00:00.000Z',
+  comment: '',
+  text: 'Heading',
+};
+
+// A stroke from (60, 700) to (180, 640) in page space.
+const STROKE: DrawingShape = {
+  id: 's1',
+  kind: 'ink',
+  points: [{ x: 0.1, y: 0.125 }, { x: 0.3, y: 0.2 }],
+  color: '#000000',
+  width: 2,
+  opacity: 1,
+};
+
+// A 100×50 pt signature centred at (300, 600) in page space.
+const SIGNATURE: PlacedSignature = {
+  id: 'p1',
+  signatureId: 'sig1',
+  image: {
+    name: 'signature.png',
+    bytes: Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='), char => char.charCodeAt(0)).buffer,
+    format: 'png',
+    width: 2,
+    height: 1,
+  },
+  x: 0.5,
+  y: 0.25,
+  width: 100,
+  height: 50,
+  rotation: 0,
+  stamp: '',
+};
+
+async function createPage(): Promise<ArrayBuffer> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([600, 800]);
+  const bytes = await pdfDoc.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function readNumbers(dict: PDFDict, key: string): number[] {
+  return dict.lookup(PDFName.of(key), PDFArray).asArray().map(value => (value as PDFNumber).asNumber());
+}
+
+async function exportAnnotation(operations: PageOperation[], subtype: string): Promise<PDFDict> {
+  const pdfDoc = await PDFDocument.load(await applyOperations(await createPage(), operations));
+  const annots = pdfDoc.getPage(0).node.Annots()!;
+  return annots.asArray()
+    .map(ref => pdfDoc.context.lookup(ref, PDFDict))
+    .find(dict => dict.get(PDFName.of('Subtype')) === PDFName.of(subtype))!;
+}
+
+// The transform each image is drawn with, from the page's content streams.
+async function exportImagePlacements(operations: PageOperation[]): Promise<number[][]> {
+  const pdfDoc = await PDFDocument.load(await applyOperations(await createPage(), operations));
+  const contents = pdfDoc.getPage(0).node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => pdfDoc.context.lookup(ref) as PDFRawStream)
+    : [contents as PDFRawStream];
+  const content = streams.map(stream => new TextDecoder().decode(decodePDFRawStream(stream).decode())).join('\n');
+  return [...content.matchAll(/\bq\s+((?:(?:\S+ ){6}cm\s+)+)\/\S+ Do/g)].map(match => {
+    // Each cm applies before the ones already in effect
+    const matrix = [...match[1].matchAll(/((?:\S+ ){6})cm/g)]
+      .map(cm => cm[1].trim().split(' ').map(Number))
+      .reduce(([a, b, c, d, e, f], [ma, mb, mc, md, me, mf]) => [
+        ma * a + mb * c, ma * b + mb * d,
+        mc * a + md * c, mc * b + md * d,
+        me * a + mf * c + e, me * b + mf * d + f,
+      ], [1, 0, 0, 1, 0, 0]);
+    // Rounding also folds -0 into 0
+    return matrix.map(value => Number(value.toFixed(3)) + 0);
+  });
+}
+
+async function exportHighlight(operations: PageOperation[]): Promise<{ rect: number[]; quadPoints: number[] }> {
+  const highlight = await exportAnnotation(operations, 'Highlight');
+  return { rect: readNumbers(highlight, 'Rect'), quadPoints: readNumbers(highlight, 'QuadPoints') };
+}
+
+describe('markups', () => {
+  const markup: PageOperation = { type: 'markup', pageIndex: 0, markups: [HIGHLIGHT] };
+
+  it('stays on its text after a later rotation', async () => {
+    for (const degrees of [90, 180, 270]) {
+      const { rect, quadPoints } = await exportHighlight([markup, { type: 'rotate', pageIndices: [0], degrees }]);
+      expect(rect).toEqual([0, 720, 300, 800]);
+      // Upper edge of the text first, whichever way the page is shown
+      expect(quadPoints).toEqual([0, 800, 300, 800, 0, 720, 300, 720]);
+    }
+  });
+
+  it('stays on its text after a later crop', async () => {
+    const { rect, quadPoints } = await exportHighlight([
+      markup,
+      { type: 'crop', pageIndex: 0, cropBox: { x: 0.25, y: 0.05, width: 0.5, height: 0.5 } },
+    ]);
+    expect(rect).toEqual([0, 720, 300, 800]);
+    expect(quadPoints).toEqual([0, 800, 300, 800, 0, 720, 300, 720]);
+  });
+
+  it('stays on its text through a rotation and a crop of the rotated page', async () => {
+    const { rect } = await exportHighlight([
+      markup,
+      { type: 'rotate', pageIndices: [0], degrees: 90 },
+      { type: 'crop', pageIndex: 0, cropBox: { x: 0.5, y: 0, width: 0.5, height: 1 } },
+    ]);
+    expect(rect).toEqual([0, 720, 300, 800]);
+  });
+});
+
+describe('drawings', () => {
+  const draw: PageOperation = { type: 'draw', pageIndex: 0, drawing: { shapes: [STROKE], flatten: false } };
+
+  it('stay where they were drawn through a later rotation and crop', async () => {
+    const ink = await exportAnnotation([
+      draw,
+      { type: 'rotate', pageIndices: [0], degrees: 270 },
+      { type: 'crop', pageIndex: 0, cropBox: { x: 0, y: 0, width: 0.5, height: 0.5 } },
+    ], 'Ink');
+    const inkList = ink.lookup(PDFName.of('InkList'), PDFArray).lookup(0, PDFArray);
+    const points = inkList.asArray().map(value => (value as PDFNumber).asNumber());
+    [60, 700, 180, 640].forEach((expected, i) => expect(points[i]).toBeCloseTo(expected));
+  });
+});
+
+describe('signatures', () => {
+  const sign: PageOperation = { type: 'sign', pageIndex: 0, signatures: [SIGNATURE] };
+
+  it('keep their place and size through a later rotation and crop', async () => {
+    const placed = await exportImagePlacements([sign]);
+    expect(placed).toEqual([[100, 0, 0, 50, 250, 575]]);
+    for (const degrees of [90, 180, 270]) {
+      expect(await exportImagePlacements([
+        sign,
+        { type: 'rotate', pageIndices: [0], degrees },
+        { type: 'crop', pageIndex: 0, cropBox: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 } },
+      ])).toEqual(placed);
+    }
+  });
+});
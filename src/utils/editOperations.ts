@@ -0,0 +1,375 @@
+import { PDFDocument, PDFName, PDFPage } from 'pdf-lib';
+import type { CropBox, OutlineItem, PDFDocument as PDFDocType, PDFPageData, PageOperation, TaskOptions } from '@/types/pdf';
+import {
+  initializePages,
+  drawTextAnnotations,
+  drawWatermark,
+  drawPageStamp,
+  createImageEmbedder,
+  setPageCrop,
+  rotatePageBy,
+  reportProgress,
+  removeUnreachableObjects,
+  detachPages,
+  type ImageEmbedder,
+} from '@/utils/pdfUtils';
+import { createFontEmbedder, type FontEmbedder } from '@/utils/fonts';
+import { fillFormFields, getFormState } from '@/utils/formFields';
+import { getEditedMetadata, stripDocumentMetadata, writeDocumentMetadata } from '@/utils/metadata';
+import { readOutline, remapOutline, writeOutline } from '@/utils/outline';
+import { addMarkupAnnotations } from '@/utils/markup';
+import { addPageDrawing } from '@/utils/drawings';
+import { drawPageSignatures } from '@/utils/signatures';
+
+const INHERITABLE_PAGE_ENTRIES = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+
+const sourceCache = new WeakMap<ArrayBuffer, Promise<PDFDocument>>();
+
+// Read-only pdf-lib copy of the original bytes, used as a copyPages source.
+function getSourceDocument(arrayBuffer: ArrayBuffer): Promise<PDFDocument> {
+  let cached = sourceCache.get(arrayBuffer);
+  if (!cached) {
+    cached = PDFDocument.load(arrayBuffer);
+    sourceCache.set(arrayBuffer, cached);
+  }
+  return cached;
+}
+
+function normalizeRotation(rotation: number): number {
+  return ((rotation % 360) + 360) % 360;
+}
+
+// Where a point of the displayed page, in fractions from the top-left, shows once the page turns clockwise.
+function turnPoint(point: { x: number; y: number }, degrees: number): { x: number; y: number } {
+  switch (normalizeRotation(degrees)) {
+    case 90:
+      return { x: 1 - point.y, y: point.x };
+    case 180:
+      return { x: 1 - point.x, y: 1 - point.y };
+    case 270:
+      return { x: point.y, y: 1 - point.x };
+    default:
+      return point;
+  }
+}
+
+// Moves a box into another frame through two opposite corners.
+function mapBox<T extends CropBox>(box: T, map: (point: { x: number; y: number }) => { x: number; y: number }): T {
+  const a = map({ x: box.x, y: box.y });
+  const b = map({ x: box.x + box.width, y: box.y + box.height });
+  return {
+    ...box,
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+/**
+ * Carries what was placed on the page as displayed into a new display frame,
+ * so it stays on the content it was placed on. `map` moves a point into the
+ * new frame and `turn` is how far the page turned clockwise.
+ */
+function moveOverlays(page: PDFPageData, map: (point: { x: number; y: number }) => { x: number; y: number }, turn: number): PDFPageData {
+  return {
+    ...page,
+    textAnnotations: page.textAnnotations.map(annotation => ({
+      ...annotation,
+      ...map(annotation),
+      rotation: normalizeRotation(annotation.rotation - turn),
+    })),
+    markups: page.markups?.map(markup => ({
+      ...markup,
+      rects: markup.rects.map(rect => mapBox(rect, map)),
+      rotation: normalizeRotation((markup.rotation ?? 0) - turn),
+    })),
+    signatures: page.signatures?.map(signature => ({
+      ...signature,
+      ...map(signature),
+      rotation: normalizeRotation(signature.rotation - turn),
+    })),
+    drawing: page.drawing && {
+      ...page.drawing,
+      shapes: page.drawing.shapes.map(shape => ({ ...shape, points: shape.points.map(map) })),
+    },
+  };
+}
+
+export function applyOperationToPages(pages: PDFPageData[], operation: PageOperation): PDFPageData[] {
+  switch (operation.type) {
+    case 'rotate':
+      return pages.map((page, i) => operation.pageIndices.includes(i)
+        ? {
+          ...moveOverlays(page, point => turnPoint(point, operation.degrees), operation.degrees),
+          rotation: normalizeRotation(page.rotation + operation.degrees),
+          // The crop was drawn on the page as displayed, so it turns with the page to keep the same region
+          cropBox: page.cropBox && mapBox(page.cropBox, point => turnPoint(point, operation.degrees)),
+        }
+        : page);
+    case 'delete':
+      return pages.filter((_, i) => !operation.pageIndices.includes(i));
+    case 'reorder':
+      return operation.newOrder.map(i => pages[i]);
+    case 'crop':
+      return pages.map((page, i) => {
+        if (i !== operation.pageIndex) return page;
+        // The new box is drawn on the already-cropped preview, so nest it in the previous one
+        const prev = page.cropBox ?? { x: 0, y: 0, width: 1, height: 1 };
+        const box = operation.cropBox;
+        return {
+          ...moveOverlays(page, point => ({ x: (point.x - box.x) / box.width, y: (point.y - box.y) / box.height }), 0),
+          cropBox: {
+            x: prev.x + box.x * prev.width,
+            y: prev.y + box.y * prev.height,
+            width: box.width * prev.width,
+            height: box.height * prev.height,
+          },
+        };
+      });
+    case 'text':
+      return pages.map((page, i) => i === operation.pageIndex
+        ? { ...page, textAnnotations: operation.annotations }
+        : page);
+    case 'markup':
+      return pages.map((page, i) => i === operation.pageIndex
+        ? { ...page, markups: operation.markups }
+        : page);
+    case 'draw':
+      return pages.map((page, i) => i === operation.pageIndex
+        ? { ...page, drawing: operation.drawing }
+        : page);
+    case 'sign':
+      return pages.map((page, i) => i === operation.pageIndex
+        ? { ...page, signatures: operation.signatures }
+        : page);
+    case 'insert': {
+      const inserted = initializePages(operation.pageCount).map(page => ({ ...page, source: operation.source }));
+      return [...pages.slice(0, operation.index), ...inserted, ...pages.slice(operation.index)];
+    }
+    case 'watermark':
+      return pages.map((page, i) => operation.pageIndices.includes(i)
+        ? { ...page, watermarks: [...(page.watermarks ?? []), operation.watermark] }
+        : page);
+    case 'stamp': {
+      const stamped = [...pages];
+      for (const { pageIndex, stamp } of operation.stamps) {
+        stamped[pageIndex] = { ...stamped[pageIndex], stamps: [...(stamped[pageIndex].stamps ?? []), stamp] };
+      }
+      return stamped;
+    }
+    case 'replace':
+      // The replacement already contains every earlier edit, so it starts fresh
+      return pages.map((page, i) => i === operation.pageIndex
+        ? { ...initializePages(1)[0], source: operation.source }
+        : page);
+    case 'form':
+    case 'metadata':
+    case 'outline':
+      // Form values, metadata and bookmarks belong to the document, not to individual pages
+      return pages;
+  }
+}
+
+// Where the page at `index` ends up after the operation, or null if it is removed.
+export function mapPageThroughOperation(operation: PageOperation, index: number): number | null {
+  switch (operation.type) {
+    case 'delete':
+      if (operation.pageIndices.includes(index)) return null;
+      return index - operation.pageIndices.filter(i => i < index).length;
+    case 'reorder': {
+      const position = operation.newOrder.indexOf(index);
+      return position === -1 ? null : position;
+    }
+    case 'insert':
+      return index >= operation.index ? index + operation.pageCount : index;
+    default:
+      return index;
+  }
+}
+
+/**
+ * Bookmarks after replaying the operations: outline edits replace the tree,
+ * and page moves and deletions carry its destinations along.
+ */
+export function replayOutline(original: OutlineItem[], operations: PageOperation[]): OutlineItem[] {
+  return operations.reduce((items, operation) => operation.type === 'outline'
+    ? operation.items
+    : remapOutline(items, index => mapPageThroughOperation(operation, index)), original);
+}
+
+export function applyOperationToDocument(doc: PDFDocType, operation: PageOperation): PDFDocType {
+  const pages = applyOperationToPages(doc.pages, operation);
+  return {
+    ...doc,
+    operations: [...doc.operations, operation],
+    pageCount: pages.length,
+    pages,
+  };
+}
+
+// Page order that moves `indices` (as a block, in order) in front of position `insertBefore`.
+export function computeMoveOrder(pageCount: number, indices: number[], insertBefore: number): number[] {
+  const moving = [...indices].sort((a, b) => a - b);
+  const remaining = Array.from({ length: pageCount }, (_, i) => i).filter(i => !moving.includes(i));
+  const position = insertBefore - moving.filter(i => i < insertBefore).length;
+  return [...remaining.slice(0, position), ...moving, ...remaining.slice(position)];
+}
+
+export function replayOperations(pageCount: number, operations: PageOperation[]): PDFPageData[] {
+  return operations.reduce(applyOperationToPages, initializePages(pageCount));
+}
+
+async function applyPageEdits(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  data: PDFPageData,
+  getFont: FontEmbedder,
+  getImage: ImageEmbedder
+): Promise<void> {
+  if (data.rotation !== 0) rotatePageBy(page, data.rotation);
+  if (data.cropBox) setPageCrop(page, data.cropBox);
+  for (const watermark of data.watermarks ?? []) {
+    await drawWatermark(pdfDoc, page, watermark, getFont, getImage);
+  }
+  for (const stamp of data.stamps ?? []) {
+    await drawPageStamp(page, stamp, getFont);
+  }
+  await drawTextAnnotations(pdfDoc, page, data.textAnnotations, getFont);
+  addMarkupAnnotations(pdfDoc, page, data.markups ?? []);
+  addPageDrawing(pdfDoc, page, data.drawing);
+  await drawPageSignatures(page, data.signatures ?? [], getFont, getImage);
+}
+
+/**
+ * Bakes every recorded operation into the original bytes with a single save.
+ * With `stripMetadata`, the output carries no Info dictionary or XMP packet.
+ */
+export async function applyOperations(
+  arrayBuffer: ArrayBuffer,
+  operations: PageOperation[],
+  options: TaskOptions = {},
+  stripMetadata: boolean = false
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(arrayBuffer, { updateMetadata: false });
+  const sourcePages = pdfDoc.getPages();
+  const pages = replayOperations(sourcePages.length, operations);
+  const getFont = createFontEmbedder(pdfDoc);
+  const getImage = createImageEmbedder(pdfDoc);
+
+  // Fields live on the original pages, so fill them before pages move around
+  if (operations.some(operation => operation.type === 'form')) {
+    const { values, flattened } = getFormState(operations);
+    await fillFormFields(pdfDoc, values, flattened, getFont);
+  }
+  const metadata = getEditedMetadata(operations);
+  if (metadata) writeDocumentMetadata(pdfDoc, metadata);
+  // Destinations reference the original pages, so read them before restructuring
+  const outline = replayOutline(readOutline(pdfDoc), operations);
+
+  // Pages inserted from other documents are copied in once per source
+  const insertedPages = new Map<string, PDFPage[]>();
+  for (const data of pages) {
+    if (!data.source || insertedPages.has(data.source.id)) continue;
+    const sourcePdf = await PDFDocument.load(data.source.arrayBuffer);
+    insertedPages.set(data.source.id, await pdfDoc.copyPages(sourcePdf, sourcePdf.getPageIndices()));
+  }
+  const resolvePage = (data: PDFPageData) => data.source
+    ? insertedPages.get(data.source.id)![data.pageIndex]
+    : sourcePages[data.pageIndex];
+
+  for (const [i, data] of pages.entries()) {
+    await applyPageEdits(pdfDoc, resolvePage(data), data, getFont, getImage);
+    await reportProgress(options, i + 1, pages.length);
+  }
+
+  const isIdentity = pages.length === sourcePages.length
+    && pages.every((data, i) => !data.source && data.pageIndex === i);
+  if (!isIdentity) {
+    // Pull inherited attributes onto each leaf so they survive leaving their page-tree node
+    for (const page of sourcePages) {
+      for (const key of INHERITABLE_PAGE_ENTRIES) {
+        const name = PDFName.of(key);
+        const value = page.node.getInheritableAttribute(name);
+        if (value) page.node.set(name, value);
+      }
+    }
+
+    // Form fields and tagged content of dropped originals (e.g. redacted pages) must go with them
+    const keptPages = new Set(pages.map(data => resolvePage(data).ref));
+    detachPages(pdfDoc, new Set(sourcePages.map(page => page.ref).filter(ref => !keptPages.has(ref))));
+
+    for (let i = sourcePages.length - 1; i >= 0; i--) {
+      pdfDoc.removePage(i);
+    }
+    pages.forEach((data, i) => {
+      pdfDoc.insertPage(i, resolvePage(data));
+    });
+  }
+  if (!isIdentity || operations.some(operation => operation.type === 'outline')) {
+    writeOutline(pdfDoc, outline);
+    // Dropped pages (e.g. redacted originals) and old bookmarks must not survive as orphaned objects
+    removeUnreachableObjects(pdfDoc);
+  }
+  if (stripMetadata) stripDocumentMetadata(pdfDoc);
+
+  // Filled fields already have new appearances; regenerating the rest would replace the document's own
+  return await pdfDoc.save({ updateFieldAppearances: false });
+}
+
+export async function bakePage(
+  arrayBuffer: ArrayBuffer,
+  data: PDFPageData,
+  includeText: boolean = true
+): Promise<Uint8Array> {
+  const sourcePdf = await getSourceDocument(data.source?.arrayBuffer ?? arrayBuffer);
+  const pdfDoc = await PDFDocument.create();
+  const [page] = await pdfDoc.copyPages(sourcePdf, [data.pageIndex]);
+  pdfDoc.addPage(page);
+
+  await applyPageEdits(
+    pdfDoc,
+    page,
+    includeText ? data : { ...data, textAnnotations: [], markups: [], drawing: undefined, signatures: [] },
+    createFontEmbedder(pdfDoc),
+    createImageEmbedder(pdfDoc)
+  );
+
+  return await pdfDoc.save();
+}
+
+// Short label for history lists.
+export function describeOperation(operation: PageOperation): string {
+  switch (operation.type) {
+    case 'rotate':
+      return `旋轉 ${operation.pageIndices.length} 頁 ${operation.degrees > 0 ? '↷' : '↶'}`;
+    case 'delete':
+      return `刪除 ${operation.pageIndices.length} 頁`;
+    case 'reorder':
+      return '調整頁面順序';
+    case 'crop':
+      return `裁剪第 ${operation.pageIndex + 1} 頁`;
+    case 'text':
+      return `編輯第 ${operation.pageIndex + 1} 頁文字`;
+    case 'insert':
+      return `插入 ${operation.pageCount} 頁`;
+    case 'watermark':
+      return `浮水印 ${operation.pageIndices.length} 頁`;
+    case 'stamp':
+      return `頁首頁尾 ${operation.stamps.length} 頁`;
+    case 'replace':
+      return `塗黑第 ${operation.pageIndex + 1} 頁`;
+    case 'form':
+      return operation.flatten ? '填寫並平面化表單' : `填寫表單 ${Object.keys(operation.values).length} 個欄位`;
+    case 'metadata':
+      return '編輯文件屬性';
+    case 'outline':
+      return '編輯書籤';
+    case 'markup':
+      return `第 ${operation.pageIndex + 1} 頁註解`;
+    case 'draw':
+      return `第 ${operation.pageIndex + 1} 頁繪圖`;
+    case 'sign':
+      return `第 ${operation.pageIndex + 1} 頁簽名`;
+  }
+}
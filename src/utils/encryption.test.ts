@@ -0,0 +1,47 @@
+// Known-answer checks against R6 (AES-256) files written by qpdf 11.
+import { expect, test } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { PDFPasswordError, decryptPDF, encryptPDF } from '@/utils/encryption';
+
+// One page with the title "Reference R6"; user password "user6", owner password "owner6".
+// Each file needs a different number of hash rounds for one of the passwords, so an
+// off-by-one in the loop exit rejects the owner password of the first and the user
+// password of the second.
+const REFERENCE_FILES = [
+  'JVBERi0xLjcKJb/3ov4KMSAwIG9iago8PCAvRXh0ZW5zaW9ucyA8PCAvQURCRSA8PCAvQmFzZVZlcnNpb24gLzEuNyAvRXh0ZW5zaW9uTGV2ZWwgOCA+PiA+PiAvUGFnZXMgMyAwIFIgL1R5cGUgL0NhdGFsb2cgPj4KZW5kb2JqCjIgMCBvYmoKPDwgL1R5cGUgL09ialN0bSAvTGVuZ3RoIDM4NCAvRmlsdGVyIC9GbGF0ZURlY29kZSAvTiA0IC9GaXJzdCAyMSA+PgpzdHJlYW0KE8YOkdeDlen0NL9cO8AymZGIVFtdbc9ybY2DbPyKBM9N311/IgMvf0XpMwk2WA3LelBYMNpV31lT3eIeMf+mIb4Wii4f7ApYDOpP/MwDKzuJ1GePE5vLKj4lIBYUlyiUnnGm7tv0k3dGXsdya9mZphJKBQYdCeQYl1Bbao8+3vOnF82MqFHq46+WHLaFuPS3t6GfD+E7vZ6Pws83WLcswkl/scvI2sewcGQGe5ycn4ZG1tW8CiHLBUImbnWqBl5rLCsDBGXOxFZAT6519lZZjqj41snAHkQnFOF7SQgNAm843wYqVjpcml9g0iDBlrpJXWDEH88VmdkbMmBRlHKJ+P9kjo+hCCLu1E7Nbo0ECMYFh1BC40nognWKF+maVHByW4MQM4rkb8V1QHUzgVzPoIdm/EaZlVwAcf01iC4mw1BNv50tX1f6fMcyn4GvN7JlUmkcPH2AM7989+fDRt+5phC2r/VOvJQpD9UjlZOJfLOTCMg0QUzZ35xcHib3yKSFZW5kc3RyZWFtCmVuZG9iago3IDAgb2JqCjw8IC9GaWx0ZXIgL0ZsYXRlRGVjb2RlIC9MZW5ndGggMTI4ID4+CnN0cmVhbQoW4EdvUx0Rf3h+B8/L4e88OTNzeI0pNd97IG/txZOckRSZHRJfX5QdAM4uwoLFsI7KUdFZ9zZE/35duBafhB/USXh/uS4ghL7fz1GuL4er9KEqKf94VV0xkGBfZkyZcA+IhJkztfwU+FHx0BqGITKFJEzRRrD4OnjsZY382AIDZGVuZHN0cmVhbQplbmRvYmoKOCAwIG9iago8PCAvQ0YgPDwgL1N0ZENGIDw8IC9BdXRoRXZlbnQgL0RvY09wZW4gL0NGTSAvQUVTVjMgL0xlbmd0aCAzMiA+PiA+PiAvRmlsdGVyIC9TdGFuZGFyZCAvTGVuZ3RoIDI1NiAvTyA8ZDRhODg3N2Y4MWNmNWMyZmZmYWY2MmIwNGNiNThiYjBkZDcwNWM4NDYzYTBiMTA5ZGI5OWQyYzE4YmYzODQwOGY2YThlYTc2MWVkNDg4YTRjOWE2MTZhMmEyN2E4ZTJkPiAvT0UgPDRlNjI3OGNlZTUyYTk3ODM2MmZjNDhjY2ZmMTM1YTQxYTY5YzYxMDllMDA3N2I2ZmRiZWJmZDcwZWNjMjAyYmE+IC9QIC00IC9QZXJtcyA8YTU2NTA0ZjI5NDVlN2MzZWQ2OGRjMzRkYmI0NTNiYmM+IC9SIDYgL1N0bUYgL1N0ZENGIC9TdHJGIC9TdGRDRiAvVSA8NjUyODExMjMyZjZhNDk1NmQzYTlmZTlmYzg2ZDRiY2FiOGVkYjIwOTg1OTlkN2NhYWNlYjM4OTc0NWIyNTYyOTZmY2I3YWViMWRhMDM2MTY4M2Q1ZjAzYWYyYzEyMzAzPiAvVUUgPDJmZWMwMWMwM2MzNDdlYTdmYWUzZjdlNjAzMTNiZmFmNWMxNDExODg4N2U0MjQ5NDNhYTc1MzI0NmU4YWY3NGY+IC9WIDUgPj4KZW5kb2JqCjkgMCBvYmoKPDwgL1R5cGUgL1hSZWYgL0xlbmd0aCA0MiAvRmlsdGVyIC9GbGF0ZURlY29kZSAvRGVjb2RlUGFybXMgPDwgL0NvbHVtbnMgNCAvUHJlZGljdG9yIDEyID4+IC9XIFsgMSAyIDEgXSAvSW5mbyA0IDAgUiAvUm9vdCAxIDAgUiAvU2l6ZSAxMCAvSUQgWzw4YzgyZjIxYTFkMTg0ODE0ZTBmMmU2MjhmNWU3ZmIzZD48MzJiZTU2NmI2OGJmNTIyNGY3YzA5ODE4OTc5OTQwNGU+XSAvRW5jcnlwdCA4IDAgUiA+PgpzdHJlYW0KeJxjYgACJkYGfgYmBoZiEKsBxGJgRCL+M6X8ZWJgPA6UYFJmAABJWgRrCmVuZHN0cmVhbQplbmRvYmoKc3RhcnR4cmVmCjEzNjAKJSVFT0YK',
+  'JVBERi0xLjcKJb/3ov4KMSAwIG9iago8PCAvRXh0ZW5zaW9ucyA8PCAvQURCRSA8PCAvQmFzZVZlcnNpb24gLzEuNyAvRXh0ZW5zaW9uTGV2ZWwgOCA+PiA+PiAvUGFnZXMgMyAwIFIgL1R5cGUgL0NhdGFsb2cgPj4KZW5kb2JqCjIgMCBvYmoKPDwgL1R5cGUgL09ialN0bSAvTGVuZ3RoIDM4NCAvRmlsdGVyIC9GbGF0ZURlY29kZSAvTiA0IC9GaXJzdCAyMSA+PgpzdHJlYW0K/31PC1Hxjrjg9eyHuXhQ4DYHbk2bsYgnWj73s4xSwIqrhlr6jLuJhpKki1c0qvRLLAtkS+bEH8N7Xvl8y5C2Kte2hDbsxttt6TJxQIC68iaM6YpeBYYKYlC88Be5o/uXMUo8lAz34trfE+DHAd2qK8fWbO/YajvkboxQgt7fUAlGp8kJDQoVdB4eIh4DgO+8k1H4MaPI9gV9TZkwf7KQf5I8ukhl34qd5PeSVyS7ROSp8aKsuiJ2Ue7tRfIgtSflGQmgyMYFptjFUKrKCIVz5NRM74pYqi5XThI4iQVSEUzCutAL99cKo4zoAjpFWslaiWh9L7xoGTYyZophzDk9Fl2oCJobd3zi/ZqKXjbgXb4yxfiM/ilhTQ7bkdbuu+23YaIW5guMg3KiAd67AR+4AyAHN1aEoeg6+pKPYJKSF0VmkbbENgDgLcFRPAiTK/qxsER0IOqrehhDG1X3SUdxCwX9SaN7QTayUg/LEagrF9zwzuYcyqNc+sGclWv17tKmZW5kc3RyZWFtCmVuZG9iago3IDAgb2JqCjw8IC9GaWx0ZXIgL0ZsYXRlRGVjb2RlIC9MZW5ndGggMTI4ID4+CnN0cmVhbQp4aRFtJKjSrhPN7LXbMAGcxzp/h7iy20e/+bPRYXCSFWCYDj7w+QlJk7Q+UGB1LyF1dBueE05wgbolUB2sRSkCnXwRvaTALjgL9hm0oyj+QjU7yiA/IEqGe/WAUCFiXMmeyvlVdTyG2W+TCdAFhkJb+s0qH1QkkVKqp6jttxcG2WVuZHN0cmVhbQplbmRvYmoKOCAwIG9iago8PCAvQ0YgPDwgL1N0ZENGIDw8IC9BdXRoRXZlbnQgL0RvY09wZW4gL0NGTSAvQUVTVjMgL0xlbmd0aCAzMiA+PiA+PiAvRmlsdGVyIC9TdGFuZGFyZCAvTGVuZ3RoIDI1NiAvTyA8ZDI3ZDcwNWM5YjBhYmE5MTZiZmVjZGJiZWJlMmU3ODBiMmMxODE5MzAxZmQ4ZjNiYjNiMGQ4NTJhMTY5MGJjZDA3OTBhNjg3MTZlMmQ4ZjhhNTVkOTFkMjNjZDQ5ZmJlPiAvT0UgPGY5ZDdiNWE1ZjU1YmFhNGQ5Yzg5MDM0ZDYzNmZmYjhkYTFhYTg4NWYwYTdhZjM2NWQwYmUxYjQ1ZTMyZTJmYmY+IC9QIC00IC9QZXJtcyA8NmQzMDhhY2JlNzExZWJlNDVkYzNjYmRlNWNkN2E1MmM+IC9SIDYgL1N0bUYgL1N0ZENGIC9TdHJGIC9TdGRDRiAvVSA8YmM0NTU4NDIzN2Q0ZWQ5MWQyYTAzNGNhMjJhYzllMGRjMmNlYzM4MmRjZGZiZjk0OWU2NTM2MDMxNWQwNmZhZjNkZTRmYzdlNDkwZTJlYzQyZmUzMzNmZWVmZjlhMjFmPiAvVUUgPDZjNjYxMmM0OThiNzBhNjNiNWM0ZTFiZDNmMDM1YWNmMDQwNDU2NDYwNzk3ZjNkMzFjODFmZmJmNzMxMTFiMjA+IC9WIDUgPj4KZW5kb2JqCjkgMCBvYmoKPDwgL1R5cGUgL1hSZWYgL0xlbmd0aCA0MiAvRmlsdGVyIC9GbGF0ZURlY29kZSAvRGVjb2RlUGFybXMgPDwgL0NvbHVtbnMgNCAvUHJlZGljdG9yIDEyID4+IC9XIFsgMSAyIDEgXSAvSW5mbyA0IDAgUiAvUm9vdCAxIDAgUiAvU2l6ZSAxMCAvSUQgWzw4YzgyZjIxYTFkMTg0ODE0ZTBmMmU2MjhmNWU3ZmIzZD48ODMwY2U0ZTI4OWQ3OTk1OTZmZTYxNzIxOThlMGE4YTY+XSAvRW5jcnlwdCA4IDAgUiA+PgpzdHJlYW0KeJxjYgACJkYGfgYmBoZiEKsBxGJgRCL+M6X8ZWJgPA6UYFJmAABJWgRrCmVuZHN0cmVhbQplbmRvYmoKc3RhcnR4cmVmCjEzNjAKJSVFT0YK',
+];
+
+function fromBase64(data: string): ArrayBuffer {
+  return Uint8Array.from(atob(data), char => char.charCodeAt(0)).buffer;
+}
+
+for (const [i, data] of REFERENCE_FILES.entries()) {
+  test(`reference R6 file ${i + 1} opens with either password`, async () => {
+    for (const password of ['user6', 'owner6']) {
+      const doc = await PDFDocument.load(await decryptPDF(fromBase64(data), password));
+      expect(doc.getPageCount()).toBe(1);
+      expect(doc.getTitle()).toBe('Reference R6');
+    }
+  });
+
+  test(`reference R6 file ${i + 1} rejects a wrong password`, async () => {
+    await expect(decryptPDF(fromBase64(data), 'user7')).rejects.toThrow(PDFPasswordError);
+  });
+}
+
+test('AES-256 output opens again with both passwords', async () => {
+  const source = await PDFDocument.create();
+  source.addPage([200, 100]);
+  source.setTitle('Round trip');
+  const encrypted = await encryptPDF(await source.save(), {
+    userPassword: 'user',
+    ownerPassword: 'owner',
+    algorithm: 'aes-256',
+    permissions: { print: true, copy: false, modify: false },
+  });
+  for (const password of ['user', 'owner']) {
+    const doc = await PDFDocument.load(await decryptPDF(encrypted.slice().buffer, password));
+    expect(doc.getTitle()).toBe('Round trip');
+  }
+});
@@ -0,0 +1,450 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import type { PDFProtection } from '@/types/pdf';
+import { aesDecrypt, aesEncrypt, concatBytes, md5, randomBytes, rc4, sha } from '@/utils/pdfCrypto';
+
+// Thrown when neither the user nor the owner password opens the document.
+export class PDFPasswordError extends Error {
+  constructor() {
+    super('Incorrect PDF password');
+    this.name = 'PDFPasswordError';
+  }
+}
+
+// Padding string of the standard security handler (Algorithm 2)
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+// Permission bits (Table 22); the reserved bits 7-8 and 13-32 must be set
+const PERMISSION_RESERVED = 0xfffff0c0;
+const PERMISSION_PRINT = 4 | 2048;
+const PERMISSION_MODIFY = 8 | 32 | 256 | 1024;
+const PERMISSION_COPY = 16;
+// Text extraction for accessibility tools stays allowed
+const PERMISSION_ACCESSIBILITY = 512;
+
+// Object streams are hidden from pdf-lib's parser under a same-length name,
+// since their contents can only be parsed once decrypted
+const OBJECT_STREAM = new TextEncoder().encode('/ObjStm');
+const HIDDEN_OBJECT_STREAM = 'EncStm';
+
+type CryptMethod = 'none' | 'rc4' | 'aes128' | 'aes256';
+
+interface SecurityHandler {
+  key: Uint8Array;
+  streamMethod: CryptMethod;
+  stringMethod: CryptMethod;
+  encryptMetadata: boolean;
+}
+
+function bytesOf(object: PDFObject | undefined): Uint8Array {
+  return object instanceof PDFString || object instanceof PDFHexString ? object.asBytes() : new Uint8Array();
+}
+
+function toHexString(bytes: Uint8Array): PDFHexString {
+  return PDFHexString.of(Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(''));
+}
+
+function int32LE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value, true);
+  return bytes;
+}
+
+function padPassword(password: Uint8Array): Uint8Array {
+  return concatBytes(password.subarray(0, 32), PASSWORD_PADDING).subarray(0, 32);
+}
+
+// Passwords up to revision 4 are Latin-1; characters outside it cannot be typed into such files
+function encodeLegacyPassword(password: string): Uint8Array {
+  return Uint8Array.from(password, char => char.charCodeAt(0) & 0xff);
+}
+
+function encodePassword(password: string): Uint8Array {
+  return new TextEncoder().encode(password.normalize('NFKC')).subarray(0, 127);
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// Algorithm 2: the file key of revisions 2-4
+function computeLegacyKey(
+  password: Uint8Array,
+  owner: Uint8Array,
+  permissions: number,
+  fileId: Uint8Array,
+  revision: number,
+  length: number,
+  encryptMetadata: boolean
+): Uint8Array {
+  let hash = md5(concatBytes(
+    padPassword(password),
+    owner.subarray(0, 32),
+    int32LE(permissions),
+    fileId,
+    revision >= 4 && !encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array()
+  ));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, length));
+  }
+  return hash.slice(0, revision >= 3 ? length : 5);
+}
+
+// Algorithms 4 and 5: the /U value for a file key
+function computeLegacyUser(key: Uint8Array, fileId: Uint8Array, revision: number): Uint8Array {
+  if (revision === 2) return rc4(key, PASSWORD_PADDING);
+  let value = rc4(key, md5(concatBytes(PASSWORD_PADDING, fileId)));
+  for (let i = 1; i <= 19; i++) {
+    value = rc4(key.map(byte => byte ^ i), value);
+  }
+  // The last 16 bytes are arbitrary padding
+  return concatBytes(value, new Uint8Array(16));
+}
+
+// Algorithm 3: the RC4 key derived from the owner password
+function computeOwnerKey(ownerPassword: Uint8Array, revision: number, length: number): Uint8Array {
+  let hash = md5(padPassword(ownerPassword));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  return hash.slice(0, revision >= 3 ? length : 5);
+}
+
+function computeLegacyOwner(ownerPassword: Uint8Array, userPassword: Uint8Array, revision: number, length: number): Uint8Array {
+  const key = computeOwnerKey(ownerPassword, revision, length);
+  let value = rc4(key, padPassword(userPassword));
+  if (revision >= 3) {
+    for (let i = 1; i <= 19; i++) value = rc4(key.map(byte => byte ^ i), value);
+  }
+  return value;
+}
+
+// Algorithm 2.B (revision 6); revision 5 uses a single SHA-256
+async function hashPassword(password: Uint8Array, salt: Uint8Array, userKey: Uint8Array, revision: number): Promise<Uint8Array> {
+  let hash = await sha('SHA-256', concatBytes(password, salt, userKey));
+  if (revision === 5) return hash;
+
+  for (let round = 0; ; round++) {
+    const block = concatBytes(password, hash, userKey);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) repeated.set(block, i * block.length);
+    const encrypted = await aesEncrypt(hash.subarray(0, 16), hash.subarray(16, 32), repeated, false);
+
+    const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    hash = await sha((['SHA-256', 'SHA-384', 'SHA-512'] as const)[remainder], encrypted);
+    // round + 1 rounds are done: stop after at least 64 once E's last byte <= rounds done - 32
+    if (round >= 63 && encrypted[encrypted.length - 1] <= round - 31) break;
+  }
+  return hash.subarray(0, 32);
+}
+
+function readCryptMethod(encrypt: PDFDict, filterKey: string, version: number): CryptMethod {
+  if (version < 4) return 'rc4';
+  const filterName = encrypt.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName.asString() === '/Identity') return 'none';
+  const filter = encrypt.lookup(PDFName.of('CF'), PDFDict).lookup(PDFName.of(filterName.asString().slice(1)), PDFDict);
+  const method = filter.lookup(PDFName.of('CFM'));
+  if (method === PDFName.of('AESV2')) return 'aes128';
+  if (method === PDFName.of('AESV3')) return 'aes256';
+  if (method === PDFName.of('V2')) return 'rc4';
+  return 'none';
+}
+
+// Finds the file key for `password`, tried as the user password and then as the owner password.
+async function openSecurityHandler(pdfDoc: PDFDocument, encrypt: PDFDict, password: string): Promise<SecurityHandler> {
+  if (encrypt.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('Unsupported PDF security handler');
+  }
+  const number = (key: string, fallback: number) => encrypt.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber() ?? fallback;
+  const version = number('V', 0);
+  const revision = number('R', 2);
+  const permissions = number('P', 0) | 0;
+  const owner = bytesOf(encrypt.lookup(PDFName.of('O')));
+  const user = bytesOf(encrypt.lookup(PDFName.of('U')));
+  const encryptMetadata = encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+  const methods = {
+    streamMethod: readCryptMethod(encrypt, 'StmF', version),
+    stringMethod: readCryptMethod(encrypt, 'StrF', version),
+    encryptMetadata,
+  };
+
+  if (revision >= 5) {
+    const encoded = encodePassword(password);
+    const userKey = user.subarray(0, 48);
+    let key: Uint8Array | null = null;
+    if (equalBytes(await hashPassword(encoded, owner.subarray(32, 40), userKey, revision), owner.subarray(0, 32))) {
+      const intermediate = await hashPassword(encoded, owner.subarray(40, 48), userKey, revision);
+      key = await aesDecrypt(intermediate, new Uint8Array(16), bytesOf(encrypt.lookup(PDFName.of('OE'))), false);
+    } else if (equalBytes(await hashPassword(encoded, user.subarray(32, 40), new Uint8Array(), revision), user.subarray(0, 32))) {
+      const intermediate = await hashPassword(encoded, user.subarray(40, 48), new Uint8Array(), revision);
+      key = await aesDecrypt(intermediate, new Uint8Array(16), bytesOf(encrypt.lookup(PDFName.of('UE'))), false);
+    }
+    if (!key) throw new PDFPasswordError();
+    return { key, ...methods };
+  }
+
+  const ids = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.ID);
+  const fileId = ids instanceof PDFArray ? bytesOf(ids.lookup(0)) : new Uint8Array();
+  const length = number('Length', 40) / 8;
+  const tryUser = (candidate: Uint8Array) => {
+    const key = computeLegacyKey(candidate, owner, permissions, fileId, revision, length, encryptMetadata);
+    const expected = computeLegacyUser(key, fileId, revision);
+    const compared = revision === 2 ? 32 : 16;
+    return equalBytes(expected.subarray(0, compared), user.subarray(0, compared)) ? key : null;
+  };
+
+  const encoded = encodeLegacyPassword(password);
+  let key = tryUser(encoded);
+  if (!key) {
+    // The owner password decrypts /O back to the user password
+    const ownerKey = computeOwnerKey(encoded, revision, length);
+    let recovered = owner.subarray(0, 32);
+    if (revision === 2) {
+      recovered = rc4(ownerKey, recovered);
+    } else {
+      for (let i = 19; i >= 0; i--) recovered = rc4(ownerKey.map(byte => byte ^ i), recovered);
+    }
+    key = tryUser(recovered);
+  }
+  if (!key) throw new PDFPasswordError();
+  return { key, ...methods };
+}
+
+// Algorithm 1: the key for one object; AES-256 uses the file key directly
+function objectKey(handler: SecurityHandler, method: CryptMethod, ref: PDFRef): Uint8Array {
+  if (method === 'aes256') return handler.key;
+  const suffix = new Uint8Array([
+    ref.objectNumber & 0xff, (ref.objectNumber >> 8) & 0xff, (ref.objectNumber >> 16) & 0xff,
+    ref.generationNumber & 0xff, (ref.generationNumber >> 8) & 0xff,
+  ]);
+  const salt = method === 'aes128' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array();
+  return md5(concatBytes(handler.key, suffix, salt)).subarray(0, Math.min(handler.key.length + 5, 16));
+}
+
+async function decryptData(handler: SecurityHandler, method: CryptMethod, ref: PDFRef, data: Uint8Array): Promise<Uint8Array> {
+  if (method === 'none') return data;
+  const key = objectKey(handler, method, ref);
+  if (method === 'rc4') return rc4(key, data);
+  if (data.length < 32) return new Uint8Array();
+  const iv = data.subarray(0, 16);
+  // Some writers leave the data unpadded or pad it wrongly
+  const usable = data.subarray(16, 16 + Math.floor((data.length - 16) / 16) * 16);
+  try {
+    return await aesDecrypt(key, iv, usable);
+  } catch {
+    return await aesDecrypt(key, iv, usable, false);
+  }
+}
+
+async function encryptData(handler: SecurityHandler, method: CryptMethod, ref: PDFRef, data: Uint8Array): Promise<Uint8Array> {
+  if (method === 'none') return data;
+  const key = objectKey(handler, method, ref);
+  if (method === 'rc4') return rc4(key, data);
+  const iv = randomBytes(16);
+  return concatBytes(iv, await aesEncrypt(key, iv, data));
+}
+
+type Transform = (method: CryptMethod, ref: PDFRef, data: Uint8Array) => Promise<Uint8Array>;
+
+// Signature contents are exempt from encryption so the signed byte ranges stay verifiable
+function isSignature(dict: PDFDict): boolean {
+  const type = dict.get(PDFName.of('Type'));
+  return type === PDFName.of('Sig') || type === PDFName.of('DocTimeStamp');
+}
+
+// Rewrites every string inside a direct object, returning the replacement for strings themselves.
+async function transformStrings(object: PDFObject, ref: PDFRef, handler: SecurityHandler, transform: Transform): Promise<PDFObject> {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return toHexString(await transform(handler.stringMethod, ref, object.asBytes()));
+  }
+  if (object instanceof PDFDict) {
+    const signature = isSignature(object);
+    for (const [key, value] of object.entries()) {
+      if (signature && key === PDFName.of('Contents')) continue;
+      object.set(key, await transformStrings(value, ref, handler, transform));
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      object.set(i, await transformStrings(object.get(i), ref, handler, transform));
+    }
+  }
+  return object;
+}
+
+// Runs `transform` over every string and stream of the document, in place.
+async function transformDocument(pdfDoc: PDFDocument, handler: SecurityHandler, transform: Transform, skip: PDFRef | undefined): Promise<void> {
+  const { context } = pdfDoc;
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === skip) continue;
+    if (object instanceof PDFRawStream) {
+      const type = object.dict.get(PDFName.of('Type'));
+      // Cross-reference streams are never encrypted, nor is metadata when the handler says so
+      if (type === PDFName.of('XRef')) continue;
+      await transformStrings(object.dict, ref, handler, transform);
+      if (type === PDFName.of('Metadata') && !handler.encryptMetadata) continue;
+      context.assign(ref, PDFRawStream.of(object.dict, await transform(handler.streamMethod, ref, object.contents)));
+    } else {
+      context.assign(ref, await transformStrings(object, ref, handler, transform));
+    }
+  }
+}
+
+function findBytes(haystack: Uint8Array, needle: Uint8Array, from: number): number {
+  for (let i = haystack.indexOf(needle[0], from); i !== -1 && i <= haystack.length - needle.length; i = haystack.indexOf(needle[0], i + 1)) {
+    if (needle.every((byte, j) => haystack[i + j] === byte)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Quick check for an /Encrypt entry, without parsing the file. A match inside
+ * page content is possible but rare; decryptPDF then returns the bytes as-is.
+ */
+export function isEncryptedPDF(arrayBuffer: ArrayBuffer): boolean {
+  return findBytes(new Uint8Array(arrayBuffer), new TextEncoder().encode('/Encrypt'), 0) !== -1;
+}
+
+/**
+ * Removes the standard security handler's encryption so pdf-lib can edit the
+ * file. Either the user or the owner password is accepted; a wrong one throws
+ * PDFPasswordError.
+ */
+export async function decryptPDF(arrayBuffer: ArrayBuffer, password: string): Promise<Uint8Array> {
+  const bytes = new Uint8Array(arrayBuffer.slice(0));
+  const hidden = new TextEncoder().encode(HIDDEN_OBJECT_STREAM);
+  for (let i = findBytes(bytes, OBJECT_STREAM, 0); i !== -1; i = findBytes(bytes, OBJECT_STREAM, i + 1)) {
+    bytes.set(hidden, i + 1);
+  }
+
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const { context } = pdfDoc;
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef);
+  if (!(encrypt instanceof PDFDict)) return new Uint8Array(arrayBuffer);
+
+  const handler = await openSecurityHandler(pdfDoc, encrypt, password);
+  await transformDocument(
+    pdfDoc,
+    handler,
+    (method, ref, data) => decryptData(handler, method, ref, data),
+    encryptRef instanceof PDFRef ? encryptRef : undefined
+  );
+
+  // Objects inside object streams were encrypted as part of the stream, so unpack them only now
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream) || object.dict.get(PDFName.of('Type')) !== PDFName.of(HIDDEN_OBJECT_STREAM)) continue;
+    object.dict.set(PDFName.of('Type'), PDFName.of('ObjStm'));
+    await PDFObjectStreamParser.forStream(object).parseIntoContext();
+    context.delete(ref);
+  }
+
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+  context.trailerInfo.Encrypt = undefined;
+  return await pdfDoc.save();
+}
+
+function permissionFlags(protection: PDFProtection): number {
+  let flags = PERMISSION_RESERVED | PERMISSION_ACCESSIBILITY;
+  if (protection.permissions.print) flags |= PERMISSION_PRINT;
+  if (protection.permissions.modify) flags |= PERMISSION_MODIFY;
+  if (protection.permissions.copy) flags |= PERMISSION_COPY;
+  return flags | 0;
+}
+
+/**
+ * Encrypts the document with the standard security handler: AES-128
+ * (revision 4) or AES-256 (revision 6). Without an owner password a random
+ * one is used, so the permissions cannot be lifted.
+ */
+export async function encryptPDF(arrayBuffer: ArrayBuffer | Uint8Array, protection: PDFProtection): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(arrayBuffer, { updateMetadata: false });
+  const { context } = pdfDoc;
+  const permissions = permissionFlags(protection);
+  const ownerPassword = protection.ownerPassword || Array.from(randomBytes(16), byte => byte.toString(16)).join('');
+
+  const ids = context.lookup(context.trailerInfo.ID);
+  let fileId = ids instanceof PDFArray ? bytesOf(ids.lookup(0)) : new Uint8Array();
+  if (fileId.length === 0) {
+    fileId = randomBytes(16);
+    context.trailerInfo.ID = context.obj([toHexString(fileId), toHexString(fileId)]);
+  }
+
+  let handler: SecurityHandler;
+  let encrypt: PDFDict;
+  if (protection.algorithm === 'aes-256') {
+    const key = randomBytes(32);
+    const userPassword = encodePassword(protection.userPassword);
+    const owner = encodePassword(ownerPassword);
+    const zeroIv = new Uint8Array(16);
+
+    const [userValidation, userKeySalt] = [randomBytes(8), randomBytes(8)];
+    const user = concatBytes(await hashPassword(userPassword, userValidation, new Uint8Array(), 6), userValidation, userKeySalt);
+    const userEncrypted = await aesEncrypt(await hashPassword(userPassword, userKeySalt, new Uint8Array(), 6), zeroIv, key, false);
+    const [ownerValidation, ownerKeySalt] = [randomBytes(8), randomBytes(8)];
+    const ownerValue = concatBytes(await hashPassword(owner, ownerValidation, user, 6), ownerValidation, ownerKeySalt);
+    const ownerEncrypted = await aesEncrypt(await hashPassword(owner, ownerKeySalt, user, 6), zeroIv, key, false);
+    // A single block, so CBC with a zero IV is the ECB the format calls for
+    const perms = await aesEncrypt(key, zeroIv, concatBytes(
+      int32LE(permissions),
+      new Uint8Array([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]),
+      randomBytes(4)
+    ), false);
+
+    handler = { key, streamMethod: 'aes256', stringMethod: 'aes256', encryptMetadata: true };
+    encrypt = context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { Type: 'CryptFilter', AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      P: permissions,
+      EncryptMetadata: true,
+    });
+    encrypt.set(PDFName.of('U'), toHexString(user));
+    encrypt.set(PDFName.of('UE'), toHexString(userEncrypted));
+    encrypt.set(PDFName.of('O'), toHexString(ownerValue));
+    encrypt.set(PDFName.of('OE'), toHexString(ownerEncrypted));
+    encrypt.set(PDFName.of('Perms'), toHexString(perms));
+  } else {
+    const userPassword = encodeLegacyPassword(protection.userPassword);
+    const owner = computeLegacyOwner(encodeLegacyPassword(ownerPassword), userPassword, 4, 16);
+    const key = computeLegacyKey(userPassword, owner, permissions, fileId, 4, 16, true);
+
+    handler = { key, streamMethod: 'aes128', stringMethod: 'aes128', encryptMetadata: true };
+    encrypt = context.obj({
+      Filter: 'Standard',
+      V: 4,
+      R: 4,
+      Length: 128,
+      CF: { StdCF: { Type: 'CryptFilter', AuthEvent: 'DocOpen', CFM: 'AESV2', Length: 16 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      P: permissions,
+      EncryptMetadata: true,
+    });
+    encrypt.set(PDFName.of('O'), toHexString(owner));
+    encrypt.set(PDFName.of('U'), toHexString(computeLegacyUser(key, fileId, 4)));
+  }
+
+  await transformDocument(pdfDoc, handler, (method, ref, data) => encryptData(handler, method, ref, data), undefined);
+  context.trailerInfo.Encrypt = context.register(encrypt);
+  // Object streams would be written after encryption, leaving their contents readable
+  return await pdfDoc.save({ useObjectStreams: false });
+}
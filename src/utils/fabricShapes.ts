@@ -0,0 +1,139 @@
+import { Ellipse, Line, Path, Point, Rect, type FabricObject } from 'fabric';
+import type { DrawingKind, DrawingShape } from '@/types/pdf';
+import { arrowHeadLength, arrowHeadPoints } from '@/utils/drawings';
+
+type Size = { width: number; height: number };
+
+// Fabric objects carry no room for our shape metadata, so it lives alongside
+const shapeInfo = new WeakMap<FabricObject, { id: string; kind: DrawingKind }>();
+
+function toPixels(point: { x: number; y: number }, size: Size): { x: number; y: number } {
+  return { x: point.x * size.width, y: point.y * size.height };
+}
+
+function pathString(points: { x: number; y: number }[]): string {
+  return points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
+}
+
+/**
+ * Applies the editing constraints every drawn object shares: shapes can be
+ * moved and resized but not rotated, since /Square and /Circle annotations
+ * are always axis-aligned, and strokes keep their width when resized.
+ */
+export function registerShape(object: FabricObject, id: string, kind: DrawingKind): void {
+  object.set({ strokeUniform: true, lockRotation: true, strokeLineCap: 'round', strokeLineJoin: 'round' });
+  object.setControlVisible('mtr', false);
+  shapeInfo.set(object, { id, kind });
+}
+
+/** Builds the Fabric object for a shape on a canvas of `size` pixels at `scale` px per point. */
+export function shapeToFabric(shape: DrawingShape, size: Size, scale: number): FabricObject {
+  const points = shape.points.map(point => toPixels(point, size));
+  const style = {
+    stroke: shape.color,
+    strokeWidth: shape.width * scale,
+    opacity: shape.opacity,
+    fill: '',
+    originX: 'center' as const,
+    originY: 'center' as const,
+  };
+
+  let object: FabricObject;
+  if (shape.kind === 'rect' || shape.kind === 'ellipse') {
+    const [a, b] = points;
+    const width = Math.abs(b.x - a.x);
+    const height = Math.abs(b.y - a.y);
+    const center = { left: (a.x + b.x) / 2, top: (a.y + b.y) / 2 };
+    object = shape.kind === 'rect'
+      ? new Rect({ ...style, ...center, width, height })
+      : new Ellipse({ ...style, ...center, rx: width / 2, ry: height / 2 });
+  } else if (shape.kind === 'line') {
+    const [a, b] = points;
+    object = new Line([a.x, a.y, b.x, b.y], style);
+  } else if (shape.kind === 'arrow') {
+    const [start, end] = points;
+    const [barbA, barbB] = arrowHeadPoints(start, end, arrowHeadLength(shape.width) * scale);
+    object = new Path(`${pathString([start, end])} ${pathString([barbA, end, barbB])}`, style);
+  } else {
+    object = new Path(pathString(points), style);
+  }
+
+  registerShape(object, shape.id, shape.kind);
+  return object;
+}
+
+/** Reads a registered object back as a shape, with its current position and size. */
+export function fabricToShape(object: FabricObject, size: Size, scale: number): DrawingShape | null {
+  const info = shapeInfo.get(object);
+  if (!info) return null;
+
+  const matrix = object.calcTransformMatrix();
+  const toFraction = (x: number, y: number) => {
+    const point = new Point(x, y).transform(matrix);
+    return { x: point.x / size.width, y: point.y / size.height };
+  };
+
+  let points: { x: number; y: number }[];
+  if (object instanceof Rect || object instanceof Ellipse) {
+    const halfWidth = object.width / 2;
+    const halfHeight = object.height / 2;
+    points = [toFraction(-halfWidth, -halfHeight), toFraction(halfWidth, halfHeight)];
+  } else if (object instanceof Line) {
+    const { x1, y1, x2, y2 } = object.calcLinePoints();
+    points = [toFraction(x1, y1), toFraction(x2, y2)];
+  } else if (object instanceof Path) {
+    // Each command ends at its target point; curves are sampled at their ends only
+    const { x: offsetX, y: offsetY } = object.pathOffset;
+    points = object.path
+      .filter(command => command.length >= 3)
+      .map(command => {
+        const [x, y] = command.slice(-2) as number[];
+        return toFraction(x - offsetX, y - offsetY);
+      });
+    // The arrowhead is redrawn from the shaft
+    if (info.kind === 'arrow') points = points.slice(0, 2);
+  } else {
+    return null;
+  }
+
+  return {
+    id: info.id,
+    kind: info.kind,
+    points,
+    color: typeof object.stroke === 'string' ? object.stroke : '#000000',
+    width: (object.strokeWidth ?? 0) / scale,
+    opacity: object.opacity ?? 1,
+  };
+}
+
+/** Paints shapes onto a plain 2D canvas, for previews outside the drawing mode. */
+export function paintShapes(ctx: CanvasRenderingContext2D, shapes: DrawingShape[], size: Size, scale: number): void {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const shape of shapes) {
+    const points = shape.points.map(point => toPixels(point, size));
+    if (points.length < 2) continue;
+    ctx.strokeStyle = shape.color;
+    ctx.globalAlpha = shape.opacity;
+    ctx.lineWidth = shape.width * scale;
+    ctx.beginPath();
+
+    const [a, b] = points;
+    if (shape.kind === 'rect') {
+      ctx.rect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+    } else if (shape.kind === 'ellipse') {
+      ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, Math.PI * 2);
+    } else {
+      points.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      if (shape.kind === 'arrow') {
+        const [barbA, barbB] = arrowHeadPoints(a, b, arrowHeadLength(shape.width) * scale);
+        ctx.moveTo(barbA.x, barbA.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.lineTo(barbB.x, barbB.y);
+      }
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
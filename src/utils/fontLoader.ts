@@ -0,0 +1,57 @@
+import fontkit from '@pdf-lib/fontkit';
+import type { FontOption } from '@/types/pdf';
+import {
+  DEFAULT_FONT_FAMILY,
+  addFontOption,
+  getFontBytes,
+  getFontOptions,
+  registerFontBytes,
+  registerFontLoader,
+} from '@/utils/fonts';
+
+// Main-thread only: the operations worker receives font bytes with each task
+// instead of loading the bundled asset itself.
+registerFontLoader(DEFAULT_FONT_FAMILY, async () => {
+  // Imported lazily: the font is ~7 MB and only needed once text is drawn
+  const { default: url } = await import('@expo-google-fonts/noto-sans-tc/400Regular/NotoSansTC_400Regular.ttf?url');
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load bundled font: ${response.status}`);
+  }
+  return await response.arrayBuffer();
+});
+
+async function addFontFace(family: string, bytes: ArrayBuffer): Promise<void> {
+  const face = new FontFace(family, bytes);
+  await face.load();
+  document.fonts.add(face);
+}
+
+// Makes the bundled font available to canvas previews.
+export async function loadBundledFontFace(): Promise<void> {
+  if (document.fonts.check(`16px "${DEFAULT_FONT_FAMILY}"`)) return;
+  await addFontFace(DEFAULT_FONT_FAMILY, await getFontBytes(DEFAULT_FONT_FAMILY));
+}
+
+// Registers a user-supplied TTF/OTF file and returns its picker entry.
+export async function registerFontFile(file: File): Promise<FontOption> {
+  const bytes = await file.arrayBuffer();
+  const parsed = fontkit.create(new Uint8Array(bytes));
+  const family = parsed.familyName || file.name.replace(/\.(ttf|otf)$/i, '');
+
+  const existing = getFontOptions().find(option => option.family === family);
+  if (existing) return existing;
+
+  await addFontFace(family, bytes);
+  registerFontBytes(family, bytes);
+
+  const option: FontOption = {
+    family,
+    label: family,
+    source: 'custom',
+    cssFamily: `"${family}", sans-serif`,
+    cjk: parsed.hasGlyphForCodePoint(0x4e2d),
+  };
+  addFontOption(option);
+  return option;
+}
@@ -0,0 +1,108 @@
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib';
+import type { FontOption } from '@/types/pdf';
+
+export const DEFAULT_FONT_FAMILY = 'Noto Sans TC';
+
+const STANDARD_FONTS: Record<string, StandardFonts> = {
+  Helvetica: StandardFonts.Helvetica,
+  'Times-Roman': StandardFonts.TimesRoman,
+  Courier: StandardFonts.Courier,
+};
+
+const fontOptions: FontOption[] = [
+  { family: DEFAULT_FONT_FAMILY, label: '思源黑體 (Noto Sans TC)', source: 'bundled', cssFamily: `"${DEFAULT_FONT_FAMILY}", sans-serif`, cjk: true },
+  { family: 'Helvetica', label: 'Helvetica', source: 'standard', cssFamily: 'Helvetica, Arial, sans-serif', cjk: false },
+  { family: 'Times-Roman', label: 'Times Roman', source: 'standard', cssFamily: '"Times New Roman", Times, serif', cjk: false },
+  { family: 'Courier', label: 'Courier', source: 'standard', cssFamily: '"Courier New", Courier, monospace', cjk: false },
+];
+
+const fontBytes = new Map<string, Promise<ArrayBuffer>>();
+const fontLoaders = new Map<string, () => Promise<ArrayBuffer>>();
+
+export function getFontOptions(): FontOption[] {
+  return [...fontOptions];
+}
+
+export function getFontOption(family: string): FontOption {
+  return fontOptions.find(option => option.family === family) ?? fontOptions[0];
+}
+
+export function addFontOption(option: FontOption): void {
+  if (!fontOptions.some(existing => existing.family === option.family)) {
+    fontOptions.push(option);
+  }
+}
+
+export function getFontBytes(family: string): Promise<ArrayBuffer> {
+  let bytes = fontBytes.get(family);
+  if (!bytes) {
+    const loader = fontLoaders.get(family);
+    if (!loader) {
+      return Promise.reject(new Error(`Font not registered: ${family}`));
+    }
+    bytes = loader();
+    fontBytes.set(family, bytes);
+    bytes.catch(() => fontBytes.delete(family));
+  }
+  return bytes;
+}
+
+// Registers a font whose bytes are only fetched the first time it is embedded.
+export function registerFontLoader(family: string, loader: () => Promise<ArrayBuffer>): void {
+  fontLoaders.set(family, loader);
+}
+
+// Supplies font bytes loaded elsewhere, e.g. inside the operations worker.
+export function registerFontBytes(family: string, bytes: ArrayBuffer): void {
+  fontBytes.set(family, Promise.resolve(bytes));
+}
+
+// Families whose bytes are needed to draw the given text annotations.
+export function getRequiredFontFamilies(families: string[]): string[] {
+  const required = new Set(families.filter(family => !(family in STANDARD_FONTS) && fontBytes.has(family)));
+  if (families.length > 0) required.add(DEFAULT_FONT_FAMILY);
+  return Array.from(required);
+}
+
+function canEncode(font: PDFFont, text: string): boolean {
+  try {
+    font.encodeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type FontEmbedder = (family: string, text: string) => Promise<PDFFont>;
+
+/**
+ * Embeds fonts into one PDF document, reusing each embedded font for later
+ * annotations. Text a standard font cannot encode falls back to the bundled
+ * CJK font.
+ */
+export function createFontEmbedder(pdfDoc: PDFDocument): FontEmbedder {
+  const embedded = new Map<string, Promise<PDFFont>>();
+  pdfDoc.registerFontkit(fontkit);
+
+  const embed = (family: string): Promise<PDFFont> => {
+    let font = embedded.get(family);
+    if (!font) {
+      const standard = STANDARD_FONTS[family];
+      font = standard
+        ? pdfDoc.embedFont(standard)
+        : getFontBytes(family).then(bytes => pdfDoc.embedFont(bytes, { subset: true }));
+      embedded.set(family, font);
+    }
+    return font;
+  };
+
+  return async (family: string, text: string): Promise<PDFFont> => {
+    const resolved = family in STANDARD_FONTS || fontBytes.has(family) || fontLoaders.has(family)
+      ? family
+      : DEFAULT_FONT_FAMILY;
+    const font = await embed(resolved);
+    if (canEncode(font, text)) return font;
+    return await embed(DEFAULT_FONT_FAMILY);
+  };
+}
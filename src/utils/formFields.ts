@@ -0,0 +1,161 @@
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFName,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFTextField,
+  type PDFField,
+} from 'pdf-lib';
+import type { FormField, FormValues, PageOperation } from '@/types/pdf';
+import type { FontEmbedder } from '@/utils/fonts';
+
+function hasAcroForm(pdfDoc: PDFDocument): boolean {
+  // getForm() would create an empty form, so look before asking for it
+  return !!pdfDoc.catalog.get(PDFName.of('AcroForm'));
+}
+
+function describeField(field: PDFField): FormField | null {
+  const base = { name: field.getName(), readOnly: field.isReadOnly(), multiline: false, options: [] };
+  if (field instanceof PDFTextField) {
+    return { ...base, type: 'text', value: field.getText() ?? '', multiline: field.isMultiline() };
+  }
+  if (field instanceof PDFCheckBox) {
+    return { ...base, type: 'checkbox', value: field.isChecked() };
+  }
+  if (field instanceof PDFRadioGroup) {
+    return { ...base, type: 'radio', value: field.getSelected() ?? '', options: field.getOptions() };
+  }
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    return { ...base, type: 'dropdown', value: field.getSelected()[0] ?? '', options: field.getOptions() };
+  }
+  // Push buttons and signature fields hold no fillable value
+  return null;
+}
+
+export function readFormFields(pdfDoc: PDFDocument): FormField[] {
+  if (!hasAcroForm(pdfDoc)) return [];
+  return pdfDoc.getForm().getFields()
+    .map(describeField)
+    .filter((field): field is FormField => field !== null);
+}
+
+const fieldCache = new WeakMap<ArrayBuffer, Promise<FormField[]>>();
+
+// Fields of the (immutable) original bytes, read once per document.
+export function getFormFields(arrayBuffer: ArrayBuffer): Promise<FormField[]> {
+  let cached = fieldCache.get(arrayBuffer);
+  if (!cached) {
+    cached = PDFDocument.load(arrayBuffer).then(readFormFields);
+    fieldCache.set(arrayBuffer, cached);
+  }
+  return cached;
+}
+
+// Values and flatten flag after replaying every recorded form operation.
+export function getFormState(operations: PageOperation[]): { values: FormValues; flattened: boolean } {
+  let values: FormValues = {};
+  let flattened = false;
+  for (const operation of operations) {
+    if (operation.type !== 'form') continue;
+    values = { ...values, ...operation.values };
+    flattened = operation.flatten;
+  }
+  return { values, flattened };
+}
+
+type FillableField = PDFTextField | PDFCheckBox | PDFRadioGroup | PDFDropdown | PDFOptionList;
+
+function isFillable(field: PDFField): field is FillableField {
+  return field instanceof PDFTextField || field instanceof PDFCheckBox || field instanceof PDFRadioGroup
+    || field instanceof PDFDropdown || field instanceof PDFOptionList;
+}
+
+/**
+ * Writes the values into the document's fields and regenerates the
+ * appearances of the fields that changed, with a font that can show their
+ * values (the bundled CJK font when needed). Other fields keep the appearance
+ * the document came with. Flattening then burns the fields into the page content.
+ */
+export async function fillFormFields(
+  pdfDoc: PDFDocument,
+  values: FormValues,
+  flatten: boolean,
+  getFont: FontEmbedder
+): Promise<void> {
+  if (!hasAcroForm(pdfDoc)) return;
+  const form = pdfDoc.getForm();
+  const refresh = new Set<FillableField>();
+
+  for (const [name, value] of Object.entries(values)) {
+    const field = form.getFieldMaybe(name);
+    if (!field || !isFillable(field) || describeField(field)?.value === value) continue;
+
+    if (field instanceof PDFTextField) {
+      field.setText(String(value));
+    } else if (field instanceof PDFCheckBox) {
+      if (value === true) field.check();
+      else field.uncheck();
+    } else if (typeof value === 'string' && field.getOptions().includes(value)) {
+      field.select(value);
+    } else if (value === '') {
+      field.clear();
+    }
+    refresh.add(field);
+  }
+  // Flattening needs an appearance for every field, including ones the document left without
+  if (flatten) {
+    for (const field of form.getFields()) {
+      if (isFillable(field) && field.needsAppearancesUpdate()) refresh.add(field);
+    }
+  }
+  if (refresh.size > 0) {
+    const text = [...refresh].map(field => describeField(field)?.value).filter(value => typeof value === 'string').join('');
+    const font = await getFont('Helvetica', text);
+    for (const field of refresh) {
+      if (field instanceof PDFCheckBox || field instanceof PDFRadioGroup) field.defaultUpdateAppearances();
+      else field.defaultUpdateAppearances(font);
+    }
+  }
+  if (flatten) form.flatten({ updateFieldAppearances: false });
+}
+
+export function formValuesToJSON(fields: FormField[], values: FormValues): string {
+  const output: FormValues = {};
+  for (const field of fields) {
+    output[field.name] = values[field.name] ?? field.value;
+  }
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Parses exported field values. Entries for unknown fields, or with a value
+ * the field cannot take (e.g. a missing dropdown option), are returned as
+ * `rejected` instead of being applied.
+ */
+export function parseFormValues(json: string, fields: FormField[]): { values: FormValues; rejected: string[] } {
+  const data: unknown = JSON.parse(json);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Form values must be a JSON object');
+  }
+
+  const values: FormValues = {};
+  const rejected: string[] = [];
+  for (const [name, value] of Object.entries(data)) {
+    const field = fields.find(f => f.name === name);
+    if (!field) {
+      rejected.push(name);
+    } else if (field.type === 'checkbox' && typeof value === 'boolean') {
+      values[name] = value;
+    } else if (field.type === 'text' && (typeof value === 'string' || typeof value === 'number')) {
+      values[name] = String(value);
+    } else if ((field.type === 'radio' || field.type === 'dropdown')
+      && typeof value === 'string' && (value === '' || field.options.includes(value))) {
+      values[name] = value;
+    } else {
+      rejected.push(name);
+    }
+  }
+  return { values, rejected };
+}
@@ -0,0 +1,64 @@
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+}
+
+/**
+ * Undo/redo stacks. Each past entry holds the state from before its step;
+ * each future entry holds the state a redo of that step restores.
+ */
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+const MAX_HISTORY = 100;
+
+export function createHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+export function pushHistory<T>(history: History<T>, label: string, previous: T): History<T> {
+  return {
+    past: [...history.past, { label, snapshot: previous }].slice(-MAX_HISTORY),
+    future: [],
+  };
+}
+
+export function undoHistory<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [{ label: entry.label, snapshot: current }, ...history.future],
+    },
+    snapshot: entry.snapshot,
+  };
+}
+
+export function redoHistory<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  const entry = history.future[0];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(1),
+    },
+    snapshot: entry.snapshot,
+  };
+}
+
+// Moves to the state right after the given number of steps have been applied.
+export function jumpHistory<T>(history: History<T>, current: T, stepCount: number): { history: History<T>; snapshot: T } {
+  let result = { history, snapshot: current };
+  while (result.history.past.length > stepCount) {
+    result = undoHistory(result.history, result.snapshot)!;
+  }
+  while (result.history.past.length < stepCount && result.history.future.length > 0) {
+    result = redoHistory(result.history, result.snapshot)!;
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { ImageExportSettings, TaskOptions } from '@/types/pdf';
+import { canvasToBlob, renderPage } from '@/utils/pdfRender';
+import { reportProgress } from '@/utils/pdfUtils';
+
+export interface ExportedImage {
+  fileName: string;
+  blob: Blob;
+}
+
+const EXTENSIONS: Record<ImageExportSettings['format'], string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+// Expands {name}, {page} and {total}; page numbers are zero-padded to sort correctly.
+export function formatImageFileName(
+  pattern: string,
+  values: { name: string; page: number; total: number },
+  format: ImageExportSettings['format']
+): string {
+  const digits = String(values.total).length;
+  const base = pattern
+    .replace(/\{name\}/g, values.name)
+    .replace(/\{page\}/g, String(values.page).padStart(digits, '0'))
+    .replace(/\{total\}/g, String(values.total))
+    .replace(/[\\/:*?"<>|]+/g, '_');
+  return `${base || values.page}.${EXTENSIONS[format]}`;
+}
+
+/**
+ * Rasterizes the given zero-based pages at the chosen DPI. JPEG has no alpha
+ * channel, so it always gets the solid background colour.
+ */
+export async function exportPagesAsImages(
+  pdfDoc: PDFDocumentProxy,
+  pageIndices: number[],
+  settings: ImageExportSettings,
+  name: string,
+  options: TaskOptions = {}
+): Promise<ExportedImage[]> {
+  const transparent = settings.transparent && settings.format !== 'jpeg';
+  const background = transparent ? 'rgba(0, 0, 0, 0)' : settings.background;
+  const images: ExportedImage[] = [];
+
+  for (const [i, pageIndex] of pageIndices.entries()) {
+    const canvas = await renderPage(pdfDoc, pageIndex + 1, settings.dpi / 72, 0, background);
+    const blob = await canvasToBlob(canvas, `image/${settings.format}`, settings.quality);
+    // Release the bitmap memory right away; high-DPI pages are large
+    canvas.width = canvas.height = 0;
+
+    images.push({
+      fileName: formatImageFileName(settings.fileNamePattern, {
+        name,
+        page: pageIndex + 1,
+        total: pdfDoc.numPages,
+      }, settings.format),
+      blob,
+    });
+    await reportProgress(options, i + 1, pageIndices.length);
+  }
+  return images;
+}
@@ -0,0 +1,36 @@
+import type { PreparedImage } from '@/types/pdf';
+import { canvasToBlob } from '@/utils/pdfRender';
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
+/**
+ * Decodes an image file into bytes pdf-lib can embed. PNGs are kept as-is to
+ * preserve sharp scans and transparency; everything else (photos, WebP, GIF…)
+ * is re-encoded as JPEG at the given quality, with EXIF rotation applied.
+ */
+export async function prepareImage(file: File, quality: number): Promise<PreparedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const name = file.name.replace(/\.[^.]+$/, '');
+
+  try {
+    if (file.type === 'image/png') {
+      return { name, bytes: await file.arrayBuffer(), format: 'png', width: bitmap.width, height: bitmap.height };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext('2d')!;
+    // JPEG has no alpha channel, so transparent areas become white paper
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0);
+
+    const blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+    return { name, bytes: await blob.arrayBuffer(), format: 'jpg', width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,164 @@
+import { PDFDocument, PDFHexString, PDFName, PDFPage, PDFString } from 'pdf-lib';
+import type { CropBox, MarkupAnnotation, MarkupType } from '@/types/pdf';
+import { PRINT_FLAG, formatNumber, formatPoint, hexToRgb, toPageSpace, type Point } from '@/utils/pdfUtils';
+
+export const MARKUP_TOOLS: { type: MarkupType; label: string; color: string }[] = [
+  { type: 'highlight', label: '螢光筆', color: '#facc15' },
+  { type: 'underline', label: '底線', color: '#16a34a' },
+  { type: 'strikeout', label: '刪除線', color: '#dc2626' },
+  { type: 'note', label: '便利貼', color: '#fbbf24' },
+];
+
+const SUBTYPES: Record<MarkupType, string> = {
+  highlight: 'Highlight',
+  underline: 'Underline',
+  strikeout: 'StrikeOut',
+  note: 'Text',
+};
+
+// Note icons add NoZoom and NoRotate
+const NOTE_FLAGS = PRINT_FLAG | 8 | 16;
+const NOTE_ICON_SIZE = 20;
+const POPUP_WIDTH = 200;
+const POPUP_HEIGHT = 120;
+
+// Point a fraction `t` of the way from `a` to `b`.
+function lerp(a: Point, b: Point, t: number): Point {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+/**
+ * Corners of a markup box as the upper-left, upper-right, lower-left and
+ * lower-right of the marked text, in fractions of the page as displayed.
+ * Text turned with the page keeps its own upper edge.
+ */
+export function markupQuad(rect: CropBox, rotation: number = 0): Point[] {
+  // Clockwise from the displayed top-left
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ];
+  const turns = Math.round((((-rotation % 360) + 360) % 360) / 90);
+  const corner = (i: number) => corners[(i + turns) % 4];
+  return [corner(0), corner(1), corner(3), corner(2)];
+}
+
+// Where an underline or strikeout crosses a quad, measured up from the text's lower edge.
+export function markupLine(type: MarkupType, [upperLeft, upperRight, lowerLeft, lowerRight]: Point[]): [Point, Point] {
+  // Boxes reach a quarter of the font size below the baseline
+  const t = type === 'underline' ? 0.15 : 0.45;
+  return [lerp(lowerLeft, upperLeft, t), lerp(lowerRight, upperRight, t)];
+}
+
+// Appearance drawing for each quad of a text markup, in page space.
+function drawQuads(type: MarkupType, quads: Point[][], fill: string): string {
+  const ops = [type === 'highlight' ? `/GS0 gs ${fill} rg` : `${fill} RG`];
+  for (const quad of quads) {
+    const [upperLeft, upperRight, lowerLeft, lowerRight] = quad;
+    if (type === 'highlight') {
+      ops.push(`${formatPoint(upperLeft)} m ${formatPoint(upperRight)} l ${formatPoint(lowerRight)} l ${formatPoint(lowerLeft)} l f`);
+      continue;
+    }
+    const [start, end] = markupLine(type, quad);
+    const lineHeight = Math.hypot(upperLeft.x - lowerLeft.x, upperLeft.y - lowerLeft.y);
+    ops.push(`${formatNumber(Math.max(lineHeight / 14, 0.5))} w ${formatPoint(start)} m ${formatPoint(end)} l S`);
+  }
+  return ops.join('\n');
+}
+
+// Appearance of a note icon: a filled sheet with three ruled lines.
+function drawNoteIcon(left: number, bottom: number, fill: string): string {
+  const lines = [14, 10, 6].map(y =>
+    `${formatPoint({ x: left + 5, y: bottom + y })} m ${formatPoint({ x: left + 15, y: bottom + y })} l`);
+  return [
+    `${fill} rg 0 0 0 RG 0.75 w ${formatPoint({ x: left + 1, y: bottom + 1 })} 18 18 re B`,
+    ...lines,
+    'S',
+  ].join('\n');
+}
+
+/**
+ * Adds the markups to the page as standard annotation objects, each with an
+ * appearance stream and a closed popup holding its comment, so they stay
+ * editable and show up in any reviewer's comment list.
+ */
+export function addMarkupAnnotations(pdfDoc: PDFDocument, page: PDFPage, markups: MarkupAnnotation[]): void {
+  if (markups.length === 0) return;
+
+  const { context } = pdfDoc;
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation % 180 !== 0;
+  const displayWidth = sideways ? box.height : box.width;
+  const displayHeight = sideways ? box.width : box.height;
+
+  for (const markup of markups) {
+    const { red, green, blue } = hexToRgb(markup.color);
+    const quads = markup.rects.map(rect => markupQuad(rect, markup.rotation).map(point =>
+      toPageSpace(box, rotation, point.x * displayWidth, (1 - point.y) * displayHeight)));
+    if (quads.length === 0) continue;
+
+    const isNote = markup.type === 'note';
+    const points = quads.flat();
+    const anchor = points[0];
+    const rect = isNote
+      ? [anchor.x, anchor.y - NOTE_ICON_SIZE, anchor.x + NOTE_ICON_SIZE, anchor.y]
+      : [
+        Math.min(...points.map(point => point.x)),
+        Math.min(...points.map(point => point.y)),
+        Math.max(...points.map(point => point.x)),
+        Math.max(...points.map(point => point.y)),
+      ];
+
+    const fill = `${formatNumber(red)} ${formatNumber(green)} ${formatNumber(blue)}`;
+    const content = isNote ? drawNoteIcon(rect[0], rect[1], fill) : drawQuads(markup.type, quads, fill);
+    const appearance = context.register(context.stream(content, {
+      Type: 'XObject',
+      Subtype: 'Form',
+      BBox: rect,
+      Resources: markup.type === 'highlight'
+        ? { ExtGState: { GS0: { Type: 'ExtGState', BM: 'Multiply' } } }
+        : {},
+    }));
+
+    const date = PDFString.fromDate(new Date(markup.date));
+    const annotation = context.obj({
+      Type: 'Annot',
+      Subtype: SUBTYPES[markup.type],
+      Rect: rect,
+      C: [red, green, blue],
+      F: isNote ? NOTE_FLAGS : PRINT_FLAG,
+      P: page.ref,
+      NM: PDFHexString.fromText(markup.id),
+      T: PDFHexString.fromText(markup.author),
+      Contents: PDFHexString.fromText(markup.comment || markup.text),
+      M: date,
+      CreationDate: date,
+      AP: { N: appearance },
+    });
+    if (isNote) {
+      annotation.set(PDFName.of('Name'), PDFName.of('Comment'));
+      annotation.set(PDFName.of('Open'), context.obj(false));
+    } else {
+      annotation.set(PDFName.of('QuadPoints'), context.obj(points.flatMap(point => [point.x, point.y])));
+    }
+    const annotationRef = context.register(annotation);
+
+    // The popup opens beside the annotation, kept inside the page
+    const popupX = Math.min(rect[2], box.x + box.width - POPUP_WIDTH);
+    const popupY = Math.max(rect[3] - POPUP_HEIGHT, box.y);
+    const popupRef = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Popup',
+      Rect: [popupX, popupY, popupX + POPUP_WIDTH, popupY + POPUP_HEIGHT],
+      Parent: annotationRef,
+      Open: false,
+    }));
+    annotation.set(PDFName.of('Popup'), popupRef);
+
+    page.node.addAnnot(annotationRef);
+    page.node.addAnnot(popupRef);
+  }
+}
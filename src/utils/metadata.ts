@@ -0,0 +1,183 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFRawStream, PDFRef, PDFString } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { DocumentMetadata, PDFDocument as PDFDocType, PageOperation } from '@/types/pdf';
+
+export const EMPTY_METADATA: DocumentMetadata = {
+  title: '',
+  author: '',
+  subject: '',
+  keywords: '',
+  creator: '',
+  producer: '',
+  creationDate: '',
+  modificationDate: '',
+};
+
+const INFO_KEYS: Record<Exclude<keyof DocumentMetadata, 'creationDate' | 'modificationDate'>, string> = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  creator: 'Creator',
+  producer: 'Producer',
+};
+
+// Parses a PDF date string such as D:20240131120000+08'00' into ISO 8601.
+export function parsePDFDate(value: string): string {
+  const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/.exec(value.trim());
+  if (!match) return '';
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHour = '00', offsetMinute = '00'] = match;
+  const offset = !sign || sign.toUpperCase() === 'Z' ? 'Z' : `${sign}${offsetHour}:${offsetMinute}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+/**
+ * Reads the Info dictionary through PDF.js, falling back to the XMP packet
+ * for fields the Info dictionary leaves empty.
+ */
+export async function readDocumentMetadata(pdfDoc: PDFDocumentProxy): Promise<DocumentMetadata> {
+  const { info, metadata: xmp } = await pdfDoc.getMetadata();
+  const entries = info as Record<string, unknown>;
+  const read = (key: string, xmpName: string) => {
+    const value = entries[key];
+    if (typeof value === 'string' && value.trim()) return value;
+    return xmp?.get(xmpName) ?? '';
+  };
+  const readDate = (key: string, xmpName: string) => {
+    const value = entries[key];
+    if (typeof value === 'string' && value.trim()) return parsePDFDate(value);
+    const fallback = xmp?.get(xmpName);
+    return fallback && !Number.isNaN(Date.parse(fallback)) ? new Date(fallback).toISOString() : '';
+  };
+
+  return {
+    title: read('Title', 'dc:title'),
+    author: read('Author', 'dc:creator'),
+    subject: read('Subject', 'dc:description'),
+    keywords: read('Keywords', 'pdf:keywords'),
+    creator: read('Creator', 'xmp:creatortool'),
+    producer: read('Producer', 'pdf:producer'),
+    creationDate: readDate('CreationDate', 'xmp:createdate'),
+    modificationDate: readDate('ModDate', 'xmp:modifydate'),
+  };
+}
+
+// Metadata of the most recent properties edit, if any.
+export function getEditedMetadata(operations: PageOperation[]): DocumentMetadata | undefined {
+  for (let i = operations.length - 1; i >= 0; i--) {
+    const operation = operations[i];
+    if (operation.type === 'metadata') return operation.metadata;
+  }
+  return undefined;
+}
+
+// Metadata as last edited, or as read when the file was opened.
+export function getDocumentMetadata(doc: PDFDocType): DocumentMetadata {
+  return getEditedMetadata(doc.operations) ?? doc.metadata;
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function buildXMPPacket(metadata: DocumentMetadata): string {
+  const properties = [
+    metadata.title && `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(metadata.title)}</rdf:li></rdf:Alt></dc:title>`,
+    metadata.author && `<dc:creator><rdf:Seq><rdf:li>${escapeXML(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`,
+    metadata.subject && `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXML(metadata.subject)}</rdf:li></rdf:Alt></dc:description>`,
+    metadata.keywords && `<pdf:Keywords>${escapeXML(metadata.keywords)}</pdf:Keywords>`,
+    metadata.producer && `<pdf:Producer>${escapeXML(metadata.producer)}</pdf:Producer>`,
+    metadata.creator && `<xmp:CreatorTool>${escapeXML(metadata.creator)}</xmp:CreatorTool>`,
+    metadata.creationDate && `<xmp:CreateDate>${metadata.creationDate}</xmp:CreateDate>`,
+    metadata.modificationDate && `<xmp:ModifyDate>${metadata.modificationDate}</xmp:ModifyDate>`,
+  ].filter(Boolean);
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:pdf="http://ns.adobe.com/pdf/1.3/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+function removeXMP(pdfDoc: PDFDocument): void {
+  const existing = pdfDoc.catalog.get(PDFName.of('Metadata'));
+  if (existing instanceof PDFRef) pdfDoc.context.delete(existing);
+  pdfDoc.catalog.delete(PDFName.of('Metadata'));
+}
+
+function removeInfo(pdfDoc: PDFDocument): void {
+  const info = pdfDoc.context.trailerInfo.Info;
+  if (info instanceof PDFRef) pdfDoc.context.delete(info);
+  pdfDoc.context.trailerInfo.Info = undefined;
+}
+
+/** Writes the metadata into both the Info dictionary and a fresh XMP packet. */
+export function writeDocumentMetadata(pdfDoc: PDFDocument, metadata: DocumentMetadata): void {
+  const { context } = pdfDoc;
+  const existing = context.lookup(context.trailerInfo.Info);
+  const info = existing instanceof PDFDict ? existing : context.obj({});
+  if (info !== existing) context.trailerInfo.Info = context.register(info);
+  for (const [field, key] of Object.entries(INFO_KEYS) as [keyof typeof INFO_KEYS, string][]) {
+    const value = metadata[field].trim();
+    if (value) info.set(PDFName.of(key), PDFHexString.fromText(value));
+    else info.delete(PDFName.of(key));
+  }
+  for (const [field, key] of [['creationDate', 'CreationDate'], ['modificationDate', 'ModDate']] as const) {
+    const value = metadata[field];
+    if (value) info.set(PDFName.of(key), PDFString.fromDate(new Date(value)));
+    else info.delete(PDFName.of(key));
+  }
+
+  removeXMP(pdfDoc);
+  const stream = pdfDoc.context.stream(new TextEncoder().encode(buildXMPPacket(metadata)), {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(stream));
+}
+
+/**
+ * Removes the Info dictionary, the document XMP packet and per-page metadata
+ * and application data, so nothing identifies the author or tools used.
+ */
+export function stripDocumentMetadata(pdfDoc: PDFDocument): void {
+  const { context } = pdfDoc;
+  removeInfo(pdfDoc);
+  removeXMP(pdfDoc);
+
+  for (const page of pdfDoc.getPages()) {
+    for (const key of ['Metadata', 'PieceInfo']) {
+      const value = page.node.get(PDFName.of(key));
+      if (value instanceof PDFRef) context.delete(value);
+      page.node.delete(PDFName.of(key));
+    }
+  }
+}
+
+/**
+ * Gives a document built from pages of `source` the same Info dictionary and
+ * XMP packet, replacing whatever pdf-lib set up on creation.
+ */
+export function copyDocumentMetadata(source: PDFDocument, target: PDFDocument): void {
+  removeInfo(target);
+  removeXMP(target);
+
+  const info = source.context.lookup(source.context.trailerInfo.Info);
+  if (info instanceof PDFDict) {
+    target.context.trailerInfo.Info = target.context.register(info.clone(target.context));
+  }
+
+  const xmp = source.context.lookup(source.catalog.get(PDFName.of('Metadata')));
+  if (xmp instanceof PDFRawStream) {
+    const copy = PDFRawStream.of(xmp.dict.clone(target.context), xmp.getContents());
+    target.catalog.set(PDFName.of('Metadata'), target.context.register(copy));
+  }
+}
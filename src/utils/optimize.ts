@@ -0,0 +1,265 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import type { OptimizePreset, OptimizeSettings, TaskOptions } from '@/types/pdf';
+import { removeUnreachableObjects, reportProgress } from '@/utils/pdfUtils';
+import { sha } from '@/utils/pdfCrypto';
+
+export const OPTIMIZE_PRESETS: Record<OptimizePreset, OptimizeSettings & { label: string; description: string }> = {
+  screen: { label: '螢幕', description: '72 DPI，檔案最小，適合寄送郵件', dpi: 72, quality: 0.5 },
+  ebook: { label: '電子書', description: '150 DPI，兼顧大小與清晰度', dpi: 150, quality: 0.7 },
+  print: { label: '列印', description: '300 DPI，保留列印品質', dpi: 300, quality: 0.85 },
+};
+
+// Images are only resampled when clearly above the target, as Ghostscript does
+const DOWNSAMPLE_THRESHOLD = 1.5;
+// Smaller uncompressed streams are not worth a Flate header
+const MIN_COMPRESS_LENGTH = 64;
+
+/**
+ * The largest page side, in points, that each image is drawn on. Images are
+ * assumed to fill at most the whole page, which is exact for scans and errs
+ * towards keeping resolution for smaller pictures.
+ */
+function collectImageExtents(pdfDoc: PDFDocument): Map<PDFRef, number> {
+  const { context } = pdfDoc;
+  const extents = new Map<PDFRef, number>();
+
+  const visit = (resources: PDFDict | undefined, extent: number, seen: Set<PDFRef>) => {
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!xObjects) return;
+    for (const value of xObjects.values()) {
+      if (!(value instanceof PDFRef) || seen.has(value)) continue;
+      const stream = context.lookup(value);
+      if (!(stream instanceof PDFStream)) continue;
+      const subtype = stream.dict.get(PDFName.of('Subtype'));
+      if (subtype === PDFName.of('Image')) {
+        extents.set(value, Math.max(extents.get(value) ?? 0, extent));
+      } else if (subtype === PDFName.of('Form')) {
+        // Forms may nest; guard against reference cycles
+        seen.add(value);
+        visit(stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), extent, seen);
+      }
+    }
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    const { width, height } = page.getSize();
+    visit(page.node.Resources(), Math.max(width, height), new Set());
+  }
+  return extents;
+}
+
+// Colour components of image colour spaces we can re-encode, or null for the others.
+function colorComponents(colorSpace: PDFObject | undefined, pdfDoc: PDFDocument): number | null {
+  const resolved = colorSpace instanceof PDFRef ? pdfDoc.context.lookup(colorSpace) : colorSpace;
+  if (resolved === PDFName.of('DeviceRGB')) return 3;
+  if (resolved === PDFName.of('DeviceGray')) return 1;
+  if (resolved instanceof PDFArray && resolved.lookup(0) === PDFName.of('ICCBased')) {
+    const profile = resolved.lookup(1);
+    const components = profile instanceof PDFStream ? profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber() : undefined;
+    return components === 1 || components === 3 ? components : null;
+  }
+  return null;
+}
+
+// Decodes an 8-bit RGB or grey image, or returns null when its encoding is left alone.
+async function decodeImage(stream: PDFRawStream, components: number): Promise<ImageBitmap | null> {
+  const { dict } = stream;
+  // Masks, decode arrays and colour-key masks depend on exact sample values
+  if (dict.get(PDFName.of('ImageMask')) === PDFBool.True) return null;
+  if (dict.has(PDFName.of('Decode')) || dict.lookup(PDFName.of('Mask')) instanceof PDFArray) return null;
+  if (dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber() !== 8) return null;
+
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const filterName = filter instanceof PDFArray && filter.size() === 1 ? filter.lookup(0) : filter;
+  if (filterName === PDFName.of('DCTDecode')) {
+    return await createImageBitmap(new Blob([stream.contents as BlobPart], { type: 'image/jpeg' }));
+  }
+  if (filterName !== undefined && filterName !== PDFName.of('FlateDecode')) return null;
+
+  // pdf-lib's Flate decoder does not undo PNG or TIFF predictors
+  const parms = dict.lookup(PDFName.of('DecodeParms'));
+  const parmsDict = parms instanceof PDFArray ? parms.lookup(0) : parms;
+  if (parmsDict instanceof PDFDict && (parmsDict.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() ?? 1) > 1) {
+    return null;
+  }
+
+  const width = dict.lookup(PDFName.of('Width'), PDFNumber).asNumber();
+  const height = dict.lookup(PDFName.of('Height'), PDFNumber).asNumber();
+  const samples = filterName ? decodePDFRawStream(stream).decode() : stream.contents;
+  if (samples.length < width * height * components) return null;
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, s = 0; i < rgba.length; i += 4, s += components) {
+    rgba[i] = samples[s];
+    rgba[i + 1] = samples[components === 3 ? s + 1 : s];
+    rgba[i + 2] = samples[components === 3 ? s + 2 : s];
+    rgba[i + 3] = 255;
+  }
+  return await createImageBitmap(new ImageData(rgba, width, height));
+}
+
+// Resamples images drawn above the target resolution to JPEG.
+async function downsampleImages(pdfDoc: PDFDocument, settings: OptimizeSettings, options: TaskOptions): Promise<void> {
+  // The main-thread fallback may run where OffscreenCanvas is missing
+  if (typeof OffscreenCanvas === 'undefined') return;
+
+  const { context } = pdfDoc;
+  const extents = [...collectImageExtents(pdfDoc)];
+  for (const [i, [ref, extent]] of extents.entries()) {
+    await reportProgress(options, i + 1, extents.length);
+    const stream = context.lookup(ref);
+    if (!(stream instanceof PDFRawStream)) continue;
+
+    const width = stream.dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+    const height = stream.dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+    const scale = (extent / 72) * settings.dpi / Math.max(width, height);
+    if (scale * DOWNSAMPLE_THRESHOLD >= 1) continue;
+
+    const components = colorComponents(stream.dict.get(PDFName.of('ColorSpace')), pdfDoc);
+    if (components === null) continue;
+    let bitmap: ImageBitmap | null;
+    try {
+      bitmap = await decodeImage(stream, components);
+    } catch (error) {
+      // Leave images the browser cannot decode as they are
+      console.warn('Skipped an undecodable image:', error);
+      continue;
+    }
+    if (!bitmap) continue;
+
+    const target = { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+    const canvas = new OffscreenCanvas(target.width, target.height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, target.width, target.height);
+    bitmap.close();
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: settings.quality });
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (bytes.length >= stream.contents.length) continue;
+
+    const dict = stream.dict.clone(context);
+    dict.set(PDFName.of('Width'), PDFNumber.of(target.width));
+    dict.set(PDFName.of('Height'), PDFNumber.of(target.height));
+    dict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+    dict.set(PDFName.of('BitsPerComponent'), PDFNumber.of(8));
+    // Canvas JPEGs always carry three channels
+    if (components === 1) dict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+    dict.delete(PDFName.of('DecodeParms'));
+    dict.delete(PDFName.of('Length'));
+    context.assign(ref, PDFRawStream.of(dict, bytes));
+  }
+}
+
+// Replaces references in an object graph, in place.
+function remapReferences(object: PDFObject, replacements: Map<PDFRef, PDFRef>): PDFObject {
+  if (object instanceof PDFRef) return replacements.get(object) ?? object;
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) object.set(key, remapReferences(value, replacements));
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) object.set(i, remapReferences(object.get(i), replacements));
+  } else if (object instanceof PDFStream) {
+    remapReferences(object.dict, replacements);
+  }
+  return object;
+}
+
+// Image and embedded font-file streams, which merged documents often carry more than once.
+function collectSharableStreams(pdfDoc: PDFDocument): Set<PDFRef> {
+  const refs = new Set<PDFRef>();
+  for (const [ref, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream && object.dict.get(PDFName.of('Subtype')) === PDFName.of('Image')) {
+      refs.add(ref);
+    } else if (object instanceof PDFDict && object.get(PDFName.of('Type')) === PDFName.of('FontDescriptor')) {
+      for (const key of ['FontFile', 'FontFile2', 'FontFile3']) {
+        const file = object.get(PDFName.of(key));
+        if (file instanceof PDFRef) refs.add(file);
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Points every reference of an identical image or font stream at one copy.
+ * Streams are compared by content and dictionary, so images whose soft masks
+ * were merged match on the next pass.
+ */
+async function dedupeStreams(pdfDoc: PDFDocument): Promise<void> {
+  const { context } = pdfDoc;
+  for (;;) {
+    const canonical = new Map<string, PDFRef>();
+    const replacements = new Map<PDFRef, PDFRef>();
+    for (const ref of collectSharableStreams(pdfDoc)) {
+      const stream = context.lookup(ref);
+      if (!(stream instanceof PDFRawStream)) continue;
+      const digest = await sha('SHA-256', stream.contents);
+      const entries = stream.dict.entries()
+        .filter(([key]) => key !== PDFName.of('Length'))
+        .map(([key, value]) => `${key.toString()} ${value.toString()}`)
+        .sort();
+      const key = `${Array.from(digest).join(',')}|${entries.join(' ')}`;
+
+      const existing = canonical.get(key);
+      if (existing) replacements.set(ref, existing);
+      else canonical.set(key, ref);
+    }
+    if (replacements.size === 0) return;
+
+    for (const [, object] of context.enumerateIndirectObjects()) remapReferences(object, replacements);
+    for (const ref of replacements.keys()) context.delete(ref);
+  }
+}
+
+// Flate-compresses streams that were stored without any filter.
+function compressStreams(pdfDoc: PDFDocument): void {
+  const { context } = pdfDoc;
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream) || object.dict.has(PDFName.of('Filter'))) continue;
+    if (object.contents.length < MIN_COMPRESS_LENGTH) continue;
+    // XMP metadata is expected to stay readable without decoding
+    const type = object.dict.get(PDFName.of('Type'));
+    if (type === PDFName.of('Metadata') || type === PDFName.of('XRef')) continue;
+
+    const compressed = context.flateStream(object.contents);
+    if (compressed.contents.length >= object.contents.length) continue;
+    for (const [key, value] of object.dict.entries()) {
+      if (key !== PDFName.of('Length')) compressed.dict.set(key, value);
+    }
+    context.assign(ref, compressed);
+  }
+}
+
+/**
+ * Shrinks a PDF: downsamples images above the target resolution, shares
+ * duplicate image and font streams, compresses unfiltered streams, drops
+ * unreachable objects and writes object streams. The input is returned
+ * unchanged when the result would not be smaller.
+ */
+export async function optimizePDF(
+  arrayBuffer: ArrayBuffer,
+  settings: OptimizeSettings,
+  options: TaskOptions = {}
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(arrayBuffer, { updateMetadata: false });
+
+  await downsampleImages(pdfDoc, settings, options);
+  await dedupeStreams(pdfDoc);
+  compressStreams(pdfDoc);
+  removeUnreachableObjects(pdfDoc);
+  options.signal?.throwIfAborted();
+
+  const optimized = await pdfDoc.save({ useObjectStreams: true });
+  return optimized.length < arrayBuffer.byteLength ? optimized : new Uint8Array(arrayBuffer);
+}
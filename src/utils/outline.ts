@@ -0,0 +1,243 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+  type PDFObject,
+} from 'pdf-lib';
+import type { OutlineItem } from '@/types/pdf';
+
+// Outline trees from damaged files can loop; stop well before that hurts
+const MAX_OUTLINE_ITEMS = 10000;
+
+function decodeText(value: PDFObject | undefined): string {
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : '';
+}
+
+// Finds `name` in a name tree (the /Names /Dests structure).
+function lookupNameTree(pdfDoc: PDFDocument, node: PDFObject | undefined, name: string, depth = 0): PDFObject | undefined {
+  const dict = pdfDoc.context.lookup(node);
+  if (!(dict instanceof PDFDict) || depth > 32) return undefined;
+
+  const names = dict.lookup(PDFName.of('Names'));
+  if (names instanceof PDFArray) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      if (decodeText(names.lookup(i)) === name) return names.get(i + 1);
+    }
+  }
+  const kids = dict.lookup(PDFName.of('Kids'));
+  if (kids instanceof PDFArray) {
+    for (let i = 0; i < kids.size(); i++) {
+      const found = lookupNameTree(pdfDoc, kids.get(i), name, depth + 1);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+function resolveNamedDestination(pdfDoc: PDFDocument, name: PDFObject): PDFObject | undefined {
+  const { catalog } = pdfDoc;
+  if (name instanceof PDFName) {
+    const dests = catalog.lookup(PDFName.of('Dests'));
+    return dests instanceof PDFDict ? dests.get(name) : undefined;
+  }
+  const names = catalog.lookup(PDFName.of('Names'));
+  if (!(names instanceof PDFDict)) return undefined;
+  return lookupNameTree(pdfDoc, names.get(PDFName.of('Dests')), decodeText(name));
+}
+
+/**
+ * Reads the document outline. Destinations are resolved to page indices
+ * whether they are explicit, named, or given through a GoTo action;
+ * bookmarks with any other action keep a null destination.
+ */
+export function readOutline(pdfDoc: PDFDocument): OutlineItem[] {
+  const { context } = pdfDoc;
+  const root = pdfDoc.catalog.lookup(PDFName.of('Outlines'));
+  if (!(root instanceof PDFDict)) return [];
+
+  const pageIndices = new Map(pdfDoc.getPages().map((page, i) => [page.ref, i]));
+  const visited = new Set<PDFDict>();
+
+  const resolvePage = (item: PDFDict): number | null => {
+    let dest: PDFObject | undefined = item.get(PDFName.of('Dest'));
+    if (!dest) {
+      const action = item.lookup(PDFName.of('A'));
+      if (action instanceof PDFDict && action.get(PDFName.of('S')) === PDFName.of('GoTo')) {
+        dest = action.get(PDFName.of('D'));
+      }
+    }
+    let resolved = context.lookup(dest);
+    if (resolved instanceof PDFName || resolved instanceof PDFString || resolved instanceof PDFHexString) {
+      resolved = context.lookup(resolveNamedDestination(pdfDoc, resolved));
+    }
+    // Named destinations may be wrapped in a dictionary
+    if (resolved instanceof PDFDict) resolved = resolved.lookup(PDFName.of('D'));
+    if (!(resolved instanceof PDFArray) || resolved.size() === 0) return null;
+
+    const target = resolved.get(0);
+    if (target instanceof PDFRef) return pageIndices.get(target) ?? null;
+    // Remote-style destinations give the page as a number
+    return target instanceof PDFNumber ? target.asNumber() : null;
+  };
+
+  const readLevel = (first: PDFObject | undefined): OutlineItem[] => {
+    const items: OutlineItem[] = [];
+    let node = context.lookup(first);
+    while (node instanceof PDFDict && !visited.has(node) && visited.size < MAX_OUTLINE_ITEMS) {
+      visited.add(node);
+      items.push({
+        id: crypto.randomUUID(),
+        title: decodeText(node.lookup(PDFName.of('Title'))),
+        pageIndex: resolvePage(node),
+        children: readLevel(node.get(PDFName.of('First'))),
+      });
+      node = node.lookup(PDFName.of('Next'));
+    }
+    return items;
+  };
+
+  return readLevel(root.get(PDFName.of('First')));
+}
+
+/**
+ * Replaces the document outline with `items`. Destinations point at the
+ * top of the page at the current zoom. Nested levels start collapsed.
+ */
+export function writeOutline(pdfDoc: PDFDocument, items: OutlineItem[]): void {
+  const { context, catalog } = pdfDoc;
+  if (items.length === 0) {
+    catalog.delete(PDFName.of('Outlines'));
+    return;
+  }
+
+  const pages = pdfDoc.getPages();
+  const writeLevel = (level: OutlineItem[], parent: PDFRef) => {
+    const refs = level.map(() => context.nextRef());
+    level.forEach((item, i) => {
+      const dict = context.obj({ Title: PDFHexString.fromText(item.title), Parent: parent });
+      if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < level.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+
+      const page = item.pageIndex === null ? undefined : pages[item.pageIndex];
+      if (page) dict.set(PDFName.of('Dest'), context.obj([page.ref, 'XYZ', null, null, null]));
+
+      if (item.children.length > 0) {
+        const children = writeLevel(item.children, refs[i]);
+        dict.set(PDFName.of('First'), children.first);
+        dict.set(PDFName.of('Last'), children.last);
+        dict.set(PDFName.of('Count'), PDFNumber.of(-item.children.length));
+      }
+      context.assign(refs[i], dict);
+    });
+    return { first: refs[0], last: refs[refs.length - 1] };
+  };
+
+  const rootRef = context.nextRef();
+  const top = writeLevel(items, rootRef);
+  context.assign(rootRef, context.obj({
+    Type: 'Outlines',
+    First: top.first,
+    Last: top.last,
+    Count: items.length,
+  }));
+  catalog.set(PDFName.of('Outlines'), rootRef);
+}
+
+/**
+ * Moves every destination through `mapIndex`. A bookmark whose page no
+ * longer exists is dropped and its children move up a level.
+ */
+export function remapOutline(items: OutlineItem[], mapIndex: (pageIndex: number) => number | null): OutlineItem[] {
+  return items.flatMap(item => {
+    const children = remapOutline(item.children, mapIndex);
+    if (item.pageIndex === null) return [{ ...item, children }];
+
+    const pageIndex = mapIndex(item.pageIndex);
+    return pageIndex === null ? children : [{ ...item, pageIndex, children }];
+  });
+}
+
+// Outline of a document assembled from the given source pages, in order.
+export function remapOutlineToPages(items: OutlineItem[], pageIndices: number[], offset: number = 0): OutlineItem[] {
+  return remapOutline(items, pageIndex => {
+    const position = pageIndices.indexOf(pageIndex);
+    return position === -1 ? null : offset + position;
+  });
+}
+
+const outlineCache = new WeakMap<ArrayBuffer, Promise<OutlineItem[]>>();
+
+// Outline of the (immutable) original bytes, read once per document.
+export function getOriginalOutline(arrayBuffer: ArrayBuffer): Promise<OutlineItem[]> {
+  let cached = outlineCache.get(arrayBuffer);
+  if (!cached) {
+    cached = PDFDocument.load(arrayBuffer, { updateMetadata: false }).then(readOutline);
+    outlineCache.set(arrayBuffer, cached);
+  }
+  return cached;
+}
+
+// Tree edits used by the outline panel; each returns a new tree.
+
+export function updateOutlineItem(items: OutlineItem[], id: string, changes: Partial<OutlineItem>): OutlineItem[] {
+  return items.map(item => item.id === id
+    ? { ...item, ...changes }
+    : { ...item, children: updateOutlineItem(item.children, id, changes) });
+}
+
+export function removeOutlineItem(items: OutlineItem[], id: string): OutlineItem[] {
+  return items
+    .filter(item => item.id !== id)
+    .map(item => ({ ...item, children: removeOutlineItem(item.children, id) }));
+}
+
+export function addOutlineChild(items: OutlineItem[], parentId: string, child: OutlineItem): OutlineItem[] {
+  return items.map(item => item.id === parentId
+    ? { ...item, children: [...item.children, child] }
+    : { ...item, children: addOutlineChild(item.children, parentId, child) });
+}
+
+// Makes the item the last child of its previous sibling.
+export function indentOutlineItem(items: OutlineItem[], id: string): OutlineItem[] {
+  const index = items.findIndex(item => item.id === id);
+  if (index > 0) {
+    const previous = items[index - 1];
+    const next = items.filter((_, i) => i !== index);
+    next[index - 1] = { ...previous, children: [...previous.children, items[index]] };
+    return next;
+  }
+  if (index === 0) return items;
+  return items.map(item => ({ ...item, children: indentOutlineItem(item.children, id) }));
+}
+
+// Moves the item out of its parent, right after it.
+export function outdentOutlineItem(items: OutlineItem[], id: string): OutlineItem[] {
+  const result: OutlineItem[] = [];
+  for (const item of items) {
+    const child = item.children.find(c => c.id === id);
+    if (child) {
+      result.push({ ...item, children: item.children.filter(c => c.id !== id) }, child);
+    } else {
+      result.push({ ...item, children: outdentOutlineItem(item.children, id) });
+    }
+  }
+  return result;
+}
+
+// Swaps the item with its previous (-1) or next (1) sibling.
+export function moveOutlineItem(items: OutlineItem[], id: string, offset: -1 | 1): OutlineItem[] {
+  const index = items.findIndex(item => item.id === id);
+  if (index === -1) {
+    return items.map(item => ({ ...item, children: moveOutlineItem(item.children, id, offset) }));
+  }
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
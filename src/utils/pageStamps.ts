@@ -0,0 +1,90 @@
+import type { HeaderFooterSettings, PageOperation, PageStamp, PDFDocument, StampSlot } from '@/types/pdf';
+import { expandMergeRules, parseMergeRules } from '@/utils/pdfUtils';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+export const STAMP_SLOT_LABELS: Record<StampSlot, string> = {
+  'header-left': '頁首左',
+  'header-center': '頁首中',
+  'header-right': '頁首右',
+  'footer-left': '頁尾左',
+  'footer-center': '頁尾中',
+  'footer-right': '頁尾右',
+};
+
+export interface StampValues {
+  page: number;
+  total: number;
+  bates: string;
+  filename: string;
+  date: string;
+}
+
+export function formatStampTemplate(template: string, values: StampValues): string {
+  return template.replace(/\{(page|total|bates|filename|date)\}/g, (_, token: keyof StampValues) => String(values[token]));
+}
+
+export function formatBatesNumber(prefix: string, counter: number, digits: number): string {
+  return `${prefix}${String(counter).padStart(digits, '0')}`;
+}
+
+// Today's date as YYYY-MM-DD in local time.
+export function formatStampDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Zero-based pages of one document that receive a stamp.
+export function getStampedPages(settings: HeaderFooterSettings, pageCount: number): number[] {
+  const pages = settings.range.trim()
+    ? Array.from(new Set(expandMergeRules(parseMergeRules(settings.range, pageCount).rules))).sort((a, b) => a - b)
+    : Array.from({ length: pageCount }, (_, i) => i);
+  return settings.skipFirstPage ? pages.filter(index => index !== 0) : pages;
+}
+
+/**
+ * Resolves the templates for every stamped page of the given documents, in
+ * order, so Bates numbers continue from one document to the next. Returns one
+ * stamp operation per document that has stamped pages.
+ */
+export function buildStampOperations(
+  documents: PDFDocument[],
+  settings: HeaderFooterSettings,
+  date: string = formatStampDate()
+): Map<string, PageOperation> {
+  const operations = new Map<string, PageOperation>();
+  let counter = settings.batesStart;
+
+  for (const doc of documents) {
+    const stamps = getStampedPages(settings, doc.pageCount).map(pageIndex => {
+      const values: StampValues = {
+        page: pageIndex + 1,
+        total: doc.pageCount,
+        bates: formatBatesNumber(settings.batesPrefix, counter++, settings.batesDigits),
+        filename: doc.name,
+        date,
+      };
+      const texts: PageStamp['texts'] = {};
+      for (const [slot, template] of Object.entries(settings.templates) as [StampSlot, string][]) {
+        if (template.trim()) texts[slot] = formatStampTemplate(template, values);
+      }
+
+      const stamp: PageStamp = {
+        id: crypto.randomUUID(),
+        texts,
+        fontFamily: settings.fontFamily,
+        fontSize: settings.fontSize,
+        color: settings.color,
+        marginX: settings.marginX * POINTS_PER_MM,
+        marginY: settings.marginY * POINTS_PER_MM,
+      };
+      return { pageIndex, stamp };
+    });
+
+    if (stamps.length > 0) {
+      operations.set(doc.id, { type: 'stamp', stamps });
+    }
+  }
+  return operations;
+}
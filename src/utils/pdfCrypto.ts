@@ -0,0 +1,136 @@
+// Cryptographic primitives for the PDF standard security handler. MD5 and RC4
+// are not offered by Web Crypto, so they are implemented here; AES and SHA-2
+// use `crypto.subtle`, which is available in both windows and workers.
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+export function md5(data: Uint8Array): Uint8Array {
+  // Pad to 56 mod 64 bytes, then append the bit length
+  const paddedLength = ((data.length + 8) >> 6) * 64 + 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const words = new Uint32Array(16);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4, true);
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + MD5_CONSTANTS[i] + words[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) >>> 0;
+    }
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => digestView.setUint32(i * 4, word, true));
+  return digest;
+}
+
+// RC4 is symmetric: the same call encrypts and decrypts.
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const state = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) state[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function importAesKey(key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, [usage]);
+}
+
+/**
+ * AES-CBC encryption. Without `padding` the input must be whole blocks and
+ * the output has the same length, as the key derivation of AES-256 needs.
+ */
+export async function aesEncrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding: boolean = true): Promise<Uint8Array> {
+  const cryptoKey = await importAesKey(key, 'encrypt');
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource));
+  // Web Crypto always pads; whole-block input just gains one extra block
+  return padding ? encrypted : encrypted.subarray(0, data.length);
+}
+
+/** AES-CBC decryption; without `padding` the input must be whole blocks. */
+export async function aesDecrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding: boolean = true): Promise<Uint8Array> {
+  const cryptoKey = await importAesKey(key, 'decrypt');
+  if (padding) {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource));
+  }
+
+  // Web Crypto insists on valid padding, so append a block that decrypts to a full padding block
+  const lastBlock = data.length >= 16 ? data.subarray(data.length - 16) : iv;
+  const paddingBlock = (await aesEncrypt(key, lastBlock, new Uint8Array(16).fill(16), false));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    cryptoKey,
+    concatBytes(data, paddingBlock) as BufferSource
+  );
+  return new Uint8Array(decrypted);
+}
+
+export async function sha(algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+}
@@ -0,0 +1,173 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { AnnotationSummary, FormWidget, PDFPageData } from '@/types/pdf';
+import { bakePage } from '@/utils/editOperations';
+import { getPDFWorker } from '@/utils/pdfWorker';
+import { parsePDFDate } from '@/utils/metadata';
+
+export async function loadPDFDocument(arrayBuffer: ArrayBuffer, password?: string): Promise<pdfjsLib.PDFDocumentProxy> {
+  const worker = await getPDFWorker();
+  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer.slice(0), worker, password });
+  return await loadingTask.promise;
+}
+
+// Whether PDF.js can open an encrypted document with `password`; other load errors are rethrown.
+export async function verifyPassword(arrayBuffer: ArrayBuffer, password: string): Promise<boolean> {
+  try {
+    const pdfDoc = await loadPDFDocument(arrayBuffer, password);
+    await pdfDoc.destroy();
+    return true;
+  } catch (error) {
+    // PDF.js does not export PasswordException, so match it by name
+    if (error instanceof Error && error.name === 'PasswordException') return false;
+    throw error;
+  }
+}
+
+const documentCache = new WeakMap<ArrayBuffer, Promise<pdfjsLib.PDFDocumentProxy>>();
+
+// Returns a shared PDF.js document for the given (immutable) original bytes.
+export function getCachedPDFDocument(arrayBuffer: ArrayBuffer): Promise<pdfjsLib.PDFDocumentProxy> {
+  let cached = documentCache.get(arrayBuffer);
+  if (!cached) {
+    cached = loadPDFDocument(arrayBuffer);
+    documentCache.set(arrayBuffer, cached);
+  }
+  return cached;
+}
+
+export async function releaseCachedPDFDocument(arrayBuffer: ArrayBuffer): Promise<void> {
+  const cached = documentCache.get(arrayBuffer);
+  if (!cached) return;
+  documentCache.delete(arrayBuffer);
+  await (await cached).destroy();
+}
+
+export async function renderPage(
+  pdfDoc: pdfjsLib.PDFDocumentProxy,
+  pageNum: number,
+  scale: number = 1,
+  rotation: number = 0,
+  background?: string
+): Promise<HTMLCanvasElement> {
+  const page = await pdfDoc.getPage(pageNum);
+  const viewport = page.getViewport({ scale, rotation: (page.rotate + rotation) % 360 });
+  
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  await page.render({
+    canvasContext: context,
+    viewport: viewport,
+    canvas: canvas,
+    background,
+  } as any).promise;
+
+  return canvas;
+}
+
+export async function renderPageToCanvas(
+  pdfDoc: pdfjsLib.PDFDocumentProxy,
+  pageNum: number,
+  scale: number = 1,
+  rotation: number = 0
+): Promise<string> {
+  const canvas = await renderPage(pdfDoc, pageNum, scale, rotation);
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Failed to encode ${type}`)), type, quality);
+  });
+}
+
+export async function getPageCount(arrayBuffer: ArrayBuffer): Promise<number> {
+  const pdfDoc = await getCachedPDFDocument(arrayBuffer);
+  return pdfDoc.numPages;
+}
+
+/**
+ * Opens a page as it will look after export and passes it to `use`. Pages
+ * without baked edits are read straight from the cached original; the rest
+ * are baked into a temporary one-page document that is destroyed afterwards.
+ */
+export async function withEditedPage<T>(
+  arrayBuffer: ArrayBuffer,
+  data: PDFPageData,
+  includeText: boolean,
+  use: (pdfDoc: pdfjsLib.PDFDocumentProxy, pageNum: number, rotation: number) => Promise<T>
+): Promise<T> {
+  const needsBake = !!data.cropBox
+    || !!data.watermarks?.length
+    || !!data.stamps?.length
+    || (includeText && (data.textAnnotations.length > 0 || !!data.markups?.length || !!data.drawing?.shapes.length || !!data.signatures?.length));
+  if (!needsBake) {
+    const pdfDoc = await getCachedPDFDocument(data.source?.arrayBuffer ?? arrayBuffer);
+    return await use(pdfDoc, data.pageIndex + 1, data.rotation);
+  }
+
+  const baked = await bakePage(arrayBuffer, data, includeText);
+  const pdfDoc = await loadPDFDocument(baked.buffer as ArrayBuffer);
+  try {
+    return await use(pdfDoc, 1, 0);
+  } finally {
+    await pdfDoc.destroy();
+  }
+}
+
+// Renders a page as it will look after export, without re-saving the whole document.
+export async function renderEditedPage(
+  arrayBuffer: ArrayBuffer,
+  data: PDFPageData,
+  scale: number,
+  includeText: boolean = true
+): Promise<string> {
+  return await withEditedPage(arrayBuffer, data, includeText, (pdfDoc, pageNum, rotation) =>
+    renderPageToCanvas(pdfDoc, pageNum, scale, rotation));
+}
+
+// Form field widgets on a page as it will look after export.
+export async function getFormWidgets(arrayBuffer: ArrayBuffer, data: PDFPageData): Promise<FormWidget[]> {
+  return await withEditedPage(arrayBuffer, data, false, async (pdfDoc, pageNum, rotation) => {
+    const page = await pdfDoc.getPage(pageNum);
+    const viewport = page.getViewport({ scale: 1, rotation: (page.rotate + rotation) % 360 });
+    const annotations = await page.getAnnotations();
+
+    return annotations
+      .filter(annotation => annotation.subtype === 'Widget' && annotation.fieldName && !annotation.hidden)
+      .map(annotation => {
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+        return {
+          fieldName: annotation.fieldName as string,
+          exportValue: annotation.radioButton ? annotation.buttonValue as string : undefined,
+          x: Math.min(x1, x2) / viewport.width,
+          y: Math.min(y1, y2) / viewport.height,
+          width: Math.abs(x2 - x1) / viewport.width,
+          height: Math.abs(y2 - y1) / viewport.height,
+        };
+      });
+  });
+}
+
+// Subtypes that carry no review content of their own
+const NON_REVIEW_SUBTYPES = ['Widget', 'Link', 'Popup'];
+
+// Review annotations already in the page, as it will look after export.
+export async function getPageAnnotations(arrayBuffer: ArrayBuffer, data: PDFPageData): Promise<AnnotationSummary[]> {
+  return await withEditedPage(arrayBuffer, data, false, async (pdfDoc, pageNum) => {
+    const page = await pdfDoc.getPage(pageNum);
+    const annotations = await page.getAnnotations();
+
+    return annotations
+      .filter(annotation => !NON_REVIEW_SUBTYPES.includes(annotation.subtype))
+      .map(annotation => ({
+        subtype: annotation.subtype as string,
+        author: annotation.titleObj?.str ?? '',
+        date: parsePDFDate(annotation.modificationDate ?? annotation.creationDate ?? ''),
+        comment: annotation.contentsObj?.str ?? '',
+      }));
+  });
+}
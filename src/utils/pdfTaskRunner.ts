@@ -0,0 +1,131 @@
+import PDFOperationsWorker from '@/workers/pdfOperations.worker.ts?worker&inline';
+import type { TaskOptions } from '@/types/pdf';
+import {
+  executeTask,
+  type PDFTask,
+  type PDFTaskResult,
+  type WorkerRequest,
+  type WorkerResponse,
+} from '@/workers/pdfTasks';
+import { DEFAULT_FONT_FAMILY, getFontBytes, getRequiredFontFamilies } from '@/utils/fonts';
+
+interface PendingTask {
+  task: PDFTask;
+  options: TaskOptions;
+  resolve: (result: Uint8Array | Uint8Array[]) => void;
+  reject: (reason: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextTaskId = 1;
+const pendingTasks = new Map<number, PendingTask>();
+
+function handleMessage(event: MessageEvent<WorkerResponse>) {
+  const response = event.data;
+  const pending = pendingTasks.get(response.id);
+  if (!pending) return;
+
+  switch (response.kind) {
+    case 'progress':
+      pending.options.onProgress?.(response.current, response.total);
+      return;
+    case 'result':
+      pending.resolve(response.result);
+      break;
+    case 'error':
+      pending.reject(new Error(response.message));
+      break;
+    case 'cancelled':
+      pending.reject(new DOMException('Task was cancelled', 'AbortError'));
+      break;
+  }
+  pendingTasks.delete(response.id);
+}
+
+// If the worker cannot start, finish whatever was queued on the main thread.
+function handleWorkerError(event: ErrorEvent) {
+  console.error('PDF operations worker failed, falling back to the main thread:', event.message);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+
+  const queued = Array.from(pendingTasks.values());
+  pendingTasks.clear();
+  queued.forEach(({ task, options, resolve, reject }) => {
+    executeTask(task, options).then(resolve, reject);
+  });
+}
+
+function getWorker(): Worker | null {
+  if (workerFailed) return null;
+  if (!worker) {
+    try {
+      worker = new PDFOperationsWorker();
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', handleWorkerError);
+    } catch (error) {
+      console.error('PDF operations worker unavailable:', error);
+      workerFailed = true;
+      return null;
+    }
+  }
+  return worker;
+}
+
+async function collectFonts(task: PDFTask): Promise<Record<string, ArrayBuffer>> {
+  if (task.type !== 'export') return {};
+
+  const families = task.operations.flatMap(operation => {
+    if (operation.type === 'text') return operation.annotations.map(annotation => annotation.fontFamily);
+    if (operation.type === 'watermark' && operation.watermark.kind === 'text') return [operation.watermark.fontFamily];
+    if (operation.type === 'stamp') return operation.stamps.map(({ stamp }) => stamp.fontFamily);
+    // Signature stamps are always set in the bundled font
+    if (operation.type === 'sign') return operation.signatures.filter(s => s.stamp).map(() => DEFAULT_FONT_FAMILY);
+    // Field appearances fall back to the bundled font for non-Latin values
+    if (operation.type === 'form') return ['Helvetica'];
+    return [];
+  });
+  const fonts: Record<string, ArrayBuffer> = {};
+  for (const family of getRequiredFontFamilies(families)) {
+    fonts[family] = await getFontBytes(family);
+  }
+  return fonts;
+}
+
+/**
+ * Runs a pdf-lib task in the operations worker. Progress is forwarded to
+ * `options.onProgress`; aborting `options.signal` cancels the task.
+ */
+export async function runPDFTask<T extends PDFTask>(task: T, options: TaskOptions = {}): Promise<PDFTaskResult<T>> {
+  const fonts = await collectFonts(task);
+  options.signal?.throwIfAborted();
+
+  const target = getWorker();
+  if (!target) {
+    return await executeTask(task, options) as PDFTaskResult<T>;
+  }
+
+  const id = nextTaskId++;
+  return await new Promise<PDFTaskResult<T>>((resolve, reject) => {
+    pendingTasks.set(id, {
+      task,
+      options,
+      resolve: result => resolve(result as PDFTaskResult<T>),
+      reject,
+    });
+
+    options.signal?.addEventListener('abort', () => {
+      if (!pendingTasks.delete(id)) return;
+      worker?.postMessage({ kind: 'cancel', id } satisfies WorkerRequest);
+      reject(options.signal!.reason);
+    }, { once: true });
+
+    const request: WorkerRequest = { kind: 'run', id, task, fonts };
+    target.postMessage(request);
+  });
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -1,236 +1,777 @@
-import * as pdfjsLib from 'pdfjs-dist';
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import type { PDFPageData, TextAnnotation, MergeRule } from '@/types/pdf';
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
-
-export async function loadPDFDocument(arrayBuffer: ArrayBuffer): Promise<pdfjsLib.PDFDocumentProxy> {
-  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer.slice(0) });
-  return await loadingTask.promise;
-}
-
-export async function renderPageToCanvas(
-  pdfDoc: pdfjsLib.PDFDocumentProxy,
-  pageNum: number,
-  scale: number = 1
-): Promise<string> {
-  const page = await pdfDoc.getPage(pageNum);
-  const viewport = page.getViewport({ scale });
-  
-  const canvas = document.createElement('canvas');
-  const context = canvas.getContext('2d')!;
-  canvas.width = viewport.width;
-  canvas.height = viewport.height;
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  await page.render({
-    canvasContext: context,
-    viewport: viewport,
-    canvas: canvas,
-  } as any).promise;
-
-  return canvas.toDataURL('image/jpeg', 0.7);
-}
-
-export async function generateThumbnails(
-  arrayBuffer: ArrayBuffer,
-  scale: number = 0.3
-): Promise<string[]> {
-  const pdfDoc = await loadPDFDocument(arrayBuffer);
-  const thumbnails: string[] = [];
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFImage,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRef,
+  PDFStream,
+  PageSizes,
+  rgb,
+  degrees as toDegrees,
+  type RGB,
+} from 'pdf-lib';
+import type {
+  PDFPageData,
+  TextAnnotation,
+  MergeRule,
+  MergeSource,
+  OutlineItem,
+  RangeParseError,
+  RangeParseResult,
+  CropBox,
+  TaskOptions,
+  ImageImportSettings,
+  PreparedImage,
+  Watermark,
+  WatermarkPosition,
+  PageStamp,
+  StampSlot,
+} from '@/types/pdf';
+import { createFontEmbedder, type FontEmbedder } from '@/utils/fonts';
+import { copyDocumentMetadata } from '@/utils/metadata';
+import { readOutline, remapOutlineToPages, writeOutline } from '@/utils/outline';
+
+// Reports progress, then yields so a pending cancel request can be delivered.
+export async function reportProgress(options: TaskOptions, current: number, total: number): Promise<void> {
+  options.onProgress?.(current, total);
+  await new Promise(resolve => setTimeout(resolve, 0));
+  options.signal?.throwIfAborted();
+}
+
+export function rotatePageBy(page: PDFPage, degrees: number): void {
+  const angle = (((page.getRotation().angle + degrees) % 360) + 360) % 360;
+  page.setRotation(toDegrees(angle));
+}
+
+// Annotations are placed on the visible (cropped) area as displayed, so they read the same way once /Rotate applies.
+export async function drawTextAnnotations(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  annotations: TextAnnotation[],
+  getFont: FontEmbedder = createFontEmbedder(pdfDoc)
+): Promise<void> {
+  if (annotations.length === 0) return;
+
+  const box = page.getCropBox();
+  const pageRotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = pageRotation % 180 !== 0;
+  const displayWidth = sideways ? box.height : box.width;
+  const displayHeight = sideways ? box.width : box.height;
 
-  for (let i = 1; i <= pdfDoc.numPages; i++) {
-    const thumbnail = await renderPageToCanvas(pdfDoc, i, scale);
-    thumbnails.push(thumbnail);
+  for (const annotation of annotations) {
+    // The baseline sits one font size below the top-left corner, along the text's own down direction
+    const angle = annotation.rotation * Math.PI / 180;
+    const origin = toPageSpace(
+      box,
+      pageRotation,
+      annotation.x * displayWidth + annotation.fontSize * Math.sin(angle),
+      (1 - annotation.y) * displayHeight - annotation.fontSize * Math.cos(angle)
+    );
+    page.drawText(annotation.text, {
+      x: origin.x,
+      y: origin.y,
+      rotate: toDegrees(pageRotation + annotation.rotation),
+      size: annotation.fontSize,
+      font: await getFont(annotation.fontFamily, annotation.text),
+      color: hexToRgb(annotation.color),
+    });
   }
+}
 
-  return thumbnails;
+export function hexToRgb(hex: string): RGB {
+  const hexColor = hex.replace('#', '');
+  const r = parseInt(hexColor.substring(0, 2), 16) / 255;
+  const g = parseInt(hexColor.substring(2, 4), 16) / 255;
+  const b = parseInt(hexColor.substring(4, 6), 16) / 255;
+  return rgb(r, g, b);
 }
 
-export async function rotatePage(
-  arrayBuffer: ArrayBuffer,
-  pageIndex: number,
-  degrees: number
-): Promise<Uint8Array> {
-  const pdfDoc = await PDFDocument.load(arrayBuffer);
-  const pages = pdfDoc.getPages();
-  
-  if (pageIndex >= 0 && pageIndex < pages.length) {
-    const currentRotation = pages[pageIndex].getRotation().angle;
-    pages[pageIndex].setRotation({ type: 'degrees', angle: currentRotation + degrees } as any);
-  }
+export type Point = { x: number; y: number };
 
-  return await pdfDoc.save();
+// Annotation flag: print the annotation with the page
+export const PRINT_FLAG = 4;
+
+// Content stream number: at most three decimals, without trailing zeros.
+export function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
 }
 
-export async function rotatePages(
-  arrayBuffer: ArrayBuffer,
-  pageIndices: number[],
-  degrees: number
-): Promise<Uint8Array> {
-  const pdfDoc = await PDFDocument.load(arrayBuffer);
-  const pages = pdfDoc.getPages();
+export function formatPoint(point: Point): string {
+  return `${formatNumber(point.x)} ${formatNumber(point.y)}`;
+}
+
+export type ImageEmbedder = (key: string, image: PreparedImage) => Promise<PDFImage>;
 
-  pageIndices.forEach((pageIndex) => {
-    if (pageIndex >= 0 && pageIndex < pages.length) {
-      const currentRotation = pages[pageIndex].getRotation().angle;
-      pages[pageIndex].setRotation({ type: 'degrees', angle: currentRotation + degrees } as any);
+// Embeds each image once per document, however many pages it is drawn on.
+export function createImageEmbedder(pdfDoc: PDFDocument): ImageEmbedder {
+  const embedded = new Map<string, Promise<PDFImage>>();
+  return (key, image) => {
+    let pdfImage = embedded.get(key);
+    if (!pdfImage) {
+      pdfImage = image.format === 'png' ? pdfDoc.embedPng(image.bytes) : pdfDoc.embedJpg(image.bytes);
+      embedded.set(key, pdfImage);
     }
-  });
+    return pdfImage;
+  };
+}
 
-  return await pdfDoc.save();
+const WATERMARK_MARGIN = 36;
+
+const POSITION_GRID: Record<WatermarkPosition, [column: number, row: number]> = {
+  'top-left': [0, 0], top: [1, 0], 'top-right': [2, 0],
+  left: [0, 1], center: [1, 1], right: [2, 1],
+  'bottom-left': [0, 2], bottom: [1, 2], 'bottom-right': [2, 2],
+};
+
+/**
+ * Maps a point measured from the bottom-left of the visible area as it is
+ * displayed (after /Rotate) back to unrotated page space.
+ */
+export function toPageSpace(
+  box: { x: number; y: number; width: number; height: number },
+  rotation: number,
+  u: number,
+  v: number
+): Point {
+  switch (rotation) {
+    case 90:
+      return { x: box.x + box.width - v, y: box.y + u };
+    case 180:
+      return { x: box.x + box.width - u, y: box.y + box.height - v };
+    case 270:
+      return { x: box.x + v, y: box.y + box.height - u };
+    default:
+      return { x: box.x + u, y: box.y + v };
+  }
 }
 
-export async function addTextToPage(
-  arrayBuffer: ArrayBuffer,
-  pageIndex: number,
-  annotations: TextAnnotation[]
-): Promise<Uint8Array> {
-  const pdfDoc = await PDFDocument.load(arrayBuffer);
-  const pages = pdfDoc.getPages();
-  const page = pages[pageIndex];
-  
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const { height } = page.getSize();
+/**
+ * Stamps a text or image watermark on the visible area of a page, laid out
+ * relative to the page as displayed so rotated pages still read upright.
+ * Marks drawn "behind" go into a content stream placed before the page's own.
+ */
+export async function drawWatermark(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  watermark: Watermark,
+  getFont: FontEmbedder = createFontEmbedder(pdfDoc),
+  getImage: ImageEmbedder = createImageEmbedder(pdfDoc)
+): Promise<void> {
+  const box = page.getCropBox();
+  const pageRotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = pageRotation % 180 !== 0;
+  const displayWidth = sideways ? box.height : box.width;
+  const displayHeight = sideways ? box.width : box.height;
+
+  // A separate wrapper gets its own content stream, which can then be moved to the front
+  const target = watermark.layer === 'behind' ? PDFPage.of(page.node, page.ref, pdfDoc) : page;
+
+  let width: number;
+  let height: number;
+  let draw: (x: number, y: number, angle: number) => void;
+  if (watermark.kind === 'image' && watermark.image) {
+    const image = await getImage(watermark.id, watermark.image);
+    width = displayWidth * watermark.imageScale;
+    height = width * watermark.image.height / watermark.image.width;
+    draw = (x, y, angle) => target.drawImage(image, {
+      x, y, width, height, rotate: toDegrees(angle), opacity: watermark.opacity,
+    });
+  } else {
+    const font = await getFont(watermark.fontFamily, watermark.text);
+    const color = hexToRgb(watermark.color);
+    width = font.widthOfTextAtSize(watermark.text, watermark.fontSize);
+    height = font.heightAtSize(watermark.fontSize, { descender: false });
+    draw = (x, y, angle) => target.drawText(watermark.text, {
+      x, y, size: watermark.fontSize, font, color, rotate: toDegrees(angle), opacity: watermark.opacity,
+    });
+  }
 
-  for (const annotation of annotations) {
-    const hexColor = annotation.color.replace('#', '');
-    const r = parseInt(hexColor.substring(0, 2), 16) / 255;
-    const g = parseInt(hexColor.substring(2, 4), 16) / 255;
-    const b = parseInt(hexColor.substring(4, 6), 16) / 255;
+  const theta = watermark.rotation * Math.PI / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const boundsWidth = Math.abs(width * cos) + Math.abs(height * sin);
+  const boundsHeight = Math.abs(width * sin) + Math.abs(height * cos);
+
+  const centers: [number, number][] = [];
+  if (watermark.tiled) {
+    const gap = Math.max(Math.min(width, height) * 2, 24);
+    const stepX = boundsWidth + gap;
+    const stepY = boundsHeight + gap;
+    for (let row = 0, v = stepY / 2; v - boundsHeight / 2 < displayHeight; row++, v += stepY) {
+      // Offset every other row for a staggered pattern
+      for (let u = row % 2 ? stepX : stepX / 2; u - boundsWidth / 2 < displayWidth; u += stepX) {
+        centers.push([u, v]);
+      }
+    }
+  } else {
+    const [column, row] = POSITION_GRID[watermark.position];
+    const left = WATERMARK_MARGIN + boundsWidth / 2;
+    const bottom = WATERMARK_MARGIN + boundsHeight / 2;
+    centers.push([
+      [left, displayWidth / 2, displayWidth - left][column],
+      [displayHeight - bottom, displayHeight / 2, bottom][row],
+    ]);
+  }
 
-    page.drawText(annotation.text, {
-      x: annotation.x,
-      y: height - annotation.y - annotation.fontSize,
-      size: annotation.fontSize,
-      font: font,
-      color: rgb(r, g, b),
-    });
+  for (const [u, v] of centers) {
+    // Both drawText and drawImage rotate about their origin, so offset it to turn about the centre
+    const origin = toPageSpace(
+      box,
+      pageRotation,
+      u - (width / 2 * cos - height / 2 * sin),
+      v - (width / 2 * sin + height / 2 * cos)
+    );
+    draw(origin.x, origin.y, watermark.rotation + pageRotation);
   }
 
-  return await pdfDoc.save();
+  if (watermark.layer === 'behind') {
+    const contents = page.node.Contents();
+    if (contents instanceof PDFArray) {
+      const stream = contents.get(contents.size() - 1);
+      contents.remove(contents.size() - 1);
+      contents.insert(0, stream);
+    }
+  }
+}
+
+const STAMP_SLOTS: Record<StampSlot, [align: 0 | 1 | 2, footer: boolean]> = {
+  'header-left': [0, false],
+  'header-center': [1, false],
+  'header-right': [2, false],
+  'footer-left': [0, true],
+  'footer-center': [1, true],
+  'footer-right': [2, true],
+};
+
+// Draws header/footer text along the edges of the page as displayed.
+export async function drawPageStamp(
+  page: PDFPage,
+  stamp: PageStamp,
+  getFont: FontEmbedder
+): Promise<void> {
+  const box = page.getCropBox();
+  const pageRotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = pageRotation % 180 !== 0;
+  const displayWidth = sideways ? box.height : box.width;
+  const displayHeight = sideways ? box.width : box.height;
+  const color = hexToRgb(stamp.color);
+
+  for (const [slot, text] of Object.entries(stamp.texts) as [StampSlot, string][]) {
+    if (!text) continue;
+
+    const [align, footer] = STAMP_SLOTS[slot];
+    const font = await getFont(stamp.fontFamily, text);
+    const width = font.widthOfTextAtSize(text, stamp.fontSize);
+    const u = [stamp.marginX, (displayWidth - width) / 2, displayWidth - stamp.marginX - width][align];
+    const v = footer
+      ? stamp.marginY
+      : displayHeight - stamp.marginY - font.heightAtSize(stamp.fontSize, { descender: false });
+    const origin = toPageSpace(box, pageRotation, u, v);
+
+    page.drawText(text, {
+      x: origin.x,
+      y: origin.y,
+      size: stamp.fontSize,
+      font,
+      color,
+      rotate: toDegrees(pageRotation),
+    });
+  }
 }
 
 export async function splitPDF(
   arrayBuffer: ArrayBuffer,
-  ranges: MergeRule[]
+  ranges: MergeRule[],
+  options: TaskOptions = {}
 ): Promise<Uint8Array[]> {
-  const sourcePdf = await PDFDocument.load(arrayBuffer);
+  const sourcePdf = await PDFDocument.load(arrayBuffer, { updateMetadata: false });
+  const outline = readOutline(sourcePdf);
   const results: Uint8Array[] = [];
 
-  for (const range of ranges) {
+  for (const [i, range] of ranges.entries()) {
     const newPdf = await PDFDocument.create();
-    const pageIndices = [];
-    
-    for (let i = range.start; i <= range.end; i++) {
-      pageIndices.push(i);
-    }
-
-    const copiedPages = await newPdf.copyPages(sourcePdf, pageIndices);
+    const copiedPages = await newPdf.copyPages(sourcePdf, range.pageIndices);
     copiedPages.forEach((page) => newPdf.addPage(page));
+    copyDocumentMetadata(sourcePdf, newPdf);
+    writeOutline(newPdf, remapOutlineToPages(outline, range.pageIndices));
 
     results.push(await newPdf.save());
+    await reportProgress(options, i + 1, ranges.length);
+  }
+
+  return results;
+}
+
+/**
+ * Splits into consecutive parts that each stay under `maxBytes` where
+ * possible. A single page larger than the limit becomes a part on its own.
+ */
+export async function splitPDFBySize(
+  arrayBuffer: ArrayBuffer,
+  maxBytes: number,
+  options: TaskOptions = {}
+): Promise<Uint8Array[]> {
+  const sourcePdf = await PDFDocument.load(arrayBuffer, { updateMetadata: false });
+  const pageCount = sourcePdf.getPageCount();
+  const outline = readOutline(sourcePdf);
+  const results: Uint8Array[] = [];
+
+  // Shared resources make sizes non-additive, so each candidate part is saved and measured
+  const build = async (pageIndices: number[]) => {
+    const newPdf = await PDFDocument.create();
+    const copiedPages = await newPdf.copyPages(sourcePdf, pageIndices);
+    copiedPages.forEach((page) => newPdf.addPage(page));
+    copyDocumentMetadata(sourcePdf, newPdf);
+    writeOutline(newPdf, remapOutlineToPages(outline, pageIndices));
+    return await newPdf.save();
+  };
+
+  let part: number[] = [];
+  let partBytes: Uint8Array | null = null;
+  for (let i = 0; i < pageCount; i++) {
+    const candidate = await build([...part, i]);
+    if (candidate.length > maxBytes && partBytes) {
+      results.push(partBytes);
+      part = [i];
+      partBytes = await build(part);
+    } else {
+      part = [...part, i];
+      partBytes = candidate;
+    }
+    await reportProgress(options, i + 1, pageCount);
   }
+  if (partBytes) results.push(partBytes);
 
   return results;
 }
 
+/**
+ * `metadataSource` is the index of the source whose metadata the result
+ * carries. Each source gets a top-level bookmark holding its own outline.
+ */
 export async function mergePDFs(
-  arrayBuffers: (ArrayBuffer | Uint8Array)[]
+  sources: MergeSource[],
+  options: TaskOptions = {},
+  metadataSource?: number
 ): Promise<Uint8Array> {
   const mergedPdf = await PDFDocument.create();
+  const outline: OutlineItem[] = [];
 
-  for (const buffer of arrayBuffers) {
-    const pdf = await PDFDocument.load(buffer);
-    const pageIndices = pdf.getPageIndices();
+  for (const [i, source] of sources.entries()) {
+    const pdf = await PDFDocument.load(source.buffer, { updateMetadata: false });
+    const pageIndices = source.ranges ? expandMergeRules(source.ranges) : pdf.getPageIndices();
+    const offset = mergedPdf.getPageCount();
     const copiedPages = await mergedPdf.copyPages(pdf, pageIndices);
     copiedPages.forEach((page) => mergedPdf.addPage(page));
+    if (i === metadataSource) copyDocumentMetadata(pdf, mergedPdf);
+    if (pageIndices.length > 0) {
+      outline.push({
+        id: crypto.randomUUID(),
+        title: source.name ?? `文件 ${i + 1}`,
+        pageIndex: offset,
+        children: remapOutlineToPages(readOutline(pdf), pageIndices, offset),
+      });
+    }
+    await reportProgress(options, i + 1, sources.length);
   }
+  writeOutline(mergedPdf, outline);
 
   return await mergedPdf.save();
 }
 
+const PAGE_SIZES = {
+  a4: PageSizes.A4,
+  letter: PageSizes.Letter,
+};
+// Images without a page size are placed at 96 pixels per inch
+const IMAGE_POINTS_PER_PIXEL = 72 / 96;
+const POINTS_PER_MM = 72 / 25.4;
+
+/**
+ * Builds a PDF with one page per image, scaled to fit inside the margins and
+ * centred on the page.
+ */
+export async function createPDFFromImages(
+  images: PreparedImage[],
+  settings: ImageImportSettings,
+  options: TaskOptions = {}
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const margin = settings.margin * POINTS_PER_MM;
+
+  for (const [i, image] of images.entries()) {
+    const embedded = image.format === 'png'
+      ? await pdfDoc.embedPng(image.bytes)
+      : await pdfDoc.embedJpg(image.bytes);
+    const imageWidth = image.width * IMAGE_POINTS_PER_PIXEL;
+    const imageHeight = image.height * IMAGE_POINTS_PER_PIXEL;
+
+    let [pageWidth, pageHeight] = settings.pageSize === 'fit'
+      ? [imageWidth + margin * 2, imageHeight + margin * 2]
+      : PAGE_SIZES[settings.pageSize];
+    const landscape = settings.orientation === 'auto'
+      ? imageWidth > imageHeight
+      : settings.orientation === 'landscape';
+    if (landscape !== pageWidth > pageHeight) {
+      [pageWidth, pageHeight] = [pageHeight, pageWidth];
+    }
+
+    const boxWidth = Math.max(pageWidth - margin * 2, 1);
+    const boxHeight = Math.max(pageHeight - margin * 2, 1);
+    const scale = Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+    page.drawImage(embedded, {
+      x: (pageWidth - width) / 2,
+      y: (pageHeight - height) / 2,
+      width,
+      height,
+    });
+    await reportProgress(options, i + 1, images.length);
+  }
+
+  return await pdfDoc.save();
+}
+
 export async function extractPages(
   arrayBuffer: ArrayBuffer,
-  pageIndices: number[]
+  pageIndices: number[],
+  options: TaskOptions = {}
 ): Promise<Uint8Array> {
-  const sourcePdf = await PDFDocument.load(arrayBuffer);
+  const sourcePdf = await PDFDocument.load(arrayBuffer, { updateMetadata: false });
   const newPdf = await PDFDocument.create();
 
   const copiedPages = await newPdf.copyPages(sourcePdf, pageIndices);
-  copiedPages.forEach((page) => newPdf.addPage(page));
+  for (const [i, page] of copiedPages.entries()) {
+    newPdf.addPage(page);
+    await reportProgress(options, i + 1, copiedPages.length);
+  }
+  copyDocumentMetadata(sourcePdf, newPdf);
+  writeOutline(newPdf, remapOutlineToPages(readOutline(sourcePdf), pageIndices));
 
   return await newPdf.save();
 }
 
-export async function reorderPages(
-  arrayBuffer: ArrayBuffer,
-  newOrder: number[]
-): Promise<Uint8Array> {
-  const sourcePdf = await PDFDocument.load(arrayBuffer);
-  const newPdf = await PDFDocument.create();
+export function setPageCrop(page: PDFPage, cropBox: CropBox): void {
+  // The box is drawn on the preview, i.e. the current crop box as displayed after /Rotate
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation % 180 !== 0;
+  const displayWidth = sideways ? box.height : box.width;
+  const displayHeight = sideways ? box.width : box.height;
+
+  // Opposite corners, converted from top-left fractions to PDF coordinates
+  const a = toPageSpace(box, rotation, cropBox.x * displayWidth, (1 - cropBox.y) * displayHeight);
+  const b = toPageSpace(
+    box,
+    rotation,
+    (cropBox.x + cropBox.width) * displayWidth,
+    (1 - cropBox.y - cropBox.height) * displayHeight
+  );
+
+  page.setCropBox(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+}
 
-  const copiedPages = await newPdf.copyPages(sourcePdf, newOrder);
-  copiedPages.forEach((page) => newPdf.addPage(page));
+/**
+ * Deletes indirect objects that can no longer be reached from the trailer, so
+ * removed or replaced pages do not linger in the saved file. Pages that left
+ * the page tree count as unreachable even when an outline or link still
+ * points at them.
+ */
+export function removeUnreachableObjects(pdfDoc: PDFDocument): number {
+  const context = pdfDoc.context;
+  const livePages = new Set(pdfDoc.getPages().map(page => page.ref));
+  const reachable = new Set<PDFRef>();
+  const { Root, Info, Encrypt } = context.trailerInfo;
+  const pending: PDFObject[] = [Root, Info, Encrypt].filter((object): object is PDFObject => !!object);
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      const target = context.lookup(object);
+      if (target instanceof PDFDict && target.get(PDFName.Type) === PDFName.of('Page') && !livePages.has(object)) {
+        continue;
+      }
+      reachable.add(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
 
-  return await newPdf.save();
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref) && context.delete(ref)) removed++;
+  }
+  return removed;
 }
 
-export async function cropPage(
-  arrayBuffer: ArrayBuffer,
-  pageIndex: number,
-  cropBox: { x: number; y: number; width: number; height: number },
-  pageWidth: number,
-  pageHeight: number
-): Promise<Uint8Array> {
-  const pdfDoc = await PDFDocument.load(arrayBuffer);
-  const pages = pdfDoc.getPages();
-  const page = pages[pageIndex];
-  
-  const { width, height } = page.getSize();
-  
-  // Convert from screen coordinates to PDF coordinates
-  const scaleX = width / pageWidth;
-  const scaleY = height / pageHeight;
-  
-  const x = cropBox.x * scaleX;
-  const y = height - (cropBox.y + cropBox.height) * scaleY;
-  const w = cropBox.width * scaleX;
-  const h = cropBox.height * scaleY;
-
-  page.setCropBox(x, y, w, h);
+// Annotations listed on the given pages.
+function collectAnnotations(pdfDoc: PDFDocument, pageRefs: Set<PDFRef>): Set<PDFRef> {
+  const annotations = new Set<PDFRef>();
+  for (const ref of pageRefs) {
+    const annots = pdfDoc.context.lookup(ref, PDFDict).lookupMaybe(PDFName.of('Annots'), PDFArray);
+    annots?.asArray().forEach(annot => annot instanceof PDFRef && annotations.add(annot));
+  }
+  return annotations;
+}
 
-  return await pdfDoc.save();
+// Drops form fields whose widgets sit on removed pages, then parents left without kids.
+function removeFieldsOnPages(pdfDoc: PDFDocument, pageRefs: Set<PDFRef>, annotations: Set<PDFRef>): void {
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!acroForm) return;
+  const removed = new Set<PDFRef>();
+
+  const prune = (kids: PDFArray) => {
+    for (let i = kids.size() - 1; i >= 0; i--) {
+      const ref = kids.get(i);
+      const field = kids.lookup(i);
+      if (!(field instanceof PDFDict)) continue;
+      const page = field.get(PDFName.of('P'));
+      const children = field.lookupMaybe(PDFName.of('Kids'), PDFArray);
+      let drop = (ref instanceof PDFRef && annotations.has(ref)) || (page instanceof PDFRef && pageRefs.has(page));
+      if (!drop && children && children.size() > 0) {
+        prune(children);
+        drop = children.size() === 0;
+      }
+      if (drop) {
+        kids.remove(i);
+        if (ref instanceof PDFRef) removed.add(ref);
+      }
+    }
+  };
+  const fields = acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  if (fields) prune(fields);
+
+  const order = acroForm.lookupMaybe(PDFName.of('CO'), PDFArray);
+  if (order) {
+    for (let i = order.size() - 1; i >= 0; i--) {
+      const ref = order.get(i);
+      if (ref instanceof PDFRef && removed.has(ref)) order.remove(i);
+    }
+  }
 }
 
-export function parseMergeRules(input: string, maxPage: number): MergeRule[] {
-  const rules: MergeRule[] = [];
-  const parts = input.split(',').map(s => s.trim()).filter(s => s);
-
-  for (const part of parts) {
-    if (part.includes('-')) {
-      const [startStr, endStr] = part.split('-').map(s => s.trim());
-      const start = parseInt(startStr, 10) - 1;
-      const end = parseInt(endStr, 10) - 1;
-      
-      if (!isNaN(start) && !isNaN(end) && start >= 0 && end < maxPage && start <= end) {
-        rules.push({ start, end });
+// Filters the leaves of a number or name tree; `keep` returns the value to keep, or undefined to drop the entry.
+function pruneTree(node: PDFDict, entriesKey: 'Nums' | 'Names', keep: (key: PDFObject, value: PDFObject) => PDFObject | undefined): void {
+  const entries = node.lookupMaybe(PDFName.of(entriesKey), PDFArray);
+  if (entries) {
+    for (let i = entries.size() - 2; i >= 0; i -= 2) {
+      const value = keep(entries.get(i), entries.get(i + 1));
+      if (value) {
+        entries.set(i + 1, value);
+      } else {
+        entries.remove(i + 1);
+        entries.remove(i);
       }
-    } else {
-      const pageNum = parseInt(part, 10) - 1;
-      if (!isNaN(pageNum) && pageNum >= 0 && pageNum < maxPage) {
-        rules.push({ start: pageNum, end: pageNum });
+    }
+  }
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  kids?.asArray().forEach((_kid, i) => {
+    const child = kids.lookup(i);
+    if (child instanceof PDFDict) pruneTree(child, entriesKey, keep);
+  });
+}
+
+// Drops structure elements, marked-content and object references that belong to removed pages.
+function removeStructureOnPages(pdfDoc: PDFDocument, pageRefs: Set<PDFRef>, annotations: Set<PDFRef>): void {
+  const root = pdfDoc.catalog.lookupMaybe(PDFName.of('StructTreeRoot'), PDFDict);
+  if (!root) return;
+  const context = pdfDoc.context;
+  const removed = new Set<PDFRef>();
+  const isRemovedPage = (page: PDFObject | undefined) => page instanceof PDFRef && pageRefs.has(page);
+
+  // Keeps the kids still on remaining pages; `page` is the /Pg the kids inherit
+  const pruneKids = (parent: PDFDict, page: PDFObject | undefined): boolean => {
+    const value = parent.get(PDFName.of('K'));
+    if (value === undefined) return !isRemovedPage(page);
+    const kids = value instanceof PDFArray ? value.asArray() : [value];
+    const kept = kids.filter(kid => {
+      if (kid instanceof PDFNumber) return !isRemovedPage(page);
+      const dict = kid instanceof PDFRef ? context.lookup(kid) : kid;
+      if (!(dict instanceof PDFDict)) return true;
+      const type = dict.get(PDFName.Type);
+      const kidPage = dict.get(PDFName.of('Pg')) ?? page;
+      if (type === PDFName.of('MCR')) return !isRemovedPage(kidPage);
+      if (type === PDFName.of('OBJR')) {
+        const object = dict.get(PDFName.of('Obj'));
+        return !isRemovedPage(kidPage) && !(object instanceof PDFRef && annotations.has(object));
+      }
+      if (isRemovedPage(dict.get(PDFName.of('Pg')))) dict.delete(PDFName.of('Pg'));
+      const keep = pruneKids(dict, kidPage);
+      if (!keep && kid instanceof PDFRef) removed.add(kid);
+      return keep;
+    });
+    if (kept.length !== kids.length) parent.set(PDFName.of('K'), context.obj(kept));
+    return kept.length > 0;
+  };
+  pruneKids(root, undefined);
+
+  // Parent tree keys of the removed pages and their annotations
+  const parentKeys = new Set<number>();
+  for (const ref of [...pageRefs, ...annotations]) {
+    const dict = context.lookup(ref, PDFDict);
+    const key = dict.lookupMaybe(PDFName.of('StructParents'), PDFNumber) ?? dict.lookupMaybe(PDFName.of('StructParent'), PDFNumber);
+    if (key) parentKeys.add(key.asNumber());
+  }
+  const isRemoved = (object: PDFObject) => object instanceof PDFRef && removed.has(object);
+  const parentTree = root.lookupMaybe(PDFName.of('ParentTree'), PDFDict);
+  if (parentTree) {
+    pruneTree(parentTree, 'Nums', (key, value) => {
+      if (key instanceof PDFNumber && parentKeys.has(key.asNumber())) return undefined;
+      const elements = value instanceof PDFRef ? context.lookup(value) : value;
+      // Arrays are indexed by marked-content ID, so removed elements leave a null in place
+      if (elements instanceof PDFArray) {
+        return context.obj(elements.asArray().map(element => isRemoved(element) ? PDFNull : element));
       }
+      return isRemoved(value) ? undefined : value;
+    });
+  }
+  const idTree = root.lookupMaybe(PDFName.of('IDTree'), PDFDict);
+  if (idTree) pruneTree(idTree, 'Names', (_key, value) => isRemoved(value) ? undefined : value);
+}
+
+/**
+ * Unlinks pages that are about to leave the document from the AcroForm and
+ * the structure tree. Without this, /Fields would keep a removed page's
+ * widgets, and with them the field values, reachable in the saved file.
+ */
+export function detachPages(pdfDoc: PDFDocument, pageRefs: Set<PDFRef>): void {
+  if (pageRefs.size === 0) return;
+  const annotations = collectAnnotations(pdfDoc, pageRefs);
+  removeFieldsOnPages(pdfDoc, pageRefs, annotations);
+  removeStructureOnPages(pdfDoc, pageRefs, annotations);
+}
+
+const RANGE_PATTERN = /^([a-z0-9]*)\s*(?:-\s*([a-z0-9]*))?\s*(?::\s*(\w+))?$/;
+
+type SelectorResult = { pageIndices: number[] } | { error: string };
+
+function parsePageNumber(text: string, maxPage: number): number | string {
+  if (text === 'last' || text === 'z') return maxPage;
+  if (!/^\d+$/.test(text)) return `無法識別「${text}」`;
+
+  const page = parseInt(text, 10);
+  if (page < 1 || page > maxPage) return `頁碼 ${page} 超出範圍 (1-${maxPage})`;
+  return page;
+}
+
+// Resolves one selector such as "odd", "5-", "9-4" or "1-10:2" to zero-based indices.
+function parsePageSelector(selector: string, maxPage: number): SelectorResult {
+  const text = selector.toLowerCase();
+  if (text === 'odd' || text === 'even') {
+    const first = text === 'odd' ? 0 : 1;
+    const pageIndices: number[] = [];
+    for (let i = first; i < maxPage; i += 2) {
+      pageIndices.push(i);
     }
+    return { pageIndices };
+  }
+
+  const match = RANGE_PATTERN.exec(text);
+  if (!match) return { error: `無法識別「${selector}」` };
+
+  const [, startText, endText, stepText] = match;
+  const isRange = endText !== undefined;
+  if (!startText && !endText) return { error: '缺少頁碼' };
+
+  // Open ranges: "5-" runs to the last page, "-3" starts at the first
+  const start = parsePageNumber(startText || '1', maxPage);
+  if (typeof start === 'string') return { error: start };
+  const end = isRange ? parsePageNumber(endText || 'last', maxPage) : start;
+  if (typeof end === 'string') return { error: end };
+
+  let step = 1;
+  if (stepText !== undefined) {
+    step = /^\d+$/.test(stepText) ? parseInt(stepText, 10) : 0;
+    if (step < 1) return { error: `間隔「${stepText}」必須為正整數` };
   }
 
-  return rules;
+  // Reversed ranges such as "9-4" produce pages in descending order
+  const direction = end >= start ? 1 : -1;
+  const pageIndices: number[] = [];
+  for (let page = start; direction > 0 ? page <= end : page >= end; page += direction * step) {
+    pageIndices.push(page - 1);
+  }
+  return { pageIndices };
+}
+
+/**
+ * Parses a comma-separated page range expression into one rule per part.
+ * Supports single pages, ranges ("4-9"), open ranges ("5-", "-3"), reversed
+ * ranges ("9-4"), steps ("1-10:2"), "odd", "even", "last"/"z", and exclusions
+ * ("!7") that remove pages from every rule. Invalid parts are reported with
+ * their character positions instead of being dropped silently.
+ */
+export function parseMergeRules(input: string, maxPage: number): RangeParseResult {
+  const parts: { rule: MergeRule; start: number; end: number }[] = [];
+  const errors: RangeParseError[] = [];
+  const excluded = new Set<number>();
+
+  let offset = 0;
+  for (const rawPart of input.split(',')) {
+    const text = rawPart.trim();
+    const start = offset + rawPart.length - rawPart.trimStart().length;
+    const end = start + text.length;
+    offset += rawPart.length + 1;
+    if (!text) continue;
+
+    const exclude = text.startsWith('!');
+    const result = parsePageSelector(exclude ? text.slice(1).trim() : text, maxPage);
+    if ('error' in result) {
+      errors.push({ message: result.error, start, end });
+    } else if (exclude) {
+      result.pageIndices.forEach(index => excluded.add(index));
+    } else {
+      parts.push({ rule: { pageIndices: result.pageIndices, source: text }, start, end });
+    }
+  }
+
+  const rules: MergeRule[] = [];
+  for (const { rule, start, end } of parts) {
+    const pageIndices = rule.pageIndices.filter(index => !excluded.has(index));
+    if (pageIndices.length === 0) {
+      errors.push({ message: `「${rule.source}」排除後沒有剩餘頁面`, start, end });
+    } else {
+      rules.push({ ...rule, pageIndices });
+    }
+  }
+  errors.sort((a, b) => a.start - b.start);
+
+  return { rules, errors };
 }
 
-export async function getPageCount(arrayBuffer: ArrayBuffer): Promise<number> {
-  const pdfDoc = await loadPDFDocument(arrayBuffer);
-  return pdfDoc.numPages;
+// Zero-based page indices covered by the rules, in rule order.
+export function expandMergeRules(rules: MergeRule[]): number[] {
+  return rules.flatMap(rule => rule.pageIndices);
+}
+
+// Formats zero-based indices as one-based runs, e.g. "1-3, 5, 9-7".
+export function formatPageIndices(pageIndices: number[]): string {
+  const runs: string[] = [];
+  let i = 0;
+  while (i < pageIndices.length) {
+    let j = i;
+    const direction = pageIndices[i + 1] - pageIndices[i];
+    if (direction === 1 || direction === -1) {
+      while (j + 1 < pageIndices.length && pageIndices[j + 1] - pageIndices[j] === direction) j++;
+    }
+    runs.push(j > i ? `${pageIndices[i] + 1}-${pageIndices[j] + 1}` : `${pageIndices[i] + 1}`);
+    i = j + 1;
+  }
+  return runs.join(', ');
 }
 
 export function initializePages(pageCount: number): PDFPageData[] {
@@ -0,0 +1,36 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import workerSource from 'pdfjs-dist/build/pdf.worker.min.mjs?raw';
+
+// Thrown when neither a Web Worker nor the main-thread fallback can run PDF.js.
+export class PDFWorkerError extends Error {
+  constructor(cause: unknown) {
+    super(`PDF.js worker could not be started: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PDFWorkerError';
+  }
+}
+
+// The worker ships inside the bundle, so previews work without network access.
+// If the browser refuses a module worker from a blob URL, PDF.js falls back to
+// importing the same URL on the main thread.
+pdfjsLib.GlobalWorkerOptions.workerSrc = URL.createObjectURL(
+  new Blob([workerSource], { type: 'text/javascript' })
+);
+
+let sharedWorker: Promise<pdfjsLib.PDFWorker> | null = null;
+
+export function getPDFWorker(): Promise<pdfjsLib.PDFWorker> {
+  if (!sharedWorker) {
+    sharedWorker = (async () => {
+      const worker = new pdfjsLib.PDFWorker();
+      try {
+        await worker.promise;
+        return worker;
+      } catch (error) {
+        worker.destroy();
+        sharedWorker = null;
+        throw new PDFWorkerError(error);
+      }
+    })();
+  }
+  return sharedWorker;
+}
@@ -0,0 +1,88 @@
+import { PDFDocument, PDFName, type PDFWidgetAnnotation } from 'pdf-lib';
+import type { PDFPageData, RedactionMark } from '@/types/pdf';
+import { canvasToBlob, loadPDFDocument, renderPage, withEditedPage } from '@/utils/pdfRender';
+import { getTextBoxes, intersects, type TextBox } from '@/utils/textGeometry';
+
+export const REDACTION_DPI_OPTIONS = [150, 200, 300];
+
+/**
+ * Renders the edited page at the given DPI, burns the marks in as solid black
+ * and returns a one-page PDF holding only that image. Nothing of the original
+ * page survives: no text operators, no hidden text layer, no annotations.
+ */
+export async function rasterizeRedactedPage(
+  arrayBuffer: ArrayBuffer,
+  data: PDFPageData,
+  marks: RedactionMark[],
+  dpi: number
+): Promise<Uint8Array> {
+  const canvas = await withEditedPage(arrayBuffer, data, true, (pdfDoc, pageNum, rotation) =>
+    renderPage(pdfDoc, pageNum, dpi / 72, rotation, '#ffffff'));
+
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#000000';
+  for (const mark of marks) {
+    // Round outwards so partially covered pixels are blacked out too
+    const left = Math.floor(mark.x * canvas.width);
+    const top = Math.floor(mark.y * canvas.height);
+    const right = Math.ceil((mark.x + mark.width) * canvas.width);
+    const bottom = Math.ceil((mark.y + mark.height) * canvas.height);
+    context.fillRect(left, top, right - left, bottom - top);
+  }
+
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  const pdfDoc = await PDFDocument.create();
+  const image = await pdfDoc.embedJpg(await blob.arrayBuffer());
+  const width = canvas.width * 72 / dpi;
+  const height = canvas.height * 72 / dpi;
+  pdfDoc.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+
+  return await pdfDoc.save();
+}
+
+/** What the verification pass found; empty lists mean nothing of the redacted content is readable. */
+export interface RedactionLeaks {
+  text: TextBox[];
+  // Names of form fields that can still be read
+  fields: string[];
+}
+
+// Index of the page holding each widget, or -1 when no page of the document does.
+function getWidgetPage(pdfDoc: PDFDocument, widget: PDFWidgetAnnotation): number {
+  const pages = pdfDoc.getPages();
+  const ref = pdfDoc.context.getObjectRef(widget.dict);
+  const listed = pages.findIndex(page => page.node.Annots()?.asArray().some(annot => annot === ref));
+  if (listed !== -1) return listed;
+  const owner = widget.P();
+  return owner ? pages.findIndex(page => page.ref === owner) : -1;
+}
+
+/**
+ * Verification pass over the document as it will be exported: text on the
+ * page at `pageIndex` that overlaps a mark, and form fields that still have a
+ * widget on that page. `fieldNames` are the fields the page had before it was
+ * redacted; they must not survive through widgets that are on no page at all.
+ */
+export async function findRedactionLeaks(
+  exported: Uint8Array,
+  pageIndex: number,
+  marks: RedactionMark[],
+  fieldNames: string[]
+): Promise<RedactionLeaks> {
+  const form = await PDFDocument.load(exported);
+  const fields = form.catalog.get(PDFName.of('AcroForm')) ? form.getForm().getFields() : [];
+  const leakedFields = fields
+    .filter(field => field.acroField.getWidgets().some(widget => {
+      const page = getWidgetPage(form, widget);
+      return page === pageIndex || (page === -1 && fieldNames.includes(field.getName()));
+    }))
+    .map(field => field.getName());
+
+  const pdfDoc = await loadPDFDocument(exported.buffer as ArrayBuffer);
+  try {
+    const boxes = await getTextBoxes(pdfDoc, pageIndex + 1, 0);
+    return { text: boxes.filter(box => marks.some(mark => intersects(box, mark))), fields: leakedFields };
+  } finally {
+    await pdfDoc.destroy();
+  }
+}
@@ -0,0 +1,62 @@
+import type { PreparedImage, SavedSignature } from '@/types/pdf';
+import { canvasToBlob } from '@/utils/pdfRender';
+import { SIGNATURE_STORE, withStore } from '@/utils/database';
+
+// Transparent border kept around the trimmed strokes, in pixels
+const TRIM_PADDING = 8;
+
+// Saved signatures, oldest first.
+export async function listSignatures(): Promise<SavedSignature[]> {
+  const signatures = await withStore(SIGNATURE_STORE, 'readonly', store => store.getAll() as IDBRequest<SavedSignature[]>);
+  return signatures.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function saveSignature(signature: SavedSignature): Promise<void> {
+  await withStore(SIGNATURE_STORE, 'readwrite', store => store.put(signature));
+}
+
+export async function deleteSignature(id: string): Promise<void> {
+  await withStore(SIGNATURE_STORE, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Crops a canvas to its non-transparent pixels and encodes it as a PNG, so a
+ * drawn or typed signature carries no empty margin. Returns null when the
+ * canvas is blank.
+ */
+export async function canvasToSignatureImage(canvas: HTMLCanvasElement, name: string): Promise<PreparedImage | null> {
+  const context = canvas.getContext('2d')!;
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height);
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  if (right < 0) return null;
+
+  left = Math.max(left - TRIM_PADDING, 0);
+  top = Math.max(top - TRIM_PADDING, 0);
+  right = Math.min(right + TRIM_PADDING, width - 1);
+  bottom = Math.min(bottom + TRIM_PADDING, height - 1);
+
+  const trimmed = document.createElement('canvas');
+  trimmed.width = right - left + 1;
+  trimmed.height = bottom - top + 1;
+  trimmed.getContext('2d')!.drawImage(canvas, left, top, trimmed.width, trimmed.height, 0, 0, trimmed.width, trimmed.height);
+
+  const blob = await canvasToBlob(trimmed, 'image/png', 1);
+  return { name, bytes: await blob.arrayBuffer(), format: 'png', width: trimmed.width, height: trimmed.height };
+}
+
+// Object URL for previewing a signature image; revoke it when done.
+export function signatureImageURL(image: PreparedImage): string {
+  return URL.createObjectURL(new Blob([image.bytes], { type: 'image/png' }));
+}
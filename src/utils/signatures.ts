@@ -0,0 +1,63 @@
+import { PDFPage, degrees, rgb } from 'pdf-lib';
+import type { PlacedSignature } from '@/types/pdf';
+import { DEFAULT_FONT_FAMILY, type FontEmbedder } from '@/utils/fonts';
+import { toPageSpace, type ImageEmbedder } from '@/utils/pdfUtils';
+
+// Stamp text size and its gap below the image, relative to the signature height
+export const STAMP_FONT_RATIO = 0.2;
+export const STAMP_GAP_RATIO = 0.06;
+
+/**
+ * Embeds the signatures as images, each turned about its centre, with its
+ * name/date stamp left-aligned underneath and turned with it.
+ */
+export async function drawPageSignatures(
+  page: PDFPage,
+  signatures: PlacedSignature[],
+  getFont: FontEmbedder,
+  getImage: ImageEmbedder
+): Promise<void> {
+  if (signatures.length === 0) return;
+
+  const box = page.getCropBox();
+  const pageRotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = pageRotation % 180 !== 0;
+  const displayWidth = sideways ? box.height : box.width;
+  const displayHeight = sideways ? box.width : box.height;
+
+  for (const signature of signatures) {
+    const { width, height } = signature;
+    const centerU = signature.x * displayWidth;
+    const centerV = (1 - signature.y) * displayHeight;
+    const theta = signature.rotation * Math.PI / 180;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    // A point in the signature's own frame, centred on the image, to page space
+    const place = (x: number, y: number) =>
+      toPageSpace(box, pageRotation, centerU + x * cos - y * sin, centerV + x * sin + y * cos);
+
+    // drawImage and drawText rotate about their origin, so start from the turned corner
+    const image = await getImage(signature.signatureId, signature.image);
+    const corner = place(-width / 2, -height / 2);
+    page.drawImage(image, {
+      x: corner.x,
+      y: corner.y,
+      width,
+      height,
+      rotate: degrees(signature.rotation + pageRotation),
+    });
+
+    if (!signature.stamp) continue;
+    const font = await getFont(DEFAULT_FONT_FAMILY, signature.stamp);
+    const size = height * STAMP_FONT_RATIO;
+    const baseline = place(-width / 2, -height / 2 - height * STAMP_GAP_RATIO - font.heightAtSize(size, { descender: false }));
+    page.drawText(signature.stamp, {
+      x: baseline.x,
+      y: baseline.y,
+      size,
+      font,
+      color: rgb(0, 0, 0),
+      rotate: degrees(signature.rotation + pageRotation),
+    });
+  }
+}
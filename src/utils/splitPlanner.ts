@@ -0,0 +1,131 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { MergeRule, TaskOptions } from '@/types/pdf';
+import { renderPage } from '@/utils/pdfRender';
+import { reportProgress } from '@/utils/pdfUtils';
+
+export type SplitMode = 'ranges' | 'every' | 'bookmarks' | 'size' | 'separator';
+
+const BLANK_RENDER_SCALE = 0.25;
+// Share of each edge left out, where scans pick up shadows and punched holes
+const BLANK_EDGE_MARGIN = 0.05;
+
+/** Ink coverage, in percent, up to which a page still counts as a separator. */
+export const SEPARATOR_TOLERANCE_OPTIONS = [
+  { value: 0.2, label: '0.2%（僅空白頁）' },
+  { value: 1, label: '1%（掃描雜點）' },
+  { value: 3, label: '3%（條碼、標籤）' },
+  { value: 8, label: '8%（少量文字）' },
+];
+
+function rangeRule(start: number, end: number, name?: string): MergeRule {
+  const pageIndices = Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  return { pageIndices, source: `${start + 1}-${end + 1}`, name };
+}
+
+// One part per `size` consecutive pages; the last part may be shorter.
+export function chunkPages(pageCount: number, size: number): MergeRule[] {
+  const rules: MergeRule[] = [];
+  for (let start = 0; start < pageCount; start += size) {
+    rules.push(rangeRule(start, Math.min(start + size, pageCount) - 1));
+  }
+  return rules;
+}
+
+// Splits around separator pages, which are left out of every part.
+export function splitAtSeparators(pageCount: number, separators: number[]): MergeRule[] {
+  const isSeparator = new Set(separators);
+  const rules: MergeRule[] = [];
+  let start: number | null = null;
+
+  for (let i = 0; i <= pageCount; i++) {
+    if (i === pageCount || isSeparator.has(i)) {
+      if (start !== null) rules.push(rangeRule(start, i - 1));
+      start = null;
+    } else if (start === null) {
+      start = i;
+    }
+  }
+  return rules;
+}
+
+export function toFileName(title: string): string {
+  return title.replace(/[\\/:*?"<>|\r\n]+/g, '_').trim().slice(0, 100) || 'untitled';
+}
+
+async function resolvePageIndex(pdfDoc: PDFDocumentProxy, dest: unknown): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdfDoc.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+
+    const target = explicit[0];
+    return typeof target === 'number' ? target : await pdfDoc.getPageIndex(target);
+  } catch {
+    // Destinations pointing at deleted pages no longer resolve
+    return null;
+  }
+}
+
+/**
+ * One part per top-level bookmark, running up to the next bookmark's page and
+ * named after its title. Pages before the first bookmark form their own part.
+ */
+export async function getBookmarkRules(pdfDoc: PDFDocumentProxy, untitledName: string): Promise<MergeRule[]> {
+  const outline = await pdfDoc.getOutline() ?? [];
+  const starts: { pageIndex: number; title: string }[] = [];
+
+  for (const item of outline) {
+    const pageIndex = await resolvePageIndex(pdfDoc, item.dest);
+    if (pageIndex === null || starts.some(start => start.pageIndex === pageIndex)) continue;
+    starts.push({ pageIndex, title: item.title });
+  }
+  if (starts.length === 0) return [];
+
+  starts.sort((a, b) => a.pageIndex - b.pageIndex);
+  if (starts[0].pageIndex > 0) {
+    starts.unshift({ pageIndex: 0, title: untitledName });
+  }
+
+  return starts.map((start, i) => {
+    const end = (starts[i + 1]?.pageIndex ?? pdfDoc.numPages) - 1;
+    return rangeRule(start.pageIndex, end, toFileName(start.title));
+  });
+}
+
+// Share of the page, inside the edge margin, darker than paper.
+function inkCoverage(canvas: HTMLCanvasElement): number {
+  const context = canvas.getContext('2d')!;
+  const left = Math.floor(canvas.width * BLANK_EDGE_MARGIN);
+  const top = Math.floor(canvas.height * BLANK_EDGE_MARGIN);
+  const width = Math.max(canvas.width - 2 * left, 1);
+  const height = Math.max(canvas.height - 2 * top, 1);
+  const { data } = context.getImageData(left, top, width, height);
+  const pixelCount = data.length / 4;
+  let inked = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    // Transparent pixels count as paper
+    if (data[i + 3] > 0 && luma < 200) inked++;
+  }
+  return inked / pixelCount;
+}
+
+/**
+ * Zero-based indices of separator pages: pages whose ink covers at most
+ * `tolerance` percent of the page, ignoring the edges. A separator sheet
+ * carrying a barcode or a label needs a higher tolerance than a blank one.
+ */
+export async function findBlankPages(
+  pdfDoc: PDFDocumentProxy,
+  tolerance: number,
+  options: TaskOptions = {}
+): Promise<number[]> {
+  const blank: number[] = [];
+  for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+    if (inkCoverage(await renderPage(pdfDoc, pageNum, BLANK_RENDER_SCALE)) * 100 <= tolerance) {
+      blank.push(pageNum - 1);
+    }
+    await reportProgress(options, pageNum, pdfDoc.numPages);
+  }
+  return blank;
+}
@@ -0,0 +1,123 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { CropBox, PDFPageData } from '@/types/pdf';
+import { withEditedPage } from '@/utils/pdfRender';
+
+/** A run of page text, positioned as fractions of the displayed page. */
+export interface TextBox extends CropBox {
+  text: string;
+}
+
+interface PositionedText {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+export function intersects(a: CropBox, b: CropBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width
+    && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Collects the text of one page. With a query, returns a box per
+ * (case-insensitive) match inside each text run, sized by character share of
+ * the run; otherwise returns one box per run.
+ */
+export async function getTextBoxes(
+  pdfDoc: PDFDocumentProxy,
+  pageNum: number,
+  rotation: number,
+  query?: string
+): Promise<TextBox[]> {
+  const page = await pdfDoc.getPage(pageNum);
+  const viewport = page.getViewport({ scale: 1, rotation: (page.rotate + rotation) % 360 });
+  const content = await page.getTextContent();
+  const needle = query?.toLowerCase();
+  const boxes: TextBox[] = [];
+
+  for (const item of content.items) {
+    if (!('str' in item) || !item.str.trim()) continue;
+    const run = item as PositionedText;
+    const haystack = run.str.toLowerCase();
+
+    const spans: [number, number][] = [];
+    if (needle) {
+      for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+        spans.push([at, at + needle.length]);
+      }
+    } else {
+      spans.push([0, run.str.length]);
+    }
+
+    // Baseline direction and "up" direction of the run, in PDF space
+    const [a, b, c, d, e, f] = run.transform;
+    const along = Math.hypot(a, b) || 1;
+    const up = Math.hypot(c, d) || 1;
+    const height = run.height || up;
+
+    for (const [start, end] of spans) {
+      const x0 = run.width * start / run.str.length;
+      const x1 = run.width * end / run.str.length;
+      // Extend below the baseline to cover descenders
+      const corners = [[x0, -0.25 * height], [x1, -0.25 * height], [x0, height], [x1, height]]
+        .map(([x, y]) => viewport.convertToViewportPoint(
+          e + (a / along) * x + (c / up) * y,
+          f + (b / along) * x + (d / up) * y
+        ));
+      const xs = corners.map(([x]) => x);
+      const ys = corners.map(([, y]) => y);
+      boxes.push({
+        text: run.str.slice(start, end),
+        x: Math.min(...xs) / viewport.width,
+        y: Math.min(...ys) / viewport.height,
+        width: (Math.max(...xs) - Math.min(...xs)) / viewport.width,
+        height: (Math.max(...ys) - Math.min(...ys)) / viewport.height,
+      });
+    }
+  }
+
+  page.cleanup();
+  return boxes;
+}
+
+// Search hits on a page as it will look after export.
+export async function findTextMatches(arrayBuffer: ArrayBuffer, data: PDFPageData, query: string): Promise<TextBox[]> {
+  if (!query.trim()) return [];
+  return await withEditedPage(arrayBuffer, data, true, (pdfDoc, pageNum, rotation) =>
+    getTextBoxes(pdfDoc, pageNum, rotation, query.trim()));
+}
+
+// Every text run of the page as drawn underneath added text and markup.
+export async function getPageTextBoxes(arrayBuffer: ArrayBuffer, data: PDFPageData): Promise<TextBox[]> {
+  return await withEditedPage(arrayBuffer, data, false, (pdfDoc, pageNum, rotation) =>
+    getTextBoxes(pdfDoc, pageNum, rotation));
+}
+
+/**
+ * Snaps a dragged area to the text it touches: each run overlapping the area
+ * is trimmed to the characters inside it, like a text selection. Runs that
+ * read top to bottom on screen are kept whole.
+ */
+export function snapToText(boxes: TextBox[], area: CropBox): TextBox[] {
+  const snapped: TextBox[] = [];
+  for (const box of boxes) {
+    if (!intersects(box, area)) continue;
+    if (box.height > box.width || box.text.length < 2) {
+      snapped.push(box);
+      continue;
+    }
+
+    const charWidth = box.width / box.text.length;
+    const start = Math.max(0, Math.floor((area.x - box.x) / charWidth));
+    const end = Math.min(box.text.length, Math.ceil((area.x + area.width - box.x) / charWidth));
+    if (end <= start) continue;
+    snapped.push({
+      ...box,
+      text: box.text.slice(start, end),
+      x: box.x + start * charWidth,
+      width: (end - start) * charWidth,
+    });
+  }
+  return snapped;
+}
@@ -0,0 +1,82 @@
+import type { PDFDocument as PDFDocType, SearchHit, TaskOptions } from '@/types/pdf';
+import { getCachedPDFDocument } from '@/utils/pdfRender';
+import { reportProgress } from '@/utils/pdfUtils';
+
+// Characters of context shown on each side of the first match
+const SNIPPET_CONTEXT = 24;
+
+const textCache = new WeakMap<ArrayBuffer, Promise<string[]>>();
+
+// Whitespace differs between extractors and line breaks, so compare with runs collapsed.
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+async function extractPageTexts(arrayBuffer: ArrayBuffer): Promise<string[]> {
+  const pdfDoc = await getCachedPDFDocument(arrayBuffer);
+  const texts: string[] = [];
+
+  for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+    const page = await pdfDoc.getPage(pageNum);
+    const content = await page.getTextContent();
+    texts.push(normalizeText(content.items
+      .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+      .join('')));
+    page.cleanup();
+  }
+  return texts;
+}
+
+// Text of every page of the (immutable) bytes, extracted once.
+export function getPageTexts(arrayBuffer: ArrayBuffer): Promise<string[]> {
+  let cached = textCache.get(arrayBuffer);
+  if (!cached) {
+    cached = extractPageTexts(arrayBuffer);
+    // A failed extraction should be retried on the next search
+    cached.catch(() => textCache.delete(arrayBuffer));
+    textCache.set(arrayBuffer, cached);
+  }
+  return cached;
+}
+
+function countMatches(haystack: string, needle: string): { count: number; first: number } {
+  let count = 0;
+  const first = haystack.indexOf(needle);
+  for (let at = first; at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+    count++;
+  }
+  return { count, first };
+}
+
+function buildSnippet(text: string, start: number, length: number): string {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, start + length + SNIPPET_CONTEXT);
+  return `${from > 0 ? '…' : ''}${text.slice(from, to)}${to < text.length ? '…' : ''}`;
+}
+
+/**
+ * Case-insensitive search over the pages of each document as currently
+ * edited: deleted pages are skipped, inserted pages are searched in their own
+ * source, and added text annotations count as page text.
+ */
+export async function searchDocuments(
+  documents: PDFDocType[],
+  query: string,
+  options: TaskOptions = {}
+): Promise<SearchHit[]> {
+  const needle = normalizeText(query).toLowerCase();
+  if (!needle) return [];
+  const hits: SearchHit[] = [];
+
+  for (const [i, doc] of documents.entries()) {
+    for (const [pageIndex, page] of doc.pages.entries()) {
+      const texts = await getPageTexts(page.source?.arrayBuffer ?? doc.arrayBuffer);
+      const text = normalizeText([texts[page.pageIndex] ?? '', ...page.textAnnotations.map(a => a.text)].join(' '));
+      const { count, first } = countMatches(text.toLowerCase(), needle);
+      if (count === 0) continue;
+      hits.push({ docId: doc.id, pageIndex, count, snippet: buildSnippet(text, first, needle.length) });
+    }
+    await reportProgress(options, i + 1, documents.length);
+  }
+  return hits;
+}
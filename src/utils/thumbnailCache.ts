@@ -0,0 +1,67 @@
+import type { PDFPageData } from '@/types/pdf';
+import { renderEditedPage } from '@/utils/pdfRender';
+
+const MAX_ENTRIES = 300;
+const THUMBNAIL_SCALE = 0.3;
+
+interface CacheEntry {
+  promise: Promise<string>;
+  url?: string;
+}
+
+// Map iteration order doubles as recency order: hits are re-inserted at the end.
+const cache = new Map<string, CacheEntry>();
+
+// Changes whenever an edit changes how the page looks, so stale entries are never hit.
+export function getThumbnailKey(docId: string, page: PDFPageData): string {
+  const crop = page.cropBox
+    ? [page.cropBox.x, page.cropBox.y, page.cropBox.width, page.cropBox.height].join(',')
+    : '';
+  const source = page.source ? page.source.id : 'original';
+  const overlays = [...(page.watermarks ?? []), ...(page.stamps ?? []), ...(page.markups ?? [])].map(overlay => overlay.id).join(',');
+  return [
+    docId,
+    source,
+    page.pageIndex,
+    page.rotation,
+    crop,
+    overlays,
+    JSON.stringify(page.textAnnotations),
+    JSON.stringify(page.drawing ?? null),
+    // Leave out the image bytes; the id names the image
+    JSON.stringify((page.signatures ?? []).map(({ image: _image, ...placement }) => placement)),
+  ].join(':');
+}
+
+export function peekThumbnail(key: string): string | undefined {
+  return cache.get(key)?.url;
+}
+
+export function getThumbnail(key: string, arrayBuffer: ArrayBuffer, page: PDFPageData): Promise<string> {
+  const hit = cache.get(key);
+  if (hit) {
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit.promise;
+  }
+
+  const entry: CacheEntry = {
+    promise: renderEditedPage(arrayBuffer, page, THUMBNAIL_SCALE),
+  };
+  entry.promise.then(
+    url => { entry.url = url; },
+    () => { cache.delete(key); }
+  );
+  cache.set(key, entry);
+
+  while (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return entry.promise;
+}
+
+export function clearDocumentThumbnails(docId: string): void {
+  for (const key of Array.from(cache.keys())) {
+    if (key.startsWith(`${docId}:`)) cache.delete(key);
+  }
+}
@@ -0,0 +1,100 @@
+import JSZip from 'jszip';
+import type { PDFDocument, Workspace, WorkspaceSession } from '@/types/pdf';
+
+const MANIFEST_NAME = 'workspace.json';
+const MANIFEST_VERSION = 1;
+
+interface WorkspaceManifest {
+  version: number;
+  // Binary values are replaced by references to files in the archive
+  documents: unknown[];
+  session: WorkspaceSession;
+}
+
+type BinaryReference = { $buffer: string } | { $bytes: string };
+
+// File names inside the archive must not contain path separators
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, '_');
+}
+
+/**
+ * Packs the workspace into a ZIP: each document's base PDF, the other
+ * binary data (inserted pages, images, signatures) as separate files and a
+ * JSON manifest with the operations and editor state. Shared buffers are
+ * written once, so restored documents share them again.
+ */
+export async function exportWorkspaceArchive(workspace: Workspace): Promise<Blob> {
+  const zip = new JSZip();
+  const paths = new Map<ArrayBuffer, string>();
+
+  // Base files get readable names so the archive is useful without this app
+  workspace.documents.forEach((doc, i) => {
+    const path = `documents/${String(i + 1).padStart(3, '0')}_${safeFileName(doc.name)}.pdf`;
+    paths.set(doc.arrayBuffer, path);
+    zip.file(path, doc.arrayBuffer);
+  });
+
+  const pathFor = (buffer: ArrayBuffer) => {
+    let path = paths.get(buffer);
+    if (!path) {
+      path = `data/${paths.size + 1}.bin`;
+      paths.set(buffer, path);
+      zip.file(path, buffer);
+    }
+    return path;
+  };
+
+  const manifest: WorkspaceManifest = {
+    version: MANIFEST_VERSION,
+    documents: workspace.documents,
+    session: workspace.session,
+  };
+  const json = JSON.stringify(manifest, (_key, value: unknown): unknown => {
+    if (value instanceof ArrayBuffer) return { $buffer: pathFor(value) };
+    if (value instanceof Uint8Array) {
+      const whole = value.byteOffset === 0 && value.byteLength === value.buffer.byteLength;
+      return { $bytes: pathFor(whole ? value.buffer as ArrayBuffer : value.slice().buffer) };
+    }
+    return value;
+  }, 2);
+  zip.file(MANIFEST_NAME, json);
+
+  return await zip.generateAsync({ type: 'blob' });
+}
+
+function isBinaryReference(value: unknown): value is BinaryReference {
+  if (typeof value !== 'object' || value === null) return false;
+  const keys = Object.keys(value);
+  return keys.length === 1 && (keys[0] === '$buffer' || keys[0] === '$bytes');
+}
+
+/** Reads an archive written by exportWorkspaceArchive; throws when it is not one. */
+export async function importWorkspaceArchive(file: Blob): Promise<Workspace> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file(MANIFEST_NAME);
+  if (!manifestFile) throw new Error('Workspace manifest missing');
+  const text = await manifestFile.async('string');
+
+  // Load every referenced file first, since JSON revivers cannot wait
+  const buffers = new Map<string, ArrayBuffer>();
+  const referenced = new Set<string>();
+  JSON.parse(text, (_key, value: unknown) => {
+    if (isBinaryReference(value)) referenced.add('$buffer' in value ? value.$buffer : value.$bytes);
+    return value;
+  });
+  for (const path of referenced) {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Workspace file missing: ${path}`);
+    buffers.set(path, await entry.async('arraybuffer'));
+  }
+
+  const manifest = JSON.parse(text, (_key, value: unknown) => {
+    if (!isBinaryReference(value)) return value;
+    return '$buffer' in value ? buffers.get(value.$buffer) : new Uint8Array(buffers.get(value.$bytes)!);
+  }) as WorkspaceManifest;
+  if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.documents)) {
+    throw new Error(`Unsupported workspace version: ${manifest.version}`);
+  }
+  return { documents: manifest.documents as PDFDocument[], session: manifest.session };
+}
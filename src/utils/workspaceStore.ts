@@ -0,0 +1,80 @@
+import type { PDFDocument, Workspace, WorkspaceSession } from '@/types/pdf';
+import { DOCUMENT_STORE, SESSION_STORE, openDatabase, requestToPromise, transactionDone } from '@/utils/database';
+
+const SESSION_KEY = 'current';
+
+// The document objects last written, so unchanged documents are not cloned again
+const persisted = new Map<string, PDFDocument>();
+
+/** The saved workspace, or null when there is none or it holds no documents. */
+export async function loadWorkspace(): Promise<Workspace | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([DOCUMENT_STORE, SESSION_STORE], 'readonly');
+  const [documents, session] = await Promise.all([
+    requestToPromise(transaction.objectStore(DOCUMENT_STORE).getAll() as IDBRequest<PDFDocument[]>),
+    requestToPromise(transaction.objectStore(SESSION_STORE).get(SESSION_KEY) as IDBRequest<WorkspaceSession | undefined>),
+  ]);
+  if (!session || documents.length === 0) return null;
+
+  // Records are unordered; documents missing from the session were left by an interrupted save
+  const ordered = session.documentIds
+    .map(id => documents.find(doc => doc.id === id))
+    .filter((doc): doc is PDFDocument => doc !== undefined);
+  if (ordered.length === 0) return null;
+  return { documents: ordered, session };
+}
+
+/**
+ * Writes the workspace in one transaction. Only documents whose object
+ * changed since the last save are stored again; removed ones are deleted.
+ */
+export async function saveWorkspace({ documents, session }: Workspace): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([DOCUMENT_STORE, SESSION_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(DOCUMENT_STORE);
+
+  const written: PDFDocument[] = [];
+  for (const doc of documents) {
+    if (persisted.get(doc.id) === doc) continue;
+    store.put(doc);
+    written.push(doc);
+  }
+  const ids = new Set(documents.map(doc => doc.id));
+  const removed = [...persisted.keys()].filter(id => !ids.has(id));
+  for (const id of removed) store.delete(id);
+  transaction.objectStore(SESSION_STORE).put(session, SESSION_KEY);
+
+  await done;
+  written.forEach(doc => persisted.set(doc.id, doc));
+  removed.forEach(id => persisted.delete(id));
+}
+
+// Marks restored documents as already stored.
+export function markWorkspaceSaved(documents: PDFDocument[]): void {
+  persisted.clear();
+  documents.forEach(doc => persisted.set(doc.id, doc));
+}
+
+export async function clearWorkspace(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([DOCUMENT_STORE, SESSION_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(DOCUMENT_STORE).clear();
+  transaction.objectStore(SESSION_STORE).clear();
+  await done;
+  persisted.clear();
+}
+
+/** Bytes used and available to this origin, when the browser reports them. */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+}
+
+// Asks the browser not to evict the workspace under storage pressure; it may decline.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+}
@@ -0,0 +1,40 @@
+import { executeTask, type WorkerRequest, type WorkerResponse } from '@/workers/pdfTasks';
+import { registerFontBytes } from '@/utils/fonts';
+
+const controllers = new Map<number, AbortController>();
+
+function post(response: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.kind === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, task, fonts } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  Object.entries(fonts).forEach(([family, bytes]) => registerFontBytes(family, bytes));
+
+  try {
+    const result = await executeTask(task, {
+      signal: controller.signal,
+      onProgress: (current, total) => post({ kind: 'progress', id, current, total }),
+    });
+    const buffers = (Array.isArray(result) ? result : [result]).map(bytes => bytes.buffer);
+    post({ kind: 'result', id, result }, buffers);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ kind: 'cancelled', id });
+    } else {
+      post({ kind: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+});
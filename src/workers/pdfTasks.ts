@@ -0,0 +1,67 @@
+import type {
+  ImageImportSettings,
+  MergeRule,
+  MergeSource,
+  OptimizeSettings,
+  PageOperation,
+  PDFProtection,
+  PreparedImage,
+  TaskOptions,
+} from '@/types/pdf';
+import { applyOperations } from '@/utils/editOperations';
+import { decryptPDF, encryptPDF } from '@/utils/encryption';
+import { optimizePDF } from '@/utils/optimize';
+import {
+  createPDFFromImages,
+  extractPages,
+  mergePDFs,
+  splitPDF,
+  splitPDFBySize,
+} from '@/utils/pdfUtils';
+
+export type PDFTask =
+  | { type: 'export'; arrayBuffer: ArrayBuffer; operations: PageOperation[]; stripMetadata?: boolean }
+  | { type: 'merge'; sources: MergeSource[]; metadataSource?: number }
+  | { type: 'split'; arrayBuffer: ArrayBuffer; ranges: MergeRule[] }
+  | { type: 'splitBySize'; arrayBuffer: ArrayBuffer; maxBytes: number }
+  | { type: 'extract'; arrayBuffer: ArrayBuffer; pageIndices: number[] }
+  | { type: 'images'; images: PreparedImage[]; settings: ImageImportSettings }
+  | { type: 'decrypt'; arrayBuffer: ArrayBuffer; password: string }
+  | { type: 'encrypt'; arrayBuffer: ArrayBuffer; protection: PDFProtection }
+  | { type: 'optimize'; arrayBuffer: ArrayBuffer; settings: OptimizeSettings };
+
+export type PDFTaskResult<T extends PDFTask> = T extends { type: 'split' | 'splitBySize' } ? Uint8Array[] : Uint8Array;
+
+export type WorkerRequest =
+  | { kind: 'run'; id: number; task: PDFTask; fonts: Record<string, ArrayBuffer> }
+  | { kind: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { kind: 'progress'; id: number; current: number; total: number }
+  | { kind: 'result'; id: number; result: Uint8Array | Uint8Array[] }
+  | { kind: 'error'; id: number; message: string }
+  | { kind: 'cancelled'; id: number };
+
+// Runs a task with pdf-lib; shared by the worker and the main-thread fallback.
+export async function executeTask(task: PDFTask, options: TaskOptions): Promise<Uint8Array | Uint8Array[]> {
+  switch (task.type) {
+    case 'export':
+      return await applyOperations(task.arrayBuffer, task.operations, options, task.stripMetadata);
+    case 'merge':
+      return await mergePDFs(task.sources, options, task.metadataSource);
+    case 'split':
+      return await splitPDF(task.arrayBuffer, task.ranges, options);
+    case 'splitBySize':
+      return await splitPDFBySize(task.arrayBuffer, task.maxBytes, options);
+    case 'extract':
+      return await extractPages(task.arrayBuffer, task.pageIndices, options);
+    case 'images':
+      return await createPDFFromImages(task.images, task.settings, options);
+    case 'decrypt':
+      return await decryptPDF(task.arrayBuffer, task.password);
+    case 'encrypt':
+      return await encryptPDF(task.arrayBuffer, task.protection);
+    case 'optimize':
+      return await optimizePDF(task.arrayBuffer, task.settings, options);
+  }
+}